@@ -9,9 +9,34 @@
  */
 
 import type * as auth from "../auth.js";
+import type * as bulk from "../bulk.js";
+import type * as checklists from "../checklists.js";
+import type * as comments from "../comments.js";
+import type * as content from "../content.js";
+import type * as crons from "../crons.js";
+import type * as documents from "../documents.js";
 import type * as example from "../example.js";
+import type * as favorites from "../favorites.js";
 import type * as http from "../http.js";
+import type * as lib_budget from "../lib/budget.js";
+import type * as lib_bulk from "../lib/bulk.js";
+import type * as lib_documents from "../lib/documents.js";
+import type * as lib_listing from "../lib/listing.js";
+import type * as lib_ordering from "../lib/ordering.js";
+import type * as lib_schedule from "../lib/schedule.js";
+import type * as lib_staffing from "../lib/staffing.js";
+import type * as lib_templates from "../lib/templates.js";
+import type * as lib_trash from "../lib/trash.js";
+import type * as lib_workflow from "../lib/workflow.js";
+import type * as notifications from "../notifications.js";
+import type * as pastPerformance from "../pastPerformance.js";
+import type * as personnel from "../personnel.js";
+import type * as proposals from "../proposals.js";
+import type * as revisions from "../revisions.js";
+import type * as sections from "../sections.js";
+import type * as templates from "../templates.js";
 import type * as users from "../users.js";
+import type * as views from "../views.js";
 
 import type {
   ApiFromModules,
@@ -29,9 +54,34 @@ import type {
  */
 declare const fullApi: ApiFromModules<{
   auth: typeof auth;
+  bulk: typeof bulk;
+  checklists: typeof checklists;
+  comments: typeof comments;
+  content: typeof content;
+  crons: typeof crons;
+  documents: typeof documents;
   example: typeof example;
+  favorites: typeof favorites;
   http: typeof http;
+  "lib/budget": typeof lib_budget;
+  "lib/bulk": typeof lib_bulk;
+  "lib/documents": typeof lib_documents;
+  "lib/listing": typeof lib_listing;
+  "lib/ordering": typeof lib_ordering;
+  "lib/schedule": typeof lib_schedule;
+  "lib/staffing": typeof lib_staffing;
+  "lib/templates": typeof lib_templates;
+  "lib/trash": typeof lib_trash;
+  "lib/workflow": typeof lib_workflow;
+  notifications: typeof notifications;
+  pastPerformance: typeof pastPerformance;
+  personnel: typeof personnel;
+  proposals: typeof proposals;
+  revisions: typeof revisions;
+  sections: typeof sections;
+  templates: typeof templates;
   users: typeof users;
+  views: typeof views;
 }>;
 declare const fullApiWithMounts: typeof fullApi;
 
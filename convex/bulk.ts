@@ -0,0 +1,481 @@
+import { mutation, type MutationCtx } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import { ConvexError, v, type Infer } from "convex/values";
+import { betterAuthComponent } from "./auth";
+import { addChecklistItems } from "./checklists";
+import { IMPORT_MAX, holdsValues } from "./lib/bulk";
+import { getLiveSection } from "./lib/trash";
+import {
+  initialStatusError,
+  reviewerChangeError,
+  sectionStatus,
+  transitionError,
+} from "./lib/workflow";
+import { recordRevision } from "./revisions";
+import schema from "./schema";
+import { applyStatus, assertValidMetric, nextOrder, notifyReviewer } from "./sections";
+import { getMember } from "./users";
+
+// Keep a single batch comfortably inside Convex's per-mutation write limits
+const MAX_BATCH = 500;
+
+type Operation = Infer<typeof schema.tables.bulkOperations.validator>;
+
+async function loadSections(ctx: MutationCtx, ids: Id<"sections">[]) {
+  const uniqueIds = [...new Set(ids)];
+  if (uniqueIds.length === 0) {
+    throw new ConvexError("No sections selected");
+  }
+  if (uniqueIds.length > MAX_BATCH) {
+    throw new ConvexError(`Select at most ${MAX_BATCH} sections at a time`);
+  }
+
+  const sections: Doc<"sections">[] = [];
+  for (const id of uniqueIds) {
+    sections.push(await getLiveSection(ctx, id));
+  }
+  // Keep outline order so duplicates come out in the same sequence
+  return sections.sort((a, b) => a.order - b.order);
+}
+
+async function recordOperation(
+  ctx: MutationCtx,
+  userId: string,
+  kind: Operation["kind"],
+  changes: Partial<Pick<Operation, "before" | "createdIds" | "trashedIds">>
+) {
+  return await ctx.db.insert("bulkOperations", {
+    userId,
+    kind,
+    before: changes.before ?? [],
+    createdIds: changes.createdIds ?? [],
+    trashedIds: changes.trashedIds ?? [],
+    createdAt: Date.now(),
+  });
+}
+
+// Move every selected section to `status`. Sections the workflow does not allow
+// to move are skipped and counted rather than failing the whole batch.
+export const setStatus = mutation({
+  args: {
+    ids: v.array(v.id("sections")),
+    status: sectionStatus,
+  },
+  handler: async (ctx, args) => {
+    const userId = await betterAuthComponent.getAuthUserId(ctx);
+    if (!userId) {
+      throw new ConvexError("Not authenticated");
+    }
+
+    const sections = await loadSections(ctx, args.ids);
+    const before: Operation["before"] = [];
+    let skipped = 0;
+    for (const section of sections) {
+      if (section.status === args.status) {
+        continue;
+      }
+      if (transitionError(section, args.status, userId)) {
+        skipped++;
+        continue;
+      }
+      before.push({
+        sectionId: section._id,
+        status: section.status,
+        after: { status: args.status },
+      });
+      await applyStatus(ctx, section, args.status, userId);
+    }
+
+    const operationId = await recordOperation(ctx, userId, "status", { before });
+    return { operationId, updated: before.length, skipped };
+  },
+});
+
+// Assign one reviewer to every selected section, or clear them with `null`
+export const assignReviewer = mutation({
+  args: {
+    ids: v.array(v.id("sections")),
+    reviewerId: v.union(v.string(), v.null()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await betterAuthComponent.getAuthUserId(ctx);
+    if (!userId) {
+      throw new ConvexError("Not authenticated");
+    }
+
+    const sections = await loadSections(ctx, args.ids);
+    const before: Operation["before"] = [];
+    let skipped = 0;
+    for (const section of sections) {
+      if ((args.reviewerId ?? undefined) === section.reviewerId) {
+        continue;
+      }
+      if (reviewerChangeError(section, args.reviewerId ?? undefined)) {
+        skipped++;
+        continue;
+      }
+      if (args.reviewerId) {
+        await notifyReviewer(ctx, section, args.reviewerId, userId);
+      }
+      before.push({
+        sectionId: section._id,
+        reviewerId: section.reviewerId ?? null,
+        after: { reviewerId: args.reviewerId },
+      });
+      await ctx.db.patch(section._id, {
+        reviewerId: args.reviewerId ?? undefined,
+        updatedAt: Date.now(),
+      });
+      await recordRevision(ctx, section._id, userId);
+    }
+
+    const operationId = await recordOperation(ctx, userId, "reviewer", { before });
+    return { operationId, updated: before.length, skipped };
+  },
+});
+
+// Change the section type of every selected section
+export const setType = mutation({
+  args: {
+    ids: v.array(v.id("sections")),
+    type: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const userId = await betterAuthComponent.getAuthUserId(ctx);
+    if (!userId) {
+      throw new ConvexError("Not authenticated");
+    }
+
+    const sections = await loadSections(ctx, args.ids);
+    const before: Operation["before"] = [];
+    for (const section of sections) {
+      if (section.type === args.type) {
+        continue;
+      }
+      before.push({ sectionId: section._id, type: section.type, after: { type: args.type } });
+      await ctx.db.patch(section._id, { type: args.type, updatedAt: Date.now() });
+      await recordRevision(ctx, section._id, userId);
+    }
+
+    const operationId = await recordOperation(ctx, userId, "type", { before });
+    return { operationId, updated: before.length, skipped: 0 };
+  },
+});
+
+// Write a block of Target / Limit values, e.g. pasted from a spreadsheet. Each
+// update only sets the fields it carries; unchanged values are not recorded.
+export const setMetrics = mutation({
+  args: {
+    updates: v.array(
+      v.object({
+        id: v.id("sections"),
+        target: v.optional(v.number()),
+        limit: v.optional(v.number()),
+      })
+    ),
+  },
+  handler: async (ctx, args) => {
+    const userId = await betterAuthComponent.getAuthUserId(ctx);
+    if (!userId) {
+      throw new ConvexError("Not authenticated");
+    }
+
+    for (const update of args.updates) {
+      assertValidMetric("Target", update.target);
+      assertValidMetric("Limit", update.limit);
+    }
+    const sections = await loadSections(
+      ctx,
+      args.updates.map(update => update.id)
+    );
+    const before: Operation["before"] = [];
+    for (const section of sections) {
+      const update = args.updates.find(update => update.id === section._id)!;
+      const target = update.target ?? section.target;
+      const limit = update.limit ?? section.limit;
+      if (target === section.target && limit === section.limit) {
+        continue;
+      }
+      before.push({
+        sectionId: section._id,
+        target: section.target,
+        limit: section.limit,
+        after: { target, limit },
+      });
+      await ctx.db.patch(section._id, { target, limit, updatedAt: Date.now() });
+      await recordRevision(ctx, section._id, userId);
+    }
+
+    const operationId = await recordOperation(ctx, userId, "metrics", { before });
+    return { operationId, updated: before.length, skipped: 0 };
+  },
+});
+
+// Copy the selected sections to the end of the outline, including their body,
+// checklist (unticked), past-performance citations and focus-document links.
+// A reviewer still in the workspace is told about the copy they now review.
+export const duplicate = mutation({
+  args: { ids: v.array(v.id("sections")) },
+  handler: async (ctx, args) => {
+    const userId = await betterAuthComponent.getAuthUserId(ctx);
+    if (!userId) {
+      throw new ConvexError("Not authenticated");
+    }
+
+    const sections = await loadSections(ctx, args.ids);
+    const createdIds: Id<"sections">[] = [];
+    for (const section of sections) {
+      const now = Date.now();
+      const header = `${section.header} (copy)`;
+      const copyId = await ctx.db.insert("sections", {
+        proposalId: section.proposalId,
+        header,
+        type: section.type,
+        status: "Not Started",
+        target: section.target,
+        limit: section.limit,
+        reviewerId: section.reviewerId,
+        wordCount: section.wordCount,
+        draftDue: section.draftDue,
+        reviewDue: section.reviewDue,
+        finalDue: section.finalDue,
+        order: await nextOrder(ctx, section.proposalId),
+        createdAt: now,
+        updatedAt: now,
+      });
+
+      const content = await ctx.db
+        .query("sectionContents")
+        .withIndex("by_section", q => q.eq("sectionId", section._id))
+        .unique();
+      if (content) {
+        await ctx.db.insert("sectionContents", {
+          sectionId: copyId,
+          html: content.html,
+          updatedBy: userId,
+          updatedAt: now,
+        });
+      }
+
+      const checklist = await ctx.db
+        .query("sectionChecklistItems")
+        .withIndex("by_section", q => q.eq("sectionId", section._id))
+        .collect();
+      await addChecklistItems(
+        ctx,
+        copyId,
+        checklist.map(item => item.label)
+      );
+      const citations = await ctx.db
+        .query("pastPerformanceLinks")
+        .withIndex("by_section", q => q.eq("sectionId", section._id))
+        .collect();
+      for (const { recordId } of citations) {
+        await ctx.db.insert("pastPerformanceLinks", {
+          recordId,
+          sectionId: copyId,
+          createdBy: userId,
+          createdAt: now,
+        });
+      }
+      const documentLinks = await ctx.db
+        .query("documentLinks")
+        .withIndex("by_section", q => q.eq("sectionId", section._id))
+        .collect();
+      for (const { documentId } of documentLinks) {
+        await ctx.db.insert("documentLinks", {
+          documentId,
+          sectionId: copyId,
+          createdBy: userId,
+          createdAt: now,
+        });
+      }
+
+      if (section.reviewerId && (await getMember(ctx, section.reviewerId))) {
+        await notifyReviewer(ctx, { _id: copyId, header }, section.reviewerId, userId);
+      }
+      await recordRevision(ctx, copyId, userId);
+      createdIds.push(copyId);
+    }
+
+    const operationId = await recordOperation(ctx, userId, "duplicate", { createdIds });
+    return { operationId, updated: createdIds.length, skipped: 0 };
+  },
+});
+
+// Insert sections from a spreadsheet import at the end of a proposal's outline.
+// Rows are validated again here with the workflow's rules and the whole batch is
+// rejected if any of them is invalid, so each batch is all or nothing. Sections
+// that start past Not Started get a status change in the audit trail.
+export const importSections = mutation({
+  args: {
+    proposalId: v.id("proposals"),
+    rows: v.array(
+      v.object({
+        header: v.string(),
+        type: v.string(),
+        status: sectionStatus,
+        target: v.number(),
+        limit: v.number(),
+        reviewerId: v.optional(v.string()),
+      })
+    ),
+  },
+  handler: async (ctx, args) => {
+    const userId = await betterAuthComponent.getAuthUserId(ctx);
+    if (!userId) {
+      throw new ConvexError("Not authenticated");
+    }
+    if (args.rows.length === 0) {
+      throw new ConvexError("Nothing to import");
+    }
+    if (args.rows.length > IMPORT_MAX) {
+      throw new ConvexError(`Import at most ${IMPORT_MAX} sections at a time`);
+    }
+    if ((await ctx.db.get(args.proposalId)) === null) {
+      throw new ConvexError("Proposal not found");
+    }
+
+    const createdIds: Id<"sections">[] = [];
+    for (const [index, row] of args.rows.entries()) {
+      const header = row.header.trim();
+      if (!header) {
+        throw new ConvexError(`Row ${index + 1}: Header is required`);
+      }
+      assertValidMetric("Target", row.target);
+      assertValidMetric("Limit", row.limit);
+      if (row.reviewerId && !(await getMember(ctx, row.reviewerId))) {
+        throw new ConvexError(`Row ${index + 1}: Reviewer not found`);
+      }
+      const statusError = initialStatusError(row.status, row.reviewerId);
+      if (statusError) {
+        throw new ConvexError(`Row ${index + 1}: ${statusError}`);
+      }
+
+      const now = Date.now();
+      const sectionId = await ctx.db.insert("sections", {
+        ...row,
+        proposalId: args.proposalId,
+        header,
+        statusChangedBy: userId,
+        statusChangedAt: now,
+        order: await nextOrder(ctx, args.proposalId),
+        createdAt: now,
+        updatedAt: now,
+      });
+      if (row.status !== "Not Started") {
+        await ctx.db.insert("statusChanges", {
+          sectionId,
+          from: "Not Started",
+          to: row.status,
+          userId,
+          proposalId: args.proposalId,
+          createdAt: now,
+        });
+      }
+      if (row.reviewerId) {
+        await notifyReviewer(ctx, { _id: sectionId, header }, row.reviewerId, userId);
+      }
+      await recordRevision(ctx, sectionId, userId);
+      createdIds.push(sectionId);
+    }
+
+    const operationId = await recordOperation(ctx, userId, "import", { createdIds });
+    return { operationId, updated: createdIds.length, skipped: 0 };
+  },
+});
+
+// Move the selected sections to the trash, like the row menu's Delete, so the
+// batch can be undone with every comment, revision and link intact
+export const remove = mutation({
+  args: { ids: v.array(v.id("sections")) },
+  handler: async (ctx, args) => {
+    const userId = await betterAuthComponent.getAuthUserId(ctx);
+    if (!userId) {
+      throw new ConvexError("Not authenticated");
+    }
+
+    const sections = await loadSections(ctx, args.ids);
+    const now = Date.now();
+    for (const section of sections) {
+      await ctx.db.patch(section._id, { trashedAt: now, trashedBy: userId });
+    }
+
+    const trashedIds = sections.map(section => section._id);
+    const operationId = await recordOperation(ctx, userId, "delete", { trashedIds });
+    return { operationId, updated: trashedIds.length, skipped: 0 };
+  },
+});
+
+// Revert a bulk operation. Only the user who ran it can undo it, and only once.
+// Sections that were changed again since the operation keep their newer values
+// and are counted as skipped, as are sections in review whose reviewer it would
+// change. Sections the operation created are moved to the trash.
+export const undo = mutation({
+  args: { operationId: v.id("bulkOperations") },
+  handler: async (ctx, args) => {
+    const userId = await betterAuthComponent.getAuthUserId(ctx);
+    if (!userId) {
+      throw new ConvexError("Not authenticated");
+    }
+
+    const operation = await ctx.db.get(args.operationId);
+    if (operation === null || operation.userId !== userId) {
+      throw new ConvexError("Operation not found");
+    }
+    if (operation.undoneAt !== undefined) {
+      throw new ConvexError("Operation was already undone");
+    }
+
+    let skipped = 0;
+    for (const { sectionId, after, ...previous } of operation.before) {
+      const section = await ctx.db.get(sectionId);
+      if (section === null) {
+        continue;
+      }
+      if (
+        !holdsValues(section, after) ||
+        (previous.reviewerId !== undefined &&
+          reviewerChangeError(section, previous.reviewerId ?? undefined))
+      ) {
+        skipped++;
+        continue;
+      }
+      if (previous.status !== undefined) {
+        await applyStatus(ctx, section, previous.status, userId);
+      } else {
+        await ctx.db.patch(section._id, {
+          ...(previous.type !== undefined && { type: previous.type }),
+          ...(previous.target !== undefined && { target: previous.target }),
+          ...(previous.limit !== undefined && { limit: previous.limit }),
+          ...(previous.reviewerId !== undefined && {
+            reviewerId: previous.reviewerId ?? undefined,
+          }),
+          updatedAt: Date.now(),
+        });
+        await recordRevision(ctx, section._id, userId);
+      }
+    }
+
+    // Created sections go to the trash rather than being deleted, so content,
+    // comments and links added to them since can still be restored
+    const now = Date.now();
+    for (const id of operation.createdIds) {
+      const section = await ctx.db.get(id);
+      if (section !== null && section.trashedAt === undefined) {
+        await ctx.db.patch(id, { trashedAt: now, trashedBy: userId });
+      }
+    }
+
+    // Sections purged from the trash since can no longer come back
+    for (const id of operation.trashedIds) {
+      const section = await ctx.db.get(id);
+      if (section !== null && section.trashedAt !== undefined) {
+        await ctx.db.patch(id, { trashedAt: undefined, trashedBy: undefined });
+      }
+    }
+
+    await ctx.db.patch(args.operationId, { undoneAt: Date.now() });
+    return { skipped };
+  },
+});
@@ -0,0 +1,120 @@
+import { query, mutation, type MutationCtx } from "./_generated/server";
+import type { Id } from "./_generated/dataModel";
+import { ConvexError, v } from "convex/values";
+import { betterAuthComponent } from "./auth";
+import { MAX_CHECKLIST_ITEMS } from "./lib/templates";
+import { getLiveSection } from "./lib/trash";
+
+// Longest allowed checklist item
+const LABEL_MAX = 200;
+
+export function cleanChecklist(labels: string[]) {
+  const cleaned = labels.map(label => label.trim()).filter(Boolean);
+  if (cleaned.length > MAX_CHECKLIST_ITEMS) {
+    throw new ConvexError(`A checklist can have at most ${MAX_CHECKLIST_ITEMS} items`);
+  }
+  if (cleaned.some(label => label.length > LABEL_MAX)) {
+    throw new ConvexError(`Checklist items must be at most ${LABEL_MAX} characters`);
+  }
+  return cleaned;
+}
+
+async function checklistOf(ctx: MutationCtx, sectionId: Id<"sections">) {
+  return await ctx.db
+    .query("sectionChecklistItems")
+    .withIndex("by_section", q => q.eq("sectionId", sectionId))
+    .collect();
+}
+
+// Append unchecked items to a section's checklist
+export async function addChecklistItems(
+  ctx: MutationCtx,
+  sectionId: Id<"sections">,
+  labels: string[]
+) {
+  const existing = await checklistOf(ctx, sectionId);
+  if (existing.length + labels.length > MAX_CHECKLIST_ITEMS) {
+    throw new ConvexError(`A checklist can have at most ${MAX_CHECKLIST_ITEMS} items`);
+  }
+
+  let order = existing.at(-1)?.order ?? 0;
+  for (const label of labels) {
+    order += 1;
+    await ctx.db.insert("sectionChecklistItems", { sectionId, label, done: false, order });
+  }
+}
+
+export async function deleteChecklist(ctx: MutationCtx, sectionId: Id<"sections">) {
+  for (const item of await checklistOf(ctx, sectionId)) {
+    await ctx.db.delete(item._id);
+  }
+}
+
+// A section's checklist in order
+export const forSection = query({
+  args: { sectionId: v.id("sections") },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      return [];
+    }
+
+    return await ctx.db
+      .query("sectionChecklistItems")
+      .withIndex("by_section", q => q.eq("sectionId", args.sectionId))
+      .collect();
+  },
+});
+
+// Add an item to the end of a section's checklist
+export const add = mutation({
+  args: { sectionId: v.id("sections"), label: v.string() },
+  handler: async (ctx, args) => {
+    const userId = await betterAuthComponent.getAuthUserId(ctx);
+    if (!userId) {
+      throw new ConvexError("Not authenticated");
+    }
+
+    await getLiveSection(ctx, args.sectionId);
+    const labels = cleanChecklist([args.label]);
+    if (labels.length === 0) {
+      throw new ConvexError("Checklist item is required");
+    }
+    await addChecklistItems(ctx, args.sectionId, labels);
+  },
+});
+
+// Tick or untick a checklist item, recording who ticked it
+export const setDone = mutation({
+  args: { id: v.id("sectionChecklistItems"), done: v.boolean() },
+  handler: async (ctx, args) => {
+    const userId = await betterAuthComponent.getAuthUserId(ctx);
+    if (!userId) {
+      throw new ConvexError("Not authenticated");
+    }
+
+    if ((await ctx.db.get(args.id)) === null) {
+      throw new ConvexError("Checklist item not found");
+    }
+    await ctx.db.patch(args.id, {
+      done: args.done,
+      doneBy: args.done ? userId : undefined,
+      doneAt: args.done ? Date.now() : undefined,
+    });
+  },
+});
+
+// Remove an item from a section's checklist
+export const remove = mutation({
+  args: { id: v.id("sectionChecklistItems") },
+  handler: async (ctx, args) => {
+    const userId = await betterAuthComponent.getAuthUserId(ctx);
+    if (!userId) {
+      throw new ConvexError("Not authenticated");
+    }
+
+    if ((await ctx.db.get(args.id)) !== null) {
+      await ctx.db.delete(args.id);
+    }
+  },
+});
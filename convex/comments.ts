@@ -0,0 +1,242 @@
+import { query, mutation, type MutationCtx } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import { ConvexError, v } from "convex/values";
+import { betterAuthComponent } from "./auth";
+import { getLiveSection } from "./lib/trash";
+import { notify } from "./notifications";
+import { getMember } from "./users";
+
+// Longest allowed comment
+const BODY_MAX = 5_000;
+
+function cleanBody(body: string) {
+  const trimmed = body.trim();
+  if (!trimmed) {
+    throw new ConvexError("Comment is empty");
+  }
+  if (trimmed.length > BODY_MAX) {
+    throw new ConvexError(`Comments must be at most ${BODY_MAX} characters`);
+  }
+  return trimmed;
+}
+
+// Keep only mentions of real members that still appear in the text
+async function cleanMentions(ctx: MutationCtx, body: string, mentions: string[]) {
+  const kept: string[] = [];
+  for (const userId of new Set(mentions)) {
+    const member = await getMember(ctx, userId);
+    if (member && body.includes(`@${member.name}`)) {
+      kept.push(userId);
+    }
+  }
+  return kept;
+}
+
+async function notifyMentions(
+  ctx: MutationCtx,
+  section: Doc<"sections">,
+  mentions: string[],
+  actorId: string
+) {
+  for (const userId of mentions) {
+    await notify(ctx, {
+      userId,
+      actorId,
+      kind: "comment_mention",
+      message: `You were mentioned in a comment on "${section.header}"`,
+      sectionId: section._id,
+    });
+  }
+}
+
+async function getOwnComment(ctx: MutationCtx, id: Id<"comments">, userId: string) {
+  const comment = await ctx.db.get(id);
+  if (comment === null) {
+    throw new ConvexError("Comment not found");
+  }
+  if (comment.authorId !== userId) {
+    throw new ConvexError("Only the author can change this comment");
+  }
+  return comment;
+}
+
+async function adjustCommentCount(ctx: MutationCtx, sectionId: Id<"sections">, delta: number) {
+  const section = await ctx.db.get(sectionId);
+  if (section) {
+    await ctx.db.patch(sectionId, {
+      commentCount: Math.max(0, (section.commentCount ?? 0) + delta),
+    });
+  }
+}
+
+// Delete every comment on a section
+export async function deleteComments(ctx: MutationCtx, sectionId: Id<"sections">) {
+  const comments = await ctx.db
+    .query("comments")
+    .withIndex("by_section", q => q.eq("sectionId", sectionId))
+    .collect();
+  for (const comment of comments) {
+    await ctx.db.delete(comment._id);
+  }
+}
+
+// Comment threads on a section, oldest first, each with its replies and the
+// authors' names
+export const forSection = query({
+  args: { sectionId: v.id("sections") },
+  handler: async (ctx, args) => {
+    const userId = await betterAuthComponent.getAuthUserId(ctx);
+    if (!userId) {
+      return [];
+    }
+
+    const comments = await ctx.db
+      .query("comments")
+      .withIndex("by_section", q => q.eq("sectionId", args.sectionId))
+      .collect();
+    const names = new Map<string, string>();
+    for (const authorId of new Set(comments.map(comment => comment.authorId))) {
+      names.set(authorId, (await getMember(ctx, authorId))?.name ?? "Former member");
+    }
+    const withAuthor = (comment: Doc<"comments">) => ({
+      ...comment,
+      authorName: names.get(comment.authorId)!,
+      mine: comment.authorId === userId,
+    });
+
+    return comments
+      .filter(comment => comment.parentId === undefined)
+      .sort((a, b) => a.createdAt - b.createdAt)
+      .map(thread => ({
+        ...withAuthor(thread),
+        replies: comments
+          .filter(comment => comment.parentId === thread._id)
+          .sort((a, b) => a.createdAt - b.createdAt)
+          .map(withAuthor),
+      }));
+  },
+});
+
+// Start a thread on a section, or reply to one with `parentId`. Mentioned
+// members and the thread's author are notified.
+export const add = mutation({
+  args: {
+    sectionId: v.id("sections"),
+    parentId: v.optional(v.id("comments")),
+    body: v.string(),
+    mentions: v.array(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await betterAuthComponent.getAuthUserId(ctx);
+    if (!userId) {
+      throw new ConvexError("Not authenticated");
+    }
+
+    const section = await getLiveSection(ctx, args.sectionId);
+    const parent = args.parentId ? await ctx.db.get(args.parentId) : null;
+    if (args.parentId && (parent === null || parent.sectionId !== args.sectionId)) {
+      throw new ConvexError("Thread not found");
+    }
+    if (parent?.parentId !== undefined) {
+      throw new ConvexError("Reply to the thread, not to a reply");
+    }
+
+    const body = cleanBody(args.body);
+    const mentions = await cleanMentions(ctx, body, args.mentions);
+    const commentId = await ctx.db.insert("comments", {
+      sectionId: args.sectionId,
+      parentId: args.parentId,
+      authorId: userId,
+      body,
+      mentions,
+      createdAt: Date.now(),
+    });
+    await adjustCommentCount(ctx, args.sectionId, 1);
+
+    // Replying reopens a resolved thread
+    if (parent?.resolvedAt !== undefined) {
+      await ctx.db.patch(parent._id, { resolvedAt: undefined, resolvedBy: undefined });
+    }
+    await notifyMentions(ctx, section, mentions, userId);
+    if (parent && !mentions.includes(parent.authorId)) {
+      await notify(ctx, {
+        userId: parent.authorId,
+        actorId: userId,
+        kind: "comment_reply",
+        message: `New reply to your comment on "${section.header}"`,
+        sectionId: section._id,
+      });
+    }
+    return commentId;
+  },
+});
+
+// Edit one of your comments. Only newly mentioned members are notified.
+export const edit = mutation({
+  args: { id: v.id("comments"), body: v.string(), mentions: v.array(v.string()) },
+  handler: async (ctx, args) => {
+    const userId = await betterAuthComponent.getAuthUserId(ctx);
+    if (!userId) {
+      throw new ConvexError("Not authenticated");
+    }
+
+    const comment = await getOwnComment(ctx, args.id, userId);
+    const body = cleanBody(args.body);
+    const mentions = await cleanMentions(ctx, body, args.mentions);
+    await ctx.db.patch(args.id, { body, mentions, editedAt: Date.now() });
+
+    const section = await getLiveSection(ctx, comment.sectionId);
+    await notifyMentions(
+      ctx,
+      section,
+      mentions.filter(mention => !comment.mentions.includes(mention)),
+      userId
+    );
+  },
+});
+
+// Delete one of your comments. Deleting a thread's first comment deletes its replies.
+export const remove = mutation({
+  args: { id: v.id("comments") },
+  handler: async (ctx, args) => {
+    const userId = await betterAuthComponent.getAuthUserId(ctx);
+    if (!userId) {
+      throw new ConvexError("Not authenticated");
+    }
+
+    const comment = await getOwnComment(ctx, args.id, userId);
+    const replies = await ctx.db
+      .query("comments")
+      .withIndex("by_parent", q => q.eq("parentId", args.id))
+      .collect();
+    for (const reply of replies) {
+      await ctx.db.delete(reply._id);
+    }
+    await ctx.db.delete(args.id);
+    await adjustCommentCount(ctx, comment.sectionId, -(replies.length + 1));
+  },
+});
+
+// Resolve or reopen a thread
+export const setResolved = mutation({
+  args: { id: v.id("comments"), resolved: v.boolean() },
+  handler: async (ctx, args) => {
+    const userId = await betterAuthComponent.getAuthUserId(ctx);
+    if (!userId) {
+      throw new ConvexError("Not authenticated");
+    }
+
+    const thread = await ctx.db.get(args.id);
+    if (thread === null) {
+      throw new ConvexError("Comment not found");
+    }
+    if (thread.parentId !== undefined) {
+      throw new ConvexError("Only threads can be resolved");
+    }
+
+    await ctx.db.patch(args.id, {
+      resolvedBy: args.resolved ? userId : undefined,
+      resolvedAt: args.resolved ? Date.now() : undefined,
+    });
+  },
+});
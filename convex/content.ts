@@ -0,0 +1,80 @@
+import { query, mutation } from "./_generated/server";
+import { ConvexError, v } from "convex/values";
+import { betterAuthComponent } from "./auth";
+import { countWords } from "./lib/budget";
+import { getLiveSection } from "./lib/trash";
+
+// Keep well below Convex's 1 MB document limit
+const MAX_CONTENT_LENGTH = 500_000;
+
+const CONTENT_CONFLICT =
+  "Someone else saved this section since you opened it; reload to see their changes";
+
+// Rich-text body of a section, or null if nothing has been written yet
+export const get = query({
+  args: { sectionId: v.id("sections") },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      return null;
+    }
+
+    return await ctx.db
+      .query("sectionContents")
+      .withIndex("by_section", q => q.eq("sectionId", args.sectionId))
+      .unique();
+  },
+});
+
+// Save a section's rich-text body and refresh its word count. `version` is the
+// version the editor last loaded or saved; if someone else has saved since, the
+// save is rejected rather than overwriting their text. Returns the new version.
+export const save = mutation({
+  args: {
+    sectionId: v.id("sections"),
+    html: v.string(),
+    version: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const userId = await betterAuthComponent.getAuthUserId(ctx);
+    if (!userId) {
+      throw new ConvexError("Not authenticated");
+    }
+
+    await getLiveSection(ctx, args.sectionId);
+    if (args.html.length > MAX_CONTENT_LENGTH) {
+      throw new ConvexError("Section content is too long");
+    }
+
+    const existing = await ctx.db
+      .query("sectionContents")
+      .withIndex("by_section", q => q.eq("sectionId", args.sectionId))
+      .unique();
+    if ((existing?.version ?? 0) !== args.version) {
+      throw new ConvexError(CONTENT_CONFLICT);
+    }
+
+    const version = args.version + 1;
+    if (existing) {
+      await ctx.db.patch(existing._id, {
+        html: args.html,
+        version,
+        updatedBy: userId,
+        updatedAt: Date.now(),
+      });
+    } else {
+      await ctx.db.insert("sectionContents", {
+        sectionId: args.sectionId,
+        html: args.html,
+        version,
+        updatedBy: userId,
+        updatedAt: Date.now(),
+      });
+    }
+
+    // The word count lives on the section so the table can flag over-limit rows
+    // without loading every body
+    await ctx.db.patch(args.sectionId, { wordCount: countWords(args.html) });
+    return version;
+  },
+});
@@ -0,0 +1,9 @@
+import { cronJobs } from "convex/server";
+import { internal } from "./_generated/api";
+
+const crons = cronJobs();
+
+// Empty sections out of the trash once their retention period is over
+crons.daily("purge section trash", { hourUTC: 3, minuteUTC: 0 }, internal.sections.purgeTrash, {});
+
+export default crons;
@@ -0,0 +1,351 @@
+import { query, mutation, type MutationCtx, type QueryCtx } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import { ConvexError, v } from "convex/values";
+import { paginationOptsValidator } from "convex/server";
+import { betterAuthComponent } from "./auth";
+import { documentKind, uploadError } from "./lib/documents";
+import { getLiveSection } from "./lib/trash";
+
+// Most tags kept per document
+const MAX_TAGS = 20;
+
+// Most documents offered by `options`
+const OPTIONS_MAX = 500;
+
+function cleanTitle(title: string) {
+  const trimmed = title.trim();
+  if (!trimmed) {
+    throw new ConvexError("Title is required");
+  }
+  return trimmed;
+}
+
+function cleanTags(tags: string[]) {
+  const unique = [...new Set(tags.map(tag => tag.trim().toLowerCase()).filter(Boolean))];
+  if (unique.length > MAX_TAGS) {
+    throw new ConvexError(`A document can have at most ${MAX_TAGS} tags`);
+  }
+  return unique.sort();
+}
+
+// Check an upload's type and size against the storage metadata, discarding
+// the file if it is rejected
+async function checkUpload(ctx: MutationCtx, storageId: Id<"_storage">) {
+  const file = await ctx.db.system.get(storageId);
+  if (file === null) {
+    throw new ConvexError("Upload not found");
+  }
+  const error = uploadError(file);
+  if (error) {
+    await ctx.storage.delete(storageId);
+    throw new ConvexError(error);
+  }
+  return { contentType: file.contentType!, size: file.size };
+}
+
+async function getDocument(ctx: MutationCtx, id: Id<"documents">) {
+  const document = await ctx.db.get(id);
+  if (document === null) {
+    throw new ConvexError("Document not found");
+  }
+  return document;
+}
+
+async function latestVersion(ctx: QueryCtx, documentId: Id<"documents">) {
+  return await ctx.db
+    .query("documentVersions")
+    .withIndex("by_document_version", q => q.eq("documentId", documentId))
+    .order("desc")
+    .first();
+}
+
+async function withUrl(ctx: QueryCtx, version: Doc<"documentVersions">) {
+  return { ...version, url: await ctx.storage.getUrl(version.storageId) };
+}
+
+async function getLink(ctx: MutationCtx, documentId: Id<"documents">, sectionId: Id<"sections">) {
+  const links = await ctx.db
+    .query("documentLinks")
+    .withIndex("by_section", q => q.eq("sectionId", sectionId))
+    .collect();
+  return links.find(link => link.documentId === documentId) ?? null;
+}
+
+// A page of documents, most recently updated first, optionally only those with
+// `tag`. Each comes with its current file and the sections it is linked to. Tags
+// are matched within the page, so a filtered page can come back short.
+export const list = query({
+  args: { tag: v.optional(v.string()), paginationOpts: paginationOptsValidator },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      return { page: [], isDone: true, continueCursor: "" };
+    }
+
+    const result = await ctx.db
+      .query("documents")
+      .withIndex("by_updated")
+      .order("desc")
+      .paginate(args.paginationOpts);
+    const tagged = args.tag
+      ? result.page.filter(document => document.tags.includes(args.tag!))
+      : result.page;
+
+    const page = await Promise.all(
+      tagged.map(async document => {
+        const current = await latestVersion(ctx, document._id);
+        const links = await ctx.db
+          .query("documentLinks")
+          .withIndex("by_document", q => q.eq("documentId", document._id))
+          .collect();
+        const sections = await Promise.all(links.map(link => ctx.db.get(link.sectionId)));
+        return {
+          ...document,
+          current: current ? await withUrl(ctx, current) : null,
+          sections: sections
+            .filter(
+              (section): section is Doc<"sections"> =>
+                section !== null && section.trashedAt === undefined
+            )
+            .sort((a, b) => a.order - b.order)
+            .map(section => ({ _id: section._id, header: section.header })),
+        };
+      })
+    );
+    return { ...result, page };
+  },
+});
+
+// Titles and tags of the most recently updated documents, for pickers and the
+// tag filter; `truncated` is set when there are more than OPTIONS_MAX
+export const options = query({
+  args: {},
+  handler: async ctx => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      return { documents: [], truncated: false };
+    }
+
+    const documents = await ctx.db
+      .query("documents")
+      .withIndex("by_updated")
+      .order("desc")
+      .take(OPTIONS_MAX + 1);
+    return {
+      documents: documents
+        .slice(0, OPTIONS_MAX)
+        .map(document => ({ _id: document._id, title: document.title, tags: document.tags })),
+      truncated: documents.length > OPTIONS_MAX,
+    };
+  },
+});
+
+// Every uploaded version of a document, newest first
+export const versions = query({
+  args: { documentId: v.id("documents") },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      return [];
+    }
+
+    const versions = await ctx.db
+      .query("documentVersions")
+      .withIndex("by_document_version", q => q.eq("documentId", args.documentId))
+      .order("desc")
+      .collect();
+    return await Promise.all(versions.map(version => withUrl(ctx, version)));
+  },
+});
+
+// Documents linked to a section, with their current file
+export const forSection = query({
+  args: { sectionId: v.id("sections") },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      return [];
+    }
+
+    const links = await ctx.db
+      .query("documentLinks")
+      .withIndex("by_section", q => q.eq("sectionId", args.sectionId))
+      .collect();
+    const documents = await Promise.all(links.map(link => ctx.db.get(link.documentId)));
+    return await Promise.all(
+      documents
+        .filter((document): document is Doc<"documents"> => document !== null)
+        .sort((a, b) => a.title.localeCompare(b.title))
+        .map(async document => {
+          const current = await latestVersion(ctx, document._id);
+          return { ...document, current: current ? await withUrl(ctx, current) : null };
+        })
+    );
+  },
+});
+
+// Short-lived URL the client uploads a document file to
+export const generateUploadUrl = mutation({
+  args: {},
+  handler: async ctx => {
+    const userId = await betterAuthComponent.getAuthUserId(ctx);
+    if (!userId) {
+      throw new ConvexError("Not authenticated");
+    }
+
+    return await ctx.storage.generateUploadUrl();
+  },
+});
+
+// Create a document from an uploaded file, as version 1
+export const create = mutation({
+  args: {
+    title: v.string(),
+    kind: documentKind,
+    tags: v.array(v.string()),
+    storageId: v.id("_storage"),
+    fileName: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const userId = await betterAuthComponent.getAuthUserId(ctx);
+    if (!userId) {
+      throw new ConvexError("Not authenticated");
+    }
+
+    const file = await checkUpload(ctx, args.storageId);
+    const documentId = await ctx.db.insert("documents", {
+      title: cleanTitle(args.title),
+      kind: args.kind,
+      tags: cleanTags(args.tags),
+      currentVersion: 1,
+      createdBy: userId,
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+    });
+    await ctx.db.insert("documentVersions", {
+      documentId,
+      version: 1,
+      storageId: args.storageId,
+      fileName: args.fileName,
+      ...file,
+      uploadedBy: userId,
+      createdAt: Date.now(),
+    });
+    return documentId;
+  },
+});
+
+// Upload a new version of a document. Earlier versions stay downloadable.
+export const addVersion = mutation({
+  args: {
+    documentId: v.id("documents"),
+    storageId: v.id("_storage"),
+    fileName: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const userId = await betterAuthComponent.getAuthUserId(ctx);
+    if (!userId) {
+      throw new ConvexError("Not authenticated");
+    }
+
+    const document = await getDocument(ctx, args.documentId);
+    const file = await checkUpload(ctx, args.storageId);
+    const version = document.currentVersion + 1;
+    await ctx.db.insert("documentVersions", {
+      ...args,
+      version,
+      ...file,
+      uploadedBy: userId,
+      createdAt: Date.now(),
+    });
+    await ctx.db.patch(args.documentId, { currentVersion: version, updatedAt: Date.now() });
+    return version;
+  },
+});
+
+// Edit a document's title, kind and tags
+export const update = mutation({
+  args: {
+    id: v.id("documents"),
+    title: v.string(),
+    kind: documentKind,
+    tags: v.array(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await betterAuthComponent.getAuthUserId(ctx);
+    if (!userId) {
+      throw new ConvexError("Not authenticated");
+    }
+
+    await getDocument(ctx, args.id);
+    await ctx.db.patch(args.id, {
+      title: cleanTitle(args.title),
+      kind: args.kind,
+      tags: cleanTags(args.tags),
+      updatedAt: Date.now(),
+    });
+  },
+});
+
+// Delete a document with every stored version and its section links
+export const remove = mutation({
+  args: { id: v.id("documents") },
+  handler: async (ctx, args) => {
+    const userId = await betterAuthComponent.getAuthUserId(ctx);
+    if (!userId) {
+      throw new ConvexError("Not authenticated");
+    }
+
+    const versions = await ctx.db
+      .query("documentVersions")
+      .withIndex("by_document_version", q => q.eq("documentId", args.id))
+      .collect();
+    for (const version of versions) {
+      await ctx.storage.delete(version.storageId);
+      await ctx.db.delete(version._id);
+    }
+    const links = await ctx.db
+      .query("documentLinks")
+      .withIndex("by_document", q => q.eq("documentId", args.id))
+      .collect();
+    for (const link of links) {
+      await ctx.db.delete(link._id);
+    }
+    await ctx.db.delete(args.id);
+  },
+});
+
+// Link a document to a section. Linking twice is a no-op.
+export const link = mutation({
+  args: { documentId: v.id("documents"), sectionId: v.id("sections") },
+  handler: async (ctx, args) => {
+    const userId = await betterAuthComponent.getAuthUserId(ctx);
+    if (!userId) {
+      throw new ConvexError("Not authenticated");
+    }
+
+    await getDocument(ctx, args.documentId);
+    await getLiveSection(ctx, args.sectionId);
+    if (await getLink(ctx, args.documentId, args.sectionId)) {
+      return;
+    }
+
+    await ctx.db.insert("documentLinks", { ...args, createdBy: userId, createdAt: Date.now() });
+  },
+});
+
+// Remove a document's link to a section
+export const unlink = mutation({
+  args: { documentId: v.id("documents"), sectionId: v.id("sections") },
+  handler: async (ctx, args) => {
+    const userId = await betterAuthComponent.getAuthUserId(ctx);
+    if (!userId) {
+      throw new ConvexError("Not authenticated");
+    }
+
+    const existing = await getLink(ctx, args.documentId, args.sectionId);
+    if (existing) {
+      await ctx.db.delete(existing._id);
+    }
+  },
+});
@@ -0,0 +1,50 @@
+import { query, mutation, type QueryCtx } from "./_generated/server";
+import { ConvexError, v } from "convex/values";
+import { betterAuthComponent } from "./auth";
+import { getLiveSection } from "./lib/trash";
+
+// Ids of the sections the current user starred
+export async function favoriteSectionIds(ctx: QueryCtx) {
+  const userId = await betterAuthComponent.getAuthUserId(ctx);
+  if (!userId) {
+    return [];
+  }
+
+  const favorites = await ctx.db
+    .query("favorites")
+    .withIndex("by_user_section", q => q.eq("userId", userId))
+    .collect();
+  return favorites.map(favorite => favorite.sectionId);
+}
+
+// The current user's favorite section ids
+export const list = query({
+  args: {},
+  handler: async ctx => {
+    return await favoriteSectionIds(ctx);
+  },
+});
+
+// Star or unstar a section for the current user. Returns whether it is now a favorite.
+export const toggle = mutation({
+  args: { sectionId: v.id("sections") },
+  handler: async (ctx, args) => {
+    const userId = await betterAuthComponent.getAuthUserId(ctx);
+    if (!userId) {
+      throw new ConvexError("Not authenticated");
+    }
+
+    const existing = await ctx.db
+      .query("favorites")
+      .withIndex("by_user_section", q => q.eq("userId", userId).eq("sectionId", args.sectionId))
+      .unique();
+    if (existing) {
+      await ctx.db.delete(existing._id);
+      return false;
+    }
+
+    await getLiveSection(ctx, args.sectionId);
+    await ctx.db.insert("favorites", { userId, sectionId: args.sectionId, createdAt: Date.now() });
+    return true;
+  },
+});
@@ -0,0 +1,21 @@
+// Section Target and Limit are page budgets. Pages are estimated from the word
+// count at roughly 500 words per single-spaced page.
+export const WORDS_PER_PAGE = 500;
+
+// Upper bound for Target and Limit values
+export const METRIC_MAX = 10_000;
+
+// Count words in the editor's HTML, ignoring markup and entities
+export function countWords(html: string) {
+  const text = html.replace(/<[^>]*>/g, " ").replace(/&[#a-z0-9]+;/gi, "");
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+export function pagesFor(wordCount: number) {
+  return wordCount / WORDS_PER_PAGE;
+}
+
+// A limit of 0 means the section has no page limit
+export function isOverLimit(section: { wordCount?: number; limit: number }) {
+  return section.limit > 0 && pagesFor(section.wordCount ?? 0) > section.limit;
+}
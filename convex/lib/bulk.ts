@@ -0,0 +1,30 @@
+import type { Doc } from "../_generated/dataModel";
+import type { SectionStatus } from "./workflow";
+
+// Most rows one import can commit. The whole import is one transaction, so the
+// preview holds back files with more valid rows than this.
+export const IMPORT_MAX = 500;
+
+// Values a bulk change wrote to a section; fields it left alone are unset, and a
+// null reviewer means the reviewer was cleared
+export interface BulkValues {
+  status?: SectionStatus;
+  reviewerId?: string | null;
+  type?: string;
+  target?: number;
+  limit?: number;
+}
+
+// Whether a section still holds every value a bulk change wrote to it
+export function holdsValues(
+  section: Pick<Doc<"sections">, "status" | "reviewerId" | "type" | "target" | "limit">,
+  after: BulkValues
+) {
+  return (
+    (after.status === undefined || section.status === after.status) &&
+    (after.reviewerId === undefined || section.reviewerId === (after.reviewerId ?? undefined)) &&
+    (after.type === undefined || section.type === after.type) &&
+    (after.target === undefined || section.target === after.target) &&
+    (after.limit === undefined || section.limit === after.limit)
+  );
+}
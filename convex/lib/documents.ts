@@ -0,0 +1,50 @@
+import { v } from "convex/values";
+
+// What a focus document is to the bid
+export const DOCUMENT_KINDS = ["RFP", "Amendment", "Reference"] as const;
+
+export type DocumentKind = (typeof DOCUMENT_KINDS)[number];
+
+export const documentKind = v.union(
+  v.literal("RFP"),
+  v.literal("Amendment"),
+  v.literal("Reference")
+);
+
+// Largest accepted upload
+export const MAX_DOCUMENT_BYTES = 50 * 1024 * 1024;
+
+// Accepted content types, with the extensions offered in the file picker
+export const DOCUMENT_TYPES: Record<string, string> = {
+  "application/pdf": ".pdf",
+  "application/msword": ".doc",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document": ".docx",
+  "application/vnd.ms-excel": ".xls",
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet": ".xlsx",
+  "application/vnd.ms-powerpoint": ".ppt",
+  "application/vnd.openxmlformats-officedocument.presentationml.presentation": ".pptx",
+  "text/plain": ".txt",
+  "text/csv": ".csv",
+  "image/png": ".png",
+  "image/jpeg": ".jpg,.jpeg",
+  "image/gif": ".gif",
+  "image/webp": ".webp",
+};
+
+export const DOCUMENT_ACCEPT = Object.values(DOCUMENT_TYPES).join(",");
+
+// Why an upload is rejected, or null if it is acceptable
+export function uploadError(file: { contentType?: string; size: number }) {
+  if (!file.contentType || !(file.contentType in DOCUMENT_TYPES)) {
+    return "Upload a PDF, Office document, text file or image";
+  }
+  if (file.size > MAX_DOCUMENT_BYTES) {
+    return `Files must be ${MAX_DOCUMENT_BYTES / 1024 / 1024} MB or smaller`;
+  }
+  return null;
+}
+
+// Content types the browser can show inline
+export function isPreviewable(contentType: string | undefined) {
+  return contentType === "application/pdf" || !!contentType?.startsWith("image/");
+}
@@ -0,0 +1,46 @@
+import { v, type Infer } from "convex/values";
+import { sectionStatus } from "./workflow";
+
+// Columns the outline table can be sorted by on the server. "order" is the
+// manual drag-and-drop order and the default.
+export const SORT_FIELDS = ["order", "header", "type", "status", "target", "limit"] as const;
+
+export type SortField = (typeof SORT_FIELDS)[number];
+
+export const sectionSort = v.object({
+  field: v.union(
+    v.literal("order"),
+    v.literal("header"),
+    v.literal("type"),
+    v.literal("status"),
+    v.literal("target"),
+    v.literal("limit")
+  ),
+  desc: v.boolean(),
+});
+
+export type SectionSort = Infer<typeof sectionSort>;
+
+export const DEFAULT_SORT: SectionSort = { field: "order", desc: false };
+
+// Filters combine with AND; values inside one list combine with OR
+export const sectionFilters = v.object({
+  search: v.optional(v.string()),
+  types: v.optional(v.array(v.string())),
+  statuses: v.optional(v.array(sectionStatus)),
+  reviewerIds: v.optional(v.array(v.string())),
+  favorites: v.optional(v.boolean()), // Only the current user's favorites
+});
+
+export type SectionFilters = Infer<typeof sectionFilters>;
+
+// Everything a saved table view restores
+export const tableLayout = v.object({
+  columnVisibility: v.record(v.string(), v.boolean()),
+  columnOrder: v.array(v.string()),
+  sort: sectionSort,
+  filters: sectionFilters,
+  pageSize: v.number(),
+});
+
+export type TableLayout = Infer<typeof tableLayout>;
@@ -0,0 +1,47 @@
+// Sections are ordered by a floating-point key. Moving a row only rewrites that
+// row's key (the midpoint of its new neighbours), so concurrent moves of
+// different rows never overwrite each other.
+
+export const ORDER_STEP = 1024;
+
+// Smallest gap we bisect before the rows around it have to be renumbered
+export const MIN_ORDER_GAP = 1e-6;
+
+// Key for a row placed between `prev` (row above) and `next` (row below)
+export function orderBetween(prev: number | undefined, next: number | undefined) {
+  if (prev === undefined && next === undefined) {
+    return ORDER_STEP;
+  }
+  if (prev === undefined) {
+    return next! - ORDER_STEP;
+  }
+  if (next === undefined) {
+    return prev + ORDER_STEP;
+  }
+  return (prev + next) / 2;
+}
+
+// Whether two neighbouring keys are too close together to bisect safely
+export function needsRebalance(prev: number | undefined, next: number | undefined) {
+  return prev !== undefined && next !== undefined && next - prev < MIN_ORDER_GAP;
+}
+
+// Smallest spacing a rebalance leaves between keys, room for about 20 more
+// bisections before the rows have to be renumbered again
+export const REBALANCE_GAP = 1;
+
+// `count` evenly spaced keys strictly between `low` and `high`, either of which
+// may be open, or null when the gap is too narrow to space them REBALANCE_GAP apart
+export function spreadKeys(low: number | undefined, high: number | undefined, count: number) {
+  if (low !== undefined && high !== undefined) {
+    const step = (high - low) / (count + 1);
+    return step < REBALANCE_GAP
+      ? null
+      : Array.from({ length: count }, (_, index) => low + step * (index + 1));
+  }
+  if (high !== undefined) {
+    return Array.from({ length: count }, (_, index) => high - ORDER_STEP * (count - index));
+  }
+  const start = low ?? 0;
+  return Array.from({ length: count }, (_, index) => start + ORDER_STEP * (index + 1));
+}
@@ -0,0 +1,78 @@
+import type { SectionStatus } from "./workflow";
+
+// Each section has up to three due dates, stored as ISO dates (YYYY-MM-DD) and
+// expected in this order: the draft is due before review, review before final.
+export const MILESTONES = ["draftDue", "reviewDue", "finalDue"] as const;
+
+export type Milestone = (typeof MILESTONES)[number];
+
+export type Schedule = Partial<Record<Milestone, string>>;
+
+export const milestoneLabels: Record<Milestone, string> = {
+  draftDue: "Draft",
+  reviewDue: "Review",
+  finalDue: "Final",
+};
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+export function isIsoDate(value: string) {
+  return ISO_DATE.test(value) && !Number.isNaN(Date.parse(value));
+}
+
+// Why a schedule is invalid, or null if its dates are valid and in order
+export function scheduleError(schedule: Schedule): string | null {
+  let previous: Milestone | undefined;
+  for (const milestone of MILESTONES) {
+    const date = schedule[milestone];
+    if (date === undefined) {
+      continue;
+    }
+    if (!isIsoDate(date)) {
+      return `${milestoneLabels[milestone]} due date must be a valid date`;
+    }
+    if (previous && date < schedule[previous]!) {
+      return `${milestoneLabels[milestone]} due date must not be before the ${milestoneLabels[previous].toLowerCase()} due date`;
+    }
+    previous = milestone;
+  }
+  return null;
+}
+
+// The milestones a section still has to meet at its status: a draft is met once
+// the section goes to review, review once it is done
+function pendingMilestones(status: SectionStatus): readonly Milestone[] {
+  if (status === "Done") return [];
+  if (status === "In Review") return ["reviewDue", "finalDue"];
+  return MILESTONES;
+}
+
+// The first pending milestone whose due date is before `today` (YYYY-MM-DD), if any
+export function overdueMilestone(
+  section: Schedule & { status: SectionStatus },
+  today: string
+): Milestone | undefined {
+  return pendingMilestones(section.status).find(milestone => {
+    const date = section[milestone];
+    return date !== undefined && date < today;
+  });
+}
+
+// Today's date in the local time zone as YYYY-MM-DD, to compare with due dates
+export function todayIso(now = new Date()) {
+  return new Date(Date.UTC(now.getFullYear(), now.getMonth(), now.getDate()))
+    .toISOString()
+    .slice(0, 10);
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Move an ISO date by a whole number of days
+export function shiftDate(date: string, days: number) {
+  return new Date(Date.parse(date) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+// Whole days from ISO date `from` to ISO date `to`
+export function daysBetween(from: string, to: string) {
+  return Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS);
+}
@@ -0,0 +1,22 @@
+import { v } from "convex/values";
+
+// Security clearance levels, lowest first
+export const CLEARANCE_LEVELS = ["None", "Public Trust", "Secret", "Top Secret", "TS/SCI"] as const;
+
+export type ClearanceLevel = (typeof CLEARANCE_LEVELS)[number];
+
+export const clearanceLevel = v.union(
+  v.literal("None"),
+  v.literal("Public Trust"),
+  v.literal("Secret"),
+  v.literal("Top Secret"),
+  v.literal("TS/SCI")
+);
+
+// Assignments record the share of a person's time (in percent) a section needs.
+// Anyone whose assignments add up to more than a full-time load is over-committed.
+export const FULL_TIME_ALLOCATION = 100;
+
+export function isOverCommitted(totalAllocation: number) {
+  return totalAllocation > FULL_TIME_ALLOCATION;
+}
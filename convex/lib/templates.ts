@@ -0,0 +1,59 @@
+// Most checklist items a template or section can carry
+export const MAX_CHECKLIST_ITEMS = 50;
+
+// Templates offered when the library is empty, one per common section type
+export const STARTER_TEMPLATES = [
+  {
+    name: "Cover Page",
+    type: "Cover Page",
+    target: 1,
+    limit: 1,
+    html: "<h2>Proposal title</h2><p>Solicitation number, offeror name, CAGE code and submission date.</p>",
+    checklist: [
+      "Solicitation number matches the RFP",
+      "Point of contact and signature block included",
+      "Proprietary data legend applied",
+    ],
+  },
+  {
+    name: "Executive Summary",
+    type: "Executive Summary",
+    target: 2,
+    limit: 3,
+    html: "<h2>Understanding of the mission</h2><p></p><h2>Our solution</h2><p></p><h2>Why us</h2><p></p>",
+    checklist: [
+      "Restates the customer's hot buttons",
+      "Every win theme appears at least once",
+      "Discriminators are backed by proof points",
+    ],
+  },
+  {
+    name: "Technical Approach",
+    type: "Technical Approach",
+    target: 10,
+    limit: 15,
+    html: "<h2>Approach</h2><p></p><h2>Methodology</h2><p></p><h2>Risks and mitigations</h2><p></p>",
+    checklist: [
+      "Answers every SOW requirement in order",
+      "Compliance matrix references updated",
+      "Graphics have action captions",
+      "Risks have owners and mitigations",
+    ],
+  },
+  {
+    name: "Capabilities",
+    type: "Capabilities",
+    target: 3,
+    limit: 5,
+    html: "<h2>Relevant capabilities</h2><p></p><h2>Past performance highlights</h2><p></p>",
+    checklist: ["Cites past performance records", "Certifications and vehicles listed"],
+  },
+  {
+    name: "Narrative",
+    type: "Narrative",
+    target: 2,
+    limit: 0,
+    html: "",
+    checklist: [],
+  },
+];
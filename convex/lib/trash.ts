@@ -0,0 +1,24 @@
+import { ConvexError } from "convex/values";
+import type { Id } from "../_generated/dataModel";
+import type { QueryCtx } from "../_generated/server";
+
+// How long a deleted section stays in the trash before it is purged for good
+export const TRASH_RETENTION_DAYS = 30;
+
+export const TRASH_RETENTION_MS = TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+
+// When a section trashed at `trashedAt` will be purged
+export function purgeDate(trashedAt: number) {
+  return new Date(trashedAt + TRASH_RETENTION_MS);
+}
+
+// A section that is still in the outline. Every mutation on a single section
+// loads it through this, so a stale client or an undo replay cannot change one
+// that is in the trash.
+export async function getLiveSection(ctx: QueryCtx, id: Id<"sections">) {
+  const section = await ctx.db.get(id);
+  if (section === null || section.trashedAt !== undefined) {
+    throw new ConvexError("Section not found");
+  }
+  return section;
+}
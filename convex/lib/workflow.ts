@@ -0,0 +1,61 @@
+import { v } from "convex/values";
+
+// Section lifecycle: Not Started → In Progress → In Review → Done, with paths back
+// for reviewer feedback and for reopening finished sections.
+export const SECTION_STATUSES = ["Not Started", "In Progress", "In Review", "Done"] as const;
+
+export type SectionStatus = (typeof SECTION_STATUSES)[number];
+
+export const sectionStatus = v.union(
+  v.literal("Not Started"),
+  v.literal("In Progress"),
+  v.literal("In Review"),
+  v.literal("Done")
+);
+
+export const STATUS_TRANSITIONS: Record<SectionStatus, readonly SectionStatus[]> = {
+  "Not Started": ["In Progress"],
+  "In Progress": ["In Review", "Not Started"],
+  "In Review": ["Done", "In Progress"],
+  Done: ["In Progress"],
+};
+
+// Why `userId` may not move a section from `from` to `to`, or null if the move is allowed
+export function transitionError(
+  section: { status: SectionStatus; reviewerId?: string },
+  to: SectionStatus,
+  userId: string
+): string | null {
+  if (!STATUS_TRANSITIONS[section.status].includes(to)) {
+    return `Cannot move a section from ${section.status} to ${to}`;
+  }
+  if (to === "In Review" && !section.reviewerId) {
+    return "Assign a reviewer before sending a section for review";
+  }
+  if (section.status === "In Review" && section.reviewerId !== userId) {
+    return "Only the assigned reviewer can approve or return a section in review";
+  }
+  return null;
+}
+
+// Why a new section may not start out at `status`, e.g. when imported, or null if
+// it may. Sections in review or done need a reviewer, as when sent for review.
+export function initialStatusError(status: SectionStatus, reviewerId?: string): string | null {
+  if ((status === "In Review" || status === "Done") && !reviewerId) {
+    return `A section that is ${status} needs a reviewer`;
+  }
+  return null;
+}
+
+// Why a section's reviewer may not change to `reviewerId`, or null if it may. A
+// section in review keeps its reviewer, since only they can approve or return it;
+// it has to go back to In Progress first.
+export function reviewerChangeError(
+  section: { status: SectionStatus; reviewerId?: string },
+  reviewerId: string | undefined
+): string | null {
+  if (section.status === "In Review" && reviewerId !== section.reviewerId) {
+    return "Return the section to In Progress before changing its reviewer";
+  }
+  return null;
+}
@@ -0,0 +1,88 @@
+import { query, mutation, type MutationCtx } from "./_generated/server";
+import type { Id } from "./_generated/dataModel";
+import { ConvexError, v } from "convex/values";
+import { betterAuthComponent } from "./auth";
+
+// Queue a notification for a user. Nothing is sent when users act on their own work.
+export async function notify(
+  ctx: MutationCtx,
+  notification: {
+    userId: string;
+    actorId?: string;
+    kind: string;
+    message: string;
+    sectionId?: Id<"sections">;
+  }
+) {
+  if (notification.userId === notification.actorId) {
+    return null;
+  }
+
+  return await ctx.db.insert("notifications", {
+    ...notification,
+    read: false,
+    createdAt: Date.now(),
+  });
+}
+
+// Latest notifications for the current user, unread first
+export const list = query({
+  args: {},
+  handler: async ctx => {
+    const userId = await betterAuthComponent.getAuthUserId(ctx);
+    if (!userId) {
+      return [];
+    }
+
+    const unread = await ctx.db
+      .query("notifications")
+      .withIndex("by_user_read", q => q.eq("userId", userId).eq("read", false))
+      .order("desc")
+      .take(50);
+    const read = await ctx.db
+      .query("notifications")
+      .withIndex("by_user_read", q => q.eq("userId", userId).eq("read", true))
+      .order("desc")
+      .take(Math.max(0, 20 - unread.length));
+
+    return [...unread, ...read];
+  },
+});
+
+// Mark one notification as read
+export const markRead = mutation({
+  args: { id: v.id("notifications") },
+  handler: async (ctx, args) => {
+    const userId = await betterAuthComponent.getAuthUserId(ctx);
+    if (!userId) {
+      throw new ConvexError("Not authenticated");
+    }
+
+    const notification = await ctx.db.get(args.id);
+    if (notification === null || notification.userId !== userId) {
+      throw new ConvexError("Notification not found");
+    }
+
+    await ctx.db.patch(args.id, { read: true });
+  },
+});
+
+// Mark all of the current user's notifications as read
+export const markAllRead = mutation({
+  args: {},
+  handler: async ctx => {
+    const userId = await betterAuthComponent.getAuthUserId(ctx);
+    if (!userId) {
+      throw new ConvexError("Not authenticated");
+    }
+
+    const unread = await ctx.db
+      .query("notifications")
+      .withIndex("by_user_read", q => q.eq("userId", userId).eq("read", false))
+      .collect();
+
+    for (const notification of unread) {
+      await ctx.db.patch(notification._id, { read: true });
+    }
+  },
+});
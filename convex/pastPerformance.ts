@@ -0,0 +1,243 @@
+import { query, mutation, type MutationCtx, type QueryCtx } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import { ConvexError, v, type Infer } from "convex/values";
+import { betterAuthComponent } from "./auth";
+import { getLiveSection } from "./lib/trash";
+import { pastPerformanceFields } from "./schema";
+
+const pastPerformance = v.object(pastPerformanceFields);
+type PastPerformanceFields = Infer<typeof pastPerformance>;
+
+// Most points of contact kept per record
+const MAX_CONTACTS = 10;
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+// Trim the record's text fields and reject incomplete or inconsistent records
+function cleanRecord(fields: PastPerformanceFields): PastPerformanceFields {
+  const contractName = fields.contractName.trim();
+  const customer = fields.customer.trim();
+  if (!contractName) {
+    throw new ConvexError("Contract name is required");
+  }
+  if (!customer) {
+    throw new ConvexError("Customer is required");
+  }
+  if (!Number.isFinite(fields.value) || fields.value < 0) {
+    throw new ConvexError("Contract value must be zero or more");
+  }
+  for (const date of [fields.periodStart, fields.periodEnd]) {
+    if (date !== undefined && (!ISO_DATE.test(date) || Number.isNaN(Date.parse(date)))) {
+      throw new ConvexError("Period dates must be valid dates");
+    }
+  }
+  if (fields.periodEnd !== undefined && fields.periodEnd < fields.periodStart) {
+    throw new ConvexError("Period end must not be before its start");
+  }
+  if (fields.contacts.length > MAX_CONTACTS) {
+    throw new ConvexError(`A record can have at most ${MAX_CONTACTS} points of contact`);
+  }
+
+  const optional = (value: string | undefined) => value?.trim() || undefined;
+  return {
+    ...fields,
+    contractName,
+    customer,
+    contractNumber: optional(fields.contractNumber),
+    relevance: fields.relevance.trim(),
+    contacts: fields.contacts.map(contact => {
+      const name = contact.name.trim();
+      if (!name) {
+        throw new ConvexError("Every point of contact needs a name");
+      }
+      return {
+        name,
+        title: optional(contact.title),
+        email: optional(contact.email),
+        phone: optional(contact.phone),
+      };
+    }),
+  };
+}
+
+function searchTextFor(record: PastPerformanceFields) {
+  return [record.contractName, record.customer, record.contractNumber].filter(Boolean).join(" ");
+}
+
+// The outline sections citing a record, in outline order, leaving out the trash
+async function citingSections(ctx: QueryCtx, recordId: Id<"pastPerformances">) {
+  const links = await ctx.db
+    .query("pastPerformanceLinks")
+    .withIndex("by_record", q => q.eq("recordId", recordId))
+    .collect();
+  const sections = await Promise.all(links.map(link => ctx.db.get(link.sectionId)));
+  return sections
+    .filter(
+      (section): section is Doc<"sections"> => section !== null && section.trashedAt === undefined
+    )
+    .sort((a, b) => a.order - b.order)
+    .map(section => ({ _id: section._id, header: section.header }));
+}
+
+async function getLink(
+  ctx: MutationCtx,
+  recordId: Id<"pastPerformances">,
+  sectionId: Id<"sections">
+) {
+  const links = await ctx.db
+    .query("pastPerformanceLinks")
+    .withIndex("by_section", q => q.eq("sectionId", sectionId))
+    .collect();
+  return links.find(link => link.recordId === recordId) ?? null;
+}
+
+// Past-performance records by contract name, or by relevance when searching,
+// each with the sections that cite it
+export const list = query({
+  args: { search: v.optional(v.string()) },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      return [];
+    }
+
+    const search = args.search?.trim();
+    const records = search
+      ? await ctx.db
+          .query("pastPerformances")
+          .withSearchIndex("search_text", q => q.search("searchText", search))
+          .take(100)
+      : await ctx.db.query("pastPerformances").withIndex("by_contract_name").collect();
+
+    return await Promise.all(
+      records.map(async record => ({
+        ...record,
+        sections: await citingSections(ctx, record._id),
+      }))
+    );
+  },
+});
+
+// Records cited by a section
+export const forSection = query({
+  args: { sectionId: v.id("sections") },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      return [];
+    }
+
+    const links = await ctx.db
+      .query("pastPerformanceLinks")
+      .withIndex("by_section", q => q.eq("sectionId", args.sectionId))
+      .collect();
+    const records = await Promise.all(links.map(link => ctx.db.get(link.recordId)));
+    return records
+      .filter((record): record is Doc<"pastPerformances"> => record !== null)
+      .sort((a, b) => a.contractName.localeCompare(b.contractName));
+  },
+});
+
+// Add a past-performance record
+export const create = mutation({
+  args: pastPerformanceFields,
+  handler: async (ctx, args) => {
+    const userId = await betterAuthComponent.getAuthUserId(ctx);
+    if (!userId) {
+      throw new ConvexError("Not authenticated");
+    }
+
+    const record = cleanRecord(args);
+    return await ctx.db.insert("pastPerformances", {
+      ...record,
+      searchText: searchTextFor(record),
+      createdBy: userId,
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+    });
+  },
+});
+
+// Replace a record's fields
+export const update = mutation({
+  args: { id: v.id("pastPerformances"), ...pastPerformanceFields },
+  handler: async (ctx, args) => {
+    const userId = await betterAuthComponent.getAuthUserId(ctx);
+    if (!userId) {
+      throw new ConvexError("Not authenticated");
+    }
+
+    const { id, ...fields } = args;
+    if ((await ctx.db.get(id)) === null) {
+      throw new ConvexError("Record not found");
+    }
+
+    const record = cleanRecord(fields);
+    await ctx.db.patch(id, {
+      ...record,
+      searchText: searchTextFor(record),
+      updatedAt: Date.now(),
+    });
+  },
+});
+
+// Delete a record and its citations
+export const remove = mutation({
+  args: { id: v.id("pastPerformances") },
+  handler: async (ctx, args) => {
+    const userId = await betterAuthComponent.getAuthUserId(ctx);
+    if (!userId) {
+      throw new ConvexError("Not authenticated");
+    }
+
+    const links = await ctx.db
+      .query("pastPerformanceLinks")
+      .withIndex("by_record", q => q.eq("recordId", args.id))
+      .collect();
+    for (const link of links) {
+      await ctx.db.delete(link._id);
+    }
+    await ctx.db.delete(args.id);
+  },
+});
+
+// Cite a record from a section. Linking twice is a no-op.
+export const link = mutation({
+  args: { recordId: v.id("pastPerformances"), sectionId: v.id("sections") },
+  handler: async (ctx, args) => {
+    const userId = await betterAuthComponent.getAuthUserId(ctx);
+    if (!userId) {
+      throw new ConvexError("Not authenticated");
+    }
+
+    if ((await ctx.db.get(args.recordId)) === null) {
+      throw new ConvexError("Record not found");
+    }
+    await getLiveSection(ctx, args.sectionId);
+    if (await getLink(ctx, args.recordId, args.sectionId)) {
+      return;
+    }
+
+    await ctx.db.insert("pastPerformanceLinks", {
+      ...args,
+      createdBy: userId,
+      createdAt: Date.now(),
+    });
+  },
+});
+
+// Remove a section's citation of a record
+export const unlink = mutation({
+  args: { recordId: v.id("pastPerformances"), sectionId: v.id("sections") },
+  handler: async (ctx, args) => {
+    const userId = await betterAuthComponent.getAuthUserId(ctx);
+    if (!userId) {
+      throw new ConvexError("Not authenticated");
+    }
+
+    const existing = await getLink(ctx, args.recordId, args.sectionId);
+    if (existing) {
+      await ctx.db.delete(existing._id);
+    }
+  },
+});
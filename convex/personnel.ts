@@ -0,0 +1,268 @@
+import { query, mutation, type MutationCtx } from "./_generated/server";
+import type { Id } from "./_generated/dataModel";
+import { ConvexError, v, type Infer } from "convex/values";
+import { betterAuthComponent } from "./auth";
+import { uploadError } from "./lib/documents";
+import { FULL_TIME_ALLOCATION, isOverCommitted } from "./lib/staffing";
+import { getLiveSection } from "./lib/trash";
+import { personnelFields } from "./schema";
+
+const profile = v.object(personnelFields);
+type PersonnelFields = Infer<typeof profile>;
+
+// Largest accepted resume upload
+const MAX_RESUME_BYTES = 10 * 1024 * 1024;
+
+// Trim a profile's text fields and reject incomplete profiles
+function cleanProfile(fields: PersonnelFields): PersonnelFields {
+  const name = fields.name.trim();
+  const role = fields.role.trim();
+  if (!name) {
+    throw new ConvexError("Name is required");
+  }
+  if (!role) {
+    throw new ConvexError("Proposed role is required");
+  }
+
+  return {
+    ...fields,
+    name,
+    role,
+    email: fields.email?.trim() || undefined,
+    laborCategory: fields.laborCategory.trim(),
+    certifications: [...new Set(fields.certifications.map(item => item.trim()).filter(Boolean))],
+  };
+}
+
+async function getPerson(ctx: MutationCtx, id: Id<"personnel">) {
+  const person = await ctx.db.get(id);
+  if (person === null) {
+    throw new ConvexError("Person not found");
+  }
+  return person;
+}
+
+async function getAssignment(
+  ctx: MutationCtx,
+  personId: Id<"personnel">,
+  sectionId: Id<"sections">
+) {
+  const assignments = await ctx.db
+    .query("personnelAssignments")
+    .withIndex("by_section", q => q.eq("sectionId", sectionId))
+    .collect();
+  return assignments.find(assignment => assignment.personId === personId) ?? null;
+}
+
+// Personnel directory with resume links, section assignments and whether each
+// person's total allocation exceeds a full-time load
+export const list = query({
+  args: {},
+  handler: async ctx => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      return [];
+    }
+
+    const people = await ctx.db.query("personnel").withIndex("by_name").collect();
+    return await Promise.all(
+      people.map(async person => {
+        const assignments = await ctx.db
+          .query("personnelAssignments")
+          .withIndex("by_person", q => q.eq("personId", person._id))
+          .collect();
+        const loaded = await Promise.all(
+          assignments.map(async assignment => ({
+            assignment,
+            section: await ctx.db.get(assignment.sectionId),
+          }))
+        );
+        // Sections in the trash do not count against anyone's load
+        const active = loaded
+          .filter(({ section }) => section?.trashedAt === undefined)
+          .map(({ assignment, section }) => ({
+            sectionId: assignment.sectionId,
+            header: section?.header ?? "Deleted section",
+            allocation: assignment.allocation,
+          }));
+        const totalAllocation = active.reduce((sum, item) => sum + item.allocation, 0);
+
+        return {
+          ...person,
+          resumeUrl: person.resumeId ? await ctx.storage.getUrl(person.resumeId) : null,
+          assignments: active,
+          totalAllocation,
+          overCommitted: isOverCommitted(totalAllocation),
+        };
+      })
+    );
+  },
+});
+
+// Add a person to the directory
+export const create = mutation({
+  args: personnelFields,
+  handler: async (ctx, args) => {
+    const userId = await betterAuthComponent.getAuthUserId(ctx);
+    if (!userId) {
+      throw new ConvexError("Not authenticated");
+    }
+
+    return await ctx.db.insert("personnel", {
+      ...cleanProfile(args),
+      createdBy: userId,
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+    });
+  },
+});
+
+// Replace a person's profile fields
+export const update = mutation({
+  args: { id: v.id("personnel"), ...personnelFields },
+  handler: async (ctx, args) => {
+    const userId = await betterAuthComponent.getAuthUserId(ctx);
+    if (!userId) {
+      throw new ConvexError("Not authenticated");
+    }
+
+    const { id, ...fields } = args;
+    await getPerson(ctx, id);
+    await ctx.db.patch(id, { ...cleanProfile(fields), updatedAt: Date.now() });
+  },
+});
+
+// Remove a person with their assignments and resume
+export const remove = mutation({
+  args: { id: v.id("personnel") },
+  handler: async (ctx, args) => {
+    const userId = await betterAuthComponent.getAuthUserId(ctx);
+    if (!userId) {
+      throw new ConvexError("Not authenticated");
+    }
+
+    const person = await getPerson(ctx, args.id);
+    const assignments = await ctx.db
+      .query("personnelAssignments")
+      .withIndex("by_person", q => q.eq("personId", args.id))
+      .collect();
+    for (const assignment of assignments) {
+      await ctx.db.delete(assignment._id);
+    }
+    if (person.resumeId) {
+      await ctx.storage.delete(person.resumeId);
+    }
+    await ctx.db.delete(args.id);
+  },
+});
+
+// Short-lived URL the client uploads a resume file to
+export const generateResumeUploadUrl = mutation({
+  args: {},
+  handler: async ctx => {
+    const userId = await betterAuthComponent.getAuthUserId(ctx);
+    if (!userId) {
+      throw new ConvexError("Not authenticated");
+    }
+
+    return await ctx.storage.generateUploadUrl();
+  },
+});
+
+// Attach an uploaded resume to a person, replacing any previous one
+export const setResume = mutation({
+  args: { id: v.id("personnel"), storageId: v.id("_storage"), fileName: v.string() },
+  handler: async (ctx, args) => {
+    const userId = await betterAuthComponent.getAuthUserId(ctx);
+    if (!userId) {
+      throw new ConvexError("Not authenticated");
+    }
+
+    const person = await getPerson(ctx, args.id);
+    const file = await ctx.db.system.get(args.storageId);
+    if (file === null) {
+      throw new ConvexError("Upload not found");
+    }
+    // Same accepted types as focus documents, with a tighter size limit
+    const error =
+      uploadError(file) ??
+      (file.size > MAX_RESUME_BYTES ? "Resumes must be 10 MB or smaller" : null);
+    if (error) {
+      await ctx.storage.delete(args.storageId);
+      throw new ConvexError(error);
+    }
+
+    if (person.resumeId) {
+      await ctx.storage.delete(person.resumeId);
+    }
+    await ctx.db.patch(args.id, {
+      resumeId: args.storageId,
+      resumeName: args.fileName,
+      updatedAt: Date.now(),
+    });
+  },
+});
+
+// Delete a person's resume
+export const removeResume = mutation({
+  args: { id: v.id("personnel") },
+  handler: async (ctx, args) => {
+    const userId = await betterAuthComponent.getAuthUserId(ctx);
+    if (!userId) {
+      throw new ConvexError("Not authenticated");
+    }
+
+    const person = await getPerson(ctx, args.id);
+    if (person.resumeId) {
+      await ctx.storage.delete(person.resumeId);
+    }
+    await ctx.db.patch(args.id, {
+      resumeId: undefined,
+      resumeName: undefined,
+      updatedAt: Date.now(),
+    });
+  },
+});
+
+// Staff a person on a section, or change their allocation there. An allocation
+// of 0 removes the assignment.
+export const assign = mutation({
+  args: {
+    personId: v.id("personnel"),
+    sectionId: v.id("sections"),
+    allocation: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const userId = await betterAuthComponent.getAuthUserId(ctx);
+    if (!userId) {
+      throw new ConvexError("Not authenticated");
+    }
+
+    if (
+      !Number.isInteger(args.allocation) ||
+      args.allocation < 0 ||
+      args.allocation > FULL_TIME_ALLOCATION
+    ) {
+      throw new ConvexError(
+        `Allocation must be a whole percentage between 0 and ${FULL_TIME_ALLOCATION}`
+      );
+    }
+    await getPerson(ctx, args.personId);
+    await getLiveSection(ctx, args.sectionId);
+
+    const existing = await getAssignment(ctx, args.personId, args.sectionId);
+    if (args.allocation === 0) {
+      if (existing) {
+        await ctx.db.delete(existing._id);
+      }
+    } else if (existing) {
+      await ctx.db.patch(existing._id, { allocation: args.allocation });
+    } else {
+      await ctx.db.insert("personnelAssignments", {
+        ...args,
+        createdBy: userId,
+        createdAt: Date.now(),
+      });
+    }
+  },
+});
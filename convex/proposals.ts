@@ -0,0 +1,260 @@
+import { internalMutation, mutation, query } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { ConvexError, v, type Infer } from "convex/values";
+import { betterAuthComponent } from "./auth";
+import { isOverLimit, pagesFor } from "./lib/budget";
+import { proposalFields } from "./schema";
+import { deleteSection } from "./sections";
+
+const proposal = v.object(proposalFields);
+type ProposalFields = Infer<typeof proposal>;
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+// Longest window the activity chart can ask for
+const MAX_ACTIVITY_DAYS = 90;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Most sections `stats` reads, so the dashboard cards do not rescan a whole long
+// outline on every change. Past this the numbers cover the first STATS_CAP
+// sections in outline order and `capped` is set.
+const STATS_CAP = 1000;
+
+// Trim the proposal's text fields and reject incomplete proposals
+function cleanProposal(fields: ProposalFields): ProposalFields {
+  const name = fields.name.trim();
+  const agency = fields.agency.trim();
+  if (!name) {
+    throw new ConvexError("Proposal name is required");
+  }
+  if (!agency) {
+    throw new ConvexError("Agency is required");
+  }
+  if (!ISO_DATE.test(fields.dueDate) || Number.isNaN(Date.parse(fields.dueDate))) {
+    throw new ConvexError("Due date must be a valid date");
+  }
+
+  return {
+    name,
+    agency,
+    solicitationNumber: fields.solicitationNumber?.trim() || undefined,
+    dueDate: fields.dueDate,
+  };
+}
+
+// Every proposal, most recently updated first
+export const list = query({
+  args: {},
+  handler: async ctx => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      return [];
+    }
+
+    return await ctx.db.query("proposals").withIndex("by_updated").order("desc").collect();
+  },
+});
+
+// A single proposal, or null if it does not exist
+export const get = query({
+  args: { id: v.id("proposals") },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      return null;
+    }
+
+    return await ctx.db.get(args.id);
+  },
+});
+
+// The proposal id in a route param, or null when the param is not one, so a
+// malformed URL can render "not found" instead of failing the `v.id` validator
+export const parseId = query({
+  args: { id: v.string() },
+  handler: async (ctx, args) => ctx.db.normalizeId("proposals", args.id),
+});
+
+// Start a proposal. The first one adopts the outline written before proposals
+// existed, so no sections are left without an owner.
+export const create = mutation({
+  args: proposalFields,
+  handler: async (ctx, args) => {
+    const userId = await betterAuthComponent.getAuthUserId(ctx);
+    if (!userId) {
+      throw new ConvexError("Not authenticated");
+    }
+
+    const isFirst = (await ctx.db.query("proposals").first()) === null;
+    const now = Date.now();
+    const proposalId = await ctx.db.insert("proposals", {
+      ...cleanProposal(args),
+      createdBy: userId,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    if (isFirst) {
+      const orphans = await ctx.db
+        .query("sections")
+        .withIndex("by_order", q => q.eq("proposalId", undefined))
+        .collect();
+      for (const section of orphans) {
+        await ctx.db.patch(section._id, { proposalId });
+      }
+      // Their history too, for the activity chart
+      for (const table of ["sectionRevisions", "statusChanges"] as const) {
+        const rows = await ctx.db
+          .query(table)
+          .withIndex("by_proposal_created", q => q.eq("proposalId", undefined))
+          .collect();
+        for (const row of rows) {
+          await ctx.db.patch(row._id, { proposalId });
+        }
+      }
+    }
+    return proposalId;
+  },
+});
+
+// Replace a proposal's fields
+export const update = mutation({
+  args: { id: v.id("proposals"), ...proposalFields },
+  handler: async (ctx, args) => {
+    const userId = await betterAuthComponent.getAuthUserId(ctx);
+    if (!userId) {
+      throw new ConvexError("Not authenticated");
+    }
+
+    const { id, ...fields } = args;
+    if ((await ctx.db.get(id)) === null) {
+      throw new ConvexError("Proposal not found");
+    }
+
+    await ctx.db.patch(id, { ...cleanProposal(fields), updatedAt: Date.now() });
+  },
+});
+
+// Delete a proposal. Its sections are deleted in the background, since a large
+// outline does not fit in one mutation.
+export const remove = mutation({
+  args: { id: v.id("proposals") },
+  handler: async (ctx, args) => {
+    const userId = await betterAuthComponent.getAuthUserId(ctx);
+    if (!userId) {
+      throw new ConvexError("Not authenticated");
+    }
+
+    if ((await ctx.db.get(args.id)) === null) {
+      throw new ConvexError("Proposal not found");
+    }
+
+    await ctx.db.delete(args.id);
+    await ctx.scheduler.runAfter(0, internal.proposals.deleteSections, { proposalId: args.id });
+  },
+});
+
+// Sections deleted per run, to stay inside a mutation's limits
+const DELETE_BATCH = 100;
+
+// Delete the sections of a deleted proposal, rescheduling itself while more remain
+export const deleteSections = internalMutation({
+  args: { proposalId: v.id("proposals") },
+  handler: async (ctx, args) => {
+    const sections = await ctx.db
+      .query("sections")
+      .withIndex("by_order", q => q.eq("proposalId", args.proposalId))
+      .take(DELETE_BATCH);
+    for (const section of sections) {
+      await deleteSection(ctx, section._id);
+    }
+
+    if (sections.length === DELETE_BATCH) {
+      await ctx.scheduler.runAfter(0, internal.proposals.deleteSections, args);
+    }
+  },
+});
+
+// Headline numbers for a proposal's dashboard cards: section progress and the
+// page budget, leaving out the trash; lower bounds when `capped`
+export const stats = query({
+  args: { proposalId: v.id("proposals") },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      return null;
+    }
+
+    const sections = await ctx.db
+      .query("sections")
+      .withIndex("by_order", q => q.eq("proposalId", args.proposalId))
+      .filter(q => q.eq(q.field("trashedAt"), undefined))
+      .take(STATS_CAP + 1);
+    const capped = sections.length > STATS_CAP;
+    sections.splice(STATS_CAP);
+
+    let draftedPages = 0;
+    let targetPages = 0;
+    for (const section of sections) {
+      draftedPages += pagesFor(section.wordCount ?? 0);
+      targetPages += section.target;
+    }
+    return {
+      sections: sections.length,
+      done: sections.filter(section => section.status === "Done").length,
+      inReview: sections.filter(section => section.status === "In Review").length,
+      overLimit: sections.filter(isOverLimit).length,
+      draftedPages,
+      targetPages,
+      capped,
+    };
+  },
+});
+
+// Edits and completed sections per day over the last `days` days (UTC), for the
+// dashboard chart. Edits count section revisions; completions count moves to Done.
+export const activity = query({
+  args: { proposalId: v.id("proposals"), days: v.number() },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      return [];
+    }
+
+    const days = Math.min(Math.max(Math.floor(args.days), 1), MAX_ACTIVITY_DAYS);
+    const today = new Date(new Date().toISOString().slice(0, 10)).getTime();
+    const since = today - (days - 1) * DAY_MS;
+    const buckets = new Map<string, { date: string; edits: number; completed: number }>();
+    for (let day = since; day <= today; day += DAY_MS) {
+      const date = new Date(day).toISOString().slice(0, 10);
+      buckets.set(date, { date, edits: 0, completed: 0 });
+    }
+    const bucketFor = (time: number) => buckets.get(new Date(time).toISOString().slice(0, 10));
+
+    const revisions = await ctx.db
+      .query("sectionRevisions")
+      .withIndex("by_proposal_created", q =>
+        q.eq("proposalId", args.proposalId).gte("createdAt", since)
+      )
+      .collect();
+    for (const revision of revisions) {
+      const bucket = bucketFor(revision.createdAt);
+      if (bucket) bucket.edits += 1;
+    }
+
+    const changes = await ctx.db
+      .query("statusChanges")
+      .withIndex("by_proposal_created", q =>
+        q.eq("proposalId", args.proposalId).gte("createdAt", since)
+      )
+      .filter(q => q.eq(q.field("to"), "Done"))
+      .collect();
+    for (const change of changes) {
+      const bucket = bucketFor(change.createdAt);
+      if (bucket) bucket.completed += 1;
+    }
+
+    return [...buckets.values()];
+  },
+});
@@ -0,0 +1,120 @@
+import { query, mutation, type MutationCtx } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import { ConvexError, v } from "convex/values";
+import { betterAuthComponent } from "./auth";
+import { getLiveSection } from "./lib/trash";
+import { reviewerChangeError } from "./lib/workflow";
+
+// Section fields that are versioned; status has its own audit trail in statusChanges
+export const REVISION_FIELDS = ["header", "type", "target", "limit", "reviewerId"] as const;
+
+export type RevisionField = (typeof REVISION_FIELDS)[number];
+
+function snapshotOf(section: Doc<"sections">) {
+  return {
+    header: section.header,
+    type: section.type,
+    target: section.target,
+    limit: section.limit,
+    reviewerId: section.reviewerId,
+  };
+}
+
+async function latestRevision(ctx: MutationCtx, sectionId: Id<"sections">) {
+  return await ctx.db
+    .query("sectionRevisions")
+    .withIndex("by_section_version", q => q.eq("sectionId", sectionId))
+    .order("desc")
+    .first();
+}
+
+// Record the section's current state as a new revision if any versioned field
+// changed since the last one. Call this after every write to a section.
+export async function recordRevision(
+  ctx: MutationCtx,
+  sectionId: Id<"sections">,
+  userId: string,
+  restoredFrom?: number
+) {
+  const section = await ctx.db.get(sectionId);
+  if (section === null) {
+    return null;
+  }
+
+  const previous = await latestRevision(ctx, sectionId);
+  const snapshot = snapshotOf(section);
+  const changedFields = REVISION_FIELDS.filter(
+    field => !previous || previous.snapshot[field] !== snapshot[field]
+  );
+  if (changedFields.length === 0) {
+    return null;
+  }
+
+  return await ctx.db.insert("sectionRevisions", {
+    sectionId,
+    version: (previous?.version ?? 0) + 1,
+    snapshot,
+    changedFields: [...changedFields],
+    userId,
+    restoredFrom,
+    proposalId: section.proposalId,
+    createdAt: Date.now(),
+  });
+}
+
+// Delete every revision of a section
+export async function deleteRevisions(ctx: MutationCtx, sectionId: Id<"sections">) {
+  const revisions = await ctx.db
+    .query("sectionRevisions")
+    .withIndex("by_section_version", q => q.eq("sectionId", sectionId))
+    .collect();
+  for (const revision of revisions) {
+    await ctx.db.delete(revision._id);
+  }
+}
+
+// Revisions of a section, newest first
+export const list = query({
+  args: { sectionId: v.id("sections") },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      return [];
+    }
+
+    return await ctx.db
+      .query("sectionRevisions")
+      .withIndex("by_section_version", q => q.eq("sectionId", args.sectionId))
+      .order("desc")
+      .collect();
+  },
+});
+
+// Put a section back to the state captured by a revision. The restore itself is
+// recorded as a new revision, so it can be undone the same way.
+export const restore = mutation({
+  args: { id: v.id("sectionRevisions") },
+  handler: async (ctx, args) => {
+    const userId = await betterAuthComponent.getAuthUserId(ctx);
+    if (!userId) {
+      throw new ConvexError("Not authenticated");
+    }
+
+    const revision = await ctx.db.get(args.id);
+    if (revision === null) {
+      throw new ConvexError("Revision not found");
+    }
+
+    const section = await getLiveSection(ctx, revision.sectionId);
+    const error = reviewerChangeError(section, revision.snapshot.reviewerId);
+    if (error) {
+      throw new ConvexError(error);
+    }
+
+    await ctx.db.patch(section._id, {
+      ...revision.snapshot,
+      updatedAt: Date.now(),
+    });
+    await recordRevision(ctx, section._id, userId, revision.version);
+  },
+});
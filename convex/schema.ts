@@ -1,5 +1,93 @@
 import { defineSchema, defineTable } from "convex/server";
 import { v } from "convex/values";
+import { documentKind } from "./lib/documents";
+import { tableLayout } from "./lib/listing";
+import { clearanceLevel } from "./lib/staffing";
+import { sectionStatus } from "./lib/workflow";
+
+// Fields of an outline section
+export const sectionFields = {
+  // Owning proposal; only unset on sections written before proposals existed,
+  // which the first proposal adopts (see convex/proposals.ts)
+  proposalId: v.optional(v.id("proposals")),
+  header: v.string(),
+  type: v.string(),
+  status: sectionStatus, // See convex/lib/workflow.ts
+  statusChangedBy: v.optional(v.string()), // References Better Auth user.userId
+  statusChangedAt: v.optional(v.number()),
+  target: v.number(),
+  limit: v.number(),
+  reviewerId: v.optional(v.string()), // References Better Auth user.userId
+  wordCount: v.optional(v.number()), // Denormalized from sectionContents
+  commentCount: v.optional(v.number()), // Denormalized from comments
+  // Due dates as ISO dates (YYYY-MM-DD), see convex/lib/schedule.ts
+  draftDue: v.optional(v.string()),
+  reviewDue: v.optional(v.string()),
+  finalDue: v.optional(v.string()),
+  // Fractional sort key, see convex/lib/ordering.ts
+  order: v.number(),
+  // Set while the section is in the trash, see convex/lib/trash.ts
+  trashedAt: v.optional(v.number()),
+  trashedBy: v.optional(v.string()), // References Better Auth user.userId
+  createdAt: v.number(),
+  updatedAt: v.number(),
+};
+
+// Section fields a bulk operation can change and undo
+const bulkFields = {
+  status: v.optional(sectionStatus),
+  reviewerId: v.optional(v.union(v.string(), v.null())),
+  type: v.optional(v.string()),
+  target: v.optional(v.number()),
+  limit: v.optional(v.number()),
+};
+
+// Editable fields of a proposal
+export const proposalFields = {
+  name: v.string(),
+  agency: v.string(),
+  solicitationNumber: v.optional(v.string()),
+  dueDate: v.string(), // ISO date, YYYY-MM-DD
+};
+
+// Editable fields of a past-performance record
+export const pastPerformanceFields = {
+  contractName: v.string(),
+  customer: v.string(),
+  contractNumber: v.optional(v.string()),
+  periodStart: v.string(), // ISO date, YYYY-MM-DD
+  periodEnd: v.optional(v.string()), // ISO date; omitted while the contract is ongoing
+  value: v.number(), // Total contract value in US dollars
+  relevance: v.string(), // Why this contract is relevant to the bid
+  contacts: v.array(
+    v.object({
+      name: v.string(),
+      title: v.optional(v.string()),
+      email: v.optional(v.string()),
+      phone: v.optional(v.string()),
+    })
+  ),
+};
+
+// Editable fields of a key personnel profile
+export const personnelFields = {
+  name: v.string(),
+  email: v.optional(v.string()),
+  role: v.string(), // Proposed role, e.g. "Program Manager"
+  laborCategory: v.string(),
+  clearance: clearanceLevel, // See convex/lib/staffing.ts
+  certifications: v.array(v.string()),
+};
+
+// Editable fields of a section template
+export const templateFields = {
+  name: v.string(),
+  type: v.string(),
+  target: v.number(),
+  limit: v.number(),
+  html: v.string(), // Starter content copied into new sections
+  checklist: v.array(v.string()), // Checklist item labels, in order
+};
 
 export default defineSchema({
   // App-specific tables
@@ -31,4 +119,254 @@ export default defineSchema({
   })
     .index("by_author", ["authorUserId"])
     .index("by_published", ["published"]),
+
+  // Bids the team is writing, each with its own outline and dashboard
+  proposals: defineTable({
+    ...proposalFields,
+    createdBy: v.string(), // References Better Auth user.userId
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  }).index("by_updated", ["updatedAt"]),
+
+  // Proposal outline sections shown in the dashboard DataTable
+  // One index per sortable column, each scoped to a proposal; status, type and
+  // reviewer come next so a single-value filter is an index range that still
+  // comes back in outline order
+  sections: defineTable(sectionFields)
+    .index("by_order", ["proposalId", "order"])
+    .index("by_header", ["proposalId", "header"])
+    .index("by_type", ["proposalId", "type", "order"])
+    .index("by_status", ["proposalId", "status", "order"])
+    .index("by_target", ["proposalId", "target"])
+    .index("by_limit", ["proposalId", "limit"])
+    .index("by_reviewer", ["proposalId", "reviewerId", "order"])
+    .index("by_proposal_trashed", ["proposalId", "trashedAt"])
+    .index("by_trashed", ["trashedAt"])
+    .searchIndex("search_header", {
+      searchField: "header",
+      filterFields: ["proposalId", "type", "status", "reviewerId"],
+    }),
+
+  // Sections a user starred, to filter the outline down to them
+  favorites: defineTable({
+    userId: v.string(), // References Better Auth user.userId
+    sectionId: v.id("sections"),
+    createdAt: v.number(),
+  })
+    .index("by_user_section", ["userId", "sectionId"])
+    .index("by_section", ["sectionId"]),
+
+  // Discussion on a section. Top-level comments start threads that can be
+  // resolved; replies point at the thread's first comment through parentId.
+  comments: defineTable({
+    sectionId: v.id("sections"),
+    parentId: v.optional(v.id("comments")),
+    authorId: v.string(), // References Better Auth user.userId
+    body: v.string(),
+    mentions: v.array(v.string()), // Mentioned Better Auth user.userId values
+    resolvedBy: v.optional(v.string()), // References Better Auth user.userId
+    resolvedAt: v.optional(v.number()),
+    editedAt: v.optional(v.number()),
+    createdAt: v.number(),
+  })
+    .index("by_section", ["sectionId"])
+    .index("by_parent", ["parentId"]),
+
+  // Checklist items of a section, usually seeded from its template
+  sectionChecklistItems: defineTable({
+    sectionId: v.id("sections"),
+    label: v.string(),
+    done: v.boolean(),
+    doneBy: v.optional(v.string()), // References Better Auth user.userId
+    doneAt: v.optional(v.number()),
+    order: v.number(),
+  }).index("by_section", ["sectionId", "order"]),
+
+  // Org-wide library of templates "Add Section" can start from
+  sectionTemplates: defineTable({
+    ...templateFields,
+    createdBy: v.string(), // References Better Auth user.userId
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  }).index("by_name", ["name"]),
+
+  // Rich-text body of a section, kept apart so listing sections stays light
+  sectionContents: defineTable({
+    sectionId: v.id("sections"),
+    html: v.string(),
+    // Bumped on every save so a stale editor cannot overwrite newer text; 0 when unset
+    version: v.optional(v.number()),
+    updatedBy: v.string(), // References Better Auth user.userId
+    updatedAt: v.number(),
+  }).index("by_section", ["sectionId"]),
+
+  // Versioned snapshots of a section's editable fields
+  sectionRevisions: defineTable({
+    sectionId: v.id("sections"),
+    version: v.number(),
+    snapshot: v.object({
+      header: v.string(),
+      type: v.string(),
+      target: v.number(),
+      limit: v.number(),
+      reviewerId: v.optional(v.string()),
+    }),
+    changedFields: v.array(v.string()),
+    userId: v.string(), // References Better Auth user.userId
+    restoredFrom: v.optional(v.number()), // Version this revision restored
+    // Denormalized from the section for the dashboard activity chart; unset on
+    // revisions written before it was added
+    proposalId: v.optional(v.id("proposals")),
+    createdAt: v.number(),
+  })
+    .index("by_section_version", ["sectionId", "version"])
+    .index("by_proposal_created", ["proposalId", "createdAt"]),
+
+  // Audit trail of section status transitions
+  statusChanges: defineTable({
+    sectionId: v.id("sections"),
+    from: sectionStatus,
+    to: sectionStatus,
+    userId: v.string(), // References Better Auth user.userId
+    // Denormalized from the section, like sectionRevisions.proposalId
+    proposalId: v.optional(v.id("proposals")),
+    createdAt: v.number(),
+  })
+    .index("by_section", ["sectionId"])
+    .index("by_proposal_created", ["proposalId", "createdAt"]),
+
+  // Batched DataTable actions, kept so the user who ran one can undo it
+  bulkOperations: defineTable({
+    userId: v.string(), // References Better Auth user.userId
+    kind: v.union(
+      v.literal("status"),
+      v.literal("reviewer"),
+      v.literal("type"),
+      v.literal("metrics"),
+      v.literal("duplicate"),
+      v.literal("import"),
+      v.literal("delete")
+    ),
+    // Previous values of the fields a status / reviewer / type / metrics change
+    // touched, and the values it wrote, so undo can tell if a row changed since
+    before: v.array(
+      v.object({
+        sectionId: v.id("sections"),
+        ...bulkFields,
+        after: v.object(bulkFields),
+      })
+    ),
+    createdIds: v.array(v.id("sections")), // Sections inserted by a duplicate or import
+    trashedIds: v.array(v.id("sections")), // Sections a delete moved to the trash
+    undoneAt: v.optional(v.number()),
+    createdAt: v.number(),
+  }).index("by_user", ["userId"]),
+
+  // In-app notifications, e.g. "you were assigned as reviewer"
+  notifications: defineTable({
+    userId: v.string(), // Recipient, references Better Auth user.userId
+    actorId: v.optional(v.string()), // Who triggered it
+    kind: v.string(),
+    message: v.string(),
+    sectionId: v.optional(v.id("sections")),
+    read: v.boolean(),
+    createdAt: v.number(),
+  }).index("by_user_read", ["userId", "read"]),
+
+  // Past contracts cited as evidence of capability
+  pastPerformances: defineTable({
+    ...pastPerformanceFields,
+    // Contract name, customer and number, for the search index
+    searchText: v.string(),
+    createdBy: v.string(), // References Better Auth user.userId
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_contract_name", ["contractName"])
+    .searchIndex("search_text", { searchField: "searchText" }),
+
+  // Outline sections that cite a past-performance record
+  pastPerformanceLinks: defineTable({
+    recordId: v.id("pastPerformances"),
+    sectionId: v.id("sections"),
+    createdBy: v.string(), // References Better Auth user.userId
+    createdAt: v.number(),
+  })
+    .index("by_record", ["recordId"])
+    .index("by_section", ["sectionId"]),
+
+  // Key personnel directory
+  personnel: defineTable({
+    ...personnelFields,
+    resumeId: v.optional(v.id("_storage")),
+    resumeName: v.optional(v.string()), // Original file name of the uploaded resume
+    createdBy: v.string(), // References Better Auth user.userId
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  }).index("by_name", ["name"]),
+
+  // Proposed-role matrix: who is staffed on which outline section
+  personnelAssignments: defineTable({
+    personId: v.id("personnel"),
+    sectionId: v.id("sections"),
+    allocation: v.number(), // Percent of the person's time, see convex/lib/staffing.ts
+    createdBy: v.string(), // References Better Auth user.userId
+    createdAt: v.number(),
+  })
+    .index("by_person", ["personId"])
+    .index("by_section", ["sectionId"]),
+
+  // RFP documents, amendments and reference files. The file itself lives in
+  // documentVersions so re-uploads keep the history.
+  documents: defineTable({
+    title: v.string(),
+    kind: documentKind, // See convex/lib/documents.ts
+    tags: v.array(v.string()),
+    currentVersion: v.number(),
+    createdBy: v.string(), // References Better Auth user.userId
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  }).index("by_updated", ["updatedAt"]),
+
+  // Every uploaded file of a document, newest version highest
+  documentVersions: defineTable({
+    documentId: v.id("documents"),
+    version: v.number(),
+    storageId: v.id("_storage"),
+    fileName: v.string(),
+    contentType: v.string(),
+    size: v.number(), // Bytes
+    uploadedBy: v.string(), // References Better Auth user.userId
+    createdAt: v.number(),
+  }).index("by_document_version", ["documentId", "version"]),
+
+  // Outline sections a document is relevant to
+  documentLinks: defineTable({
+    documentId: v.id("documents"),
+    sectionId: v.id("sections"),
+    createdBy: v.string(), // References Better Auth user.userId
+    createdAt: v.number(),
+  })
+    .index("by_document", ["documentId"])
+    .index("by_section", ["sectionId"]),
+
+  // Named DataTable layouts. Shared views are listed for the whole team.
+  tableViews: defineTable({
+    name: v.string(),
+    ownerId: v.string(), // References Better Auth user.userId
+    shared: v.boolean(),
+    layout: tableLayout, // See convex/lib/listing.ts
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_owner", ["ownerId"])
+    .index("by_shared", ["shared"]),
+
+  // The view each user's table opens with
+  defaultViews: defineTable({
+    userId: v.string(), // References Better Auth user.userId
+    viewId: v.id("tableViews"),
+  })
+    .index("by_user", ["userId"])
+    .index("by_view", ["viewId"]),
 });
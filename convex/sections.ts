@@ -0,0 +1,1016 @@
+import {
+  internalMutation,
+  mutation,
+  query,
+  type MutationCtx,
+  type QueryCtx,
+} from "./_generated/server";
+import { internal } from "./_generated/api";
+import type { DataModel, Doc, Id } from "./_generated/dataModel";
+import { paginationOptsValidator, type OrderedQuery } from "convex/server";
+import { ConvexError, v, type Infer } from "convex/values";
+import { betterAuthComponent } from "./auth";
+import { METRIC_MAX, countWords } from "./lib/budget";
+import {
+  DEFAULT_SORT,
+  sectionFilters,
+  sectionSort,
+  type SectionFilters,
+  type SectionSort,
+} from "./lib/listing";
+import { needsRebalance, orderBetween, spreadKeys } from "./lib/ordering";
+import { MILESTONES, scheduleError } from "./lib/schedule";
+import { TRASH_RETENTION_MS, getLiveSection } from "./lib/trash";
+import {
+  reviewerChangeError,
+  sectionStatus,
+  transitionError,
+  type SectionStatus,
+} from "./lib/workflow";
+import { addChecklistItems, deleteChecklist } from "./checklists";
+import { deleteComments } from "./comments";
+import { favoriteSectionIds } from "./favorites";
+import { notify } from "./notifications";
+import { deleteRevisions, recordRevision } from "./revisions";
+import { getMember } from "./users";
+
+export function assertValidMetric(label: string, value: number | undefined) {
+  if (value === undefined) {
+    return;
+  }
+  if (!Number.isInteger(value) || value < 0 || value > METRIC_MAX) {
+    throw new ConvexError(`${label} must be a whole number between 0 and ${METRIC_MAX}`);
+  }
+}
+
+// Check that the reviewer is a real member and let them know about the assignment
+export async function notifyReviewer(
+  ctx: MutationCtx,
+  section: Pick<Doc<"sections">, "_id" | "header">,
+  reviewerId: string,
+  actorId: string
+) {
+  const reviewer = await getMember(ctx, reviewerId);
+  if (!reviewer) {
+    throw new ConvexError("Reviewer not found");
+  }
+
+  await notify(ctx, {
+    userId: reviewerId,
+    actorId,
+    kind: "reviewer_assigned",
+    message: `You were assigned to review "${section.header}"`,
+    sectionId: section._id,
+  });
+}
+
+// The single value of a one-item filter list, which can be served by an index
+function only<T>(values: T[] | undefined) {
+  return values?.length === 1 ? values[0] : undefined;
+}
+
+// A proposal's sections matching `filters` in `sort` order, leaving out the trash.
+// The index is picked from the sort field (or a single-value filter when sorting
+// by outline order); any remaining filters are applied while scanning it.
+async function sectionQuery(
+  ctx: QueryCtx,
+  proposalId: Id<"proposals">,
+  filters: SectionFilters,
+  sort: SectionSort
+) {
+  const sections = ctx.db.query("sections");
+  const type = only(filters.types);
+  const status = only(filters.statuses);
+  const reviewerId = only(filters.reviewerIds);
+  const search = filters.search?.trim();
+  const order = sort.desc ? "desc" : "asc";
+
+  let query: OrderedQuery<DataModel["sections"]>;
+  if (search) {
+    // Search results are ranked by relevance, so `sort` does not apply
+    query = sections.withSearchIndex("search_header", q => {
+      let range = q.search("header", search).eq("proposalId", proposalId);
+      if (type !== undefined) range = range.eq("type", type);
+      if (status !== undefined) range = range.eq("status", status);
+      if (reviewerId !== undefined) range = range.eq("reviewerId", reviewerId);
+      return range;
+    });
+  } else if (sort.field === "header" || sort.field === "target" || sort.field === "limit") {
+    query = sections
+      .withIndex(`by_${sort.field}`, q => q.eq("proposalId", proposalId))
+      .order(order);
+  } else if (sort.field === "type" || (sort.field === "order" && type !== undefined)) {
+    query = sections
+      .withIndex("by_type", q => {
+        const range = q.eq("proposalId", proposalId);
+        return type === undefined ? range : range.eq("type", type);
+      })
+      .order(order);
+  } else if (sort.field === "status" || status !== undefined) {
+    query = sections
+      .withIndex("by_status", q => {
+        const range = q.eq("proposalId", proposalId);
+        return status === undefined ? range : range.eq("status", status);
+      })
+      .order(order);
+  } else if (reviewerId !== undefined) {
+    query = sections
+      .withIndex("by_reviewer", q => q.eq("proposalId", proposalId).eq("reviewerId", reviewerId))
+      .order(order);
+  } else {
+    query = sections.withIndex("by_order", q => q.eq("proposalId", proposalId)).order(order);
+  }
+
+  const { types, statuses, reviewerIds } = filters;
+  const favoriteIds = filters.favorites ? await favoriteSectionIds(ctx) : undefined;
+  return query.filter(q =>
+    q.and(
+      q.eq(q.field("trashedAt"), undefined),
+      favoriteIds
+        ? favoriteIds.length > 0 && q.or(...favoriteIds.map(id => q.eq(q.field("_id"), id)))
+        : true,
+      types?.length ? q.or(...types.map(value => q.eq(q.field("type"), value))) : true,
+      statuses?.length ? q.or(...statuses.map(value => q.eq(q.field("status"), value))) : true,
+      reviewerIds?.length
+        ? q.or(...reviewerIds.map(value => q.eq(q.field("reviewerId"), value)))
+        : true
+    )
+  );
+}
+
+// One page of a proposal's sections matching `filters` in `sort` order, for the
+// outline table
+export const page = query({
+  args: {
+    proposalId: v.id("proposals"),
+    paginationOpts: paginationOptsValidator,
+    filters: sectionFilters,
+    sort: v.optional(sectionSort),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      return { page: [], isDone: true, continueCursor: "" };
+    }
+
+    const sections = await sectionQuery(
+      ctx,
+      args.proposalId,
+      args.filters,
+      args.sort ?? DEFAULT_SORT
+    );
+    return await sections.paginate(args.paginationOpts);
+  },
+});
+
+// Most cards the board view loads
+const BOARD_MAX = 500;
+
+// A proposal's sections matching `filters` in `sort` order, all at once for the
+// board view, which groups them by status on the client. `truncated` is set when
+// more than BOARD_MAX match.
+export const board = query({
+  args: {
+    proposalId: v.id("proposals"),
+    filters: sectionFilters,
+    sort: v.optional(sectionSort),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      return { sections: [], truncated: false };
+    }
+
+    const sections = await (
+      await sectionQuery(ctx, args.proposalId, args.filters, args.sort ?? DEFAULT_SORT)
+    ).take(BOARD_MAX + 1);
+    return {
+      sections: sections.slice(0, BOARD_MAX),
+      truncated: sections.length > BOARD_MAX,
+    };
+  },
+});
+
+// Most sections the calendar and timeline load
+const SCHEDULE_MAX = 1000;
+
+// A proposal's sections matching `filters` in outline order, for the calendar and
+// timeline views. `truncated` is set when more than SCHEDULE_MAX match.
+export const schedule = query({
+  args: { proposalId: v.id("proposals"), filters: sectionFilters },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      return { sections: [], truncated: false };
+    }
+
+    const sections = await (
+      await sectionQuery(ctx, args.proposalId, args.filters, DEFAULT_SORT)
+    ).take(SCHEDULE_MAX + 1);
+    return {
+      sections: sections.slice(0, SCHEDULE_MAX),
+      truncated: sections.length > SCHEDULE_MAX,
+    };
+  },
+});
+
+// Most rows `count` and `facets` read, so they do not rescan a whole long
+// outline on every change. Past this they report lower bounds and `capped`.
+const COUNT_CAP = 1000;
+
+// Number of a proposal's sections matching `filters`, used to work out the page
+// count; a lower bound when `capped`
+export const count = query({
+  args: { proposalId: v.id("proposals"), filters: sectionFilters },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      return { count: 0, capped: false };
+    }
+
+    const sections = await (
+      await sectionQuery(ctx, args.proposalId, args.filters, DEFAULT_SORT)
+    ).take(COUNT_CAP + 1);
+    return { count: Math.min(sections.length, COUNT_CAP), capped: sections.length > COUNT_CAP };
+  },
+});
+
+// Value counts for the Section Type, Status and Reviewer filters. Each facet is
+// counted with every filter applied except its own, so the counts show what
+// adding another value of that facet would match. Counts come from the first
+// COUNT_CAP matching rows and are lower bounds when `capped`.
+export const facets = query({
+  args: { proposalId: v.id("proposals"), filters: sectionFilters },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      return { types: [], statuses: [], reviewers: [], capped: false };
+    }
+
+    const { search, favorites, types, statuses, reviewerIds } = args.filters;
+    const scanned = await (
+      await sectionQuery(ctx, args.proposalId, { search, favorites }, DEFAULT_SORT)
+    ).take(COUNT_CAP + 1);
+    const sections = scanned.slice(0, COUNT_CAP);
+    const matches = (values: string[] | undefined, value: string | undefined) =>
+      !values?.length || (value !== undefined && values.includes(value));
+    const countBy = (
+      field: "type" | "status" | "reviewerId",
+      include: (section: Doc<"sections">) => boolean
+    ) => {
+      const counts = new Map<string, number>();
+      for (const section of sections) {
+        const value = section[field];
+        if (value !== undefined && include(section)) {
+          counts.set(value, (counts.get(value) ?? 0) + 1);
+        }
+      }
+      return [...counts].map(([value, count]) => ({ value, count }));
+    };
+
+    return {
+      types: countBy(
+        "type",
+        section => matches(statuses, section.status) && matches(reviewerIds, section.reviewerId)
+      ),
+      statuses: countBy(
+        "status",
+        section => matches(types, section.type) && matches(reviewerIds, section.reviewerId)
+      ),
+      reviewers: countBy(
+        "reviewerId",
+        section => matches(types, section.type) && matches(statuses, section.status)
+      ),
+      capped: scanned.length > COUNT_CAP,
+    };
+  },
+});
+
+// A single section, or null if it does not exist or is in the trash
+export const get = query({
+  args: { id: v.id("sections") },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      return null;
+    }
+
+    const section = await ctx.db.get(args.id);
+    return section?.trashedAt === undefined ? section : null;
+  },
+});
+
+// The section id in a route param, or null when the param is not one, like
+// `proposals.parseId`
+export const parseId = query({
+  args: { id: v.string() },
+  handler: async (ctx, args) => ctx.db.normalizeId("sections", args.id),
+});
+
+// Create a new section at the end of a proposal's outline, optionally from a
+// library template. The template supplies the type, target and limit unless they
+// are given, plus the starter content and checklist.
+export const create = mutation({
+  args: {
+    proposalId: v.id("proposals"),
+    header: v.string(),
+    type: v.optional(v.string()),
+    target: v.optional(v.number()),
+    limit: v.optional(v.number()),
+    reviewerId: v.optional(v.string()),
+    templateId: v.optional(v.id("sectionTemplates")),
+  },
+  handler: async (ctx, args) => {
+    const userId = await betterAuthComponent.getAuthUserId(ctx);
+    if (!userId) {
+      throw new ConvexError("Not authenticated");
+    }
+
+    const header = args.header.trim();
+    if (!header) {
+      throw new ConvexError("Header is required");
+    }
+    if ((await ctx.db.get(args.proposalId)) === null) {
+      throw new ConvexError("Proposal not found");
+    }
+    const template = args.templateId ? await ctx.db.get(args.templateId) : null;
+    if (args.templateId && template === null) {
+      throw new ConvexError("Template not found");
+    }
+    const type = args.type ?? template?.type;
+    if (!type) {
+      throw new ConvexError("Section type is required");
+    }
+    assertValidMetric("Target", args.target);
+    assertValidMetric("Limit", args.limit);
+
+    const now = Date.now();
+    const sectionId = await ctx.db.insert("sections", {
+      proposalId: args.proposalId,
+      header,
+      type,
+      status: "Not Started",
+      target: args.target ?? template?.target ?? 0,
+      limit: args.limit ?? template?.limit ?? 0,
+      reviewerId: args.reviewerId,
+      wordCount: template?.html ? countWords(template.html) : undefined,
+      order: await nextOrder(ctx, args.proposalId),
+      createdAt: now,
+      updatedAt: now,
+    });
+    if (template?.html) {
+      await ctx.db.insert("sectionContents", {
+        sectionId,
+        html: template.html,
+        updatedBy: userId,
+        updatedAt: now,
+      });
+    }
+    if (template && template.checklist.length > 0) {
+      await addChecklistItems(ctx, sectionId, template.checklist);
+    }
+    await recordRevision(ctx, sectionId, userId);
+
+    if (args.reviewerId) {
+      await notifyReviewer(ctx, { _id: sectionId, header }, args.reviewerId, userId);
+    }
+    return sectionId;
+  },
+});
+
+// Update any subset of a section's fields. Status changes go through `setStatus`.
+export const update = mutation({
+  args: {
+    id: v.id("sections"),
+    header: v.optional(v.string()),
+    type: v.optional(v.string()),
+    target: v.optional(v.number()),
+    limit: v.optional(v.number()),
+    reviewerId: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await betterAuthComponent.getAuthUserId(ctx);
+    if (!userId) {
+      throw new ConvexError("Not authenticated");
+    }
+
+    const section = await getLiveSection(ctx, args.id);
+
+    const { id, ...fields } = args;
+    if (fields.header !== undefined) {
+      fields.header = fields.header.trim();
+      if (!fields.header) {
+        throw new ConvexError("Header is required");
+      }
+    }
+    assertValidMetric("Target", fields.target);
+    assertValidMetric("Limit", fields.limit);
+    const reviewerError =
+      fields.reviewerId === undefined ? null : reviewerChangeError(section, fields.reviewerId);
+    if (reviewerError) {
+      throw new ConvexError(reviewerError);
+    }
+
+    if (fields.reviewerId && fields.reviewerId !== section.reviewerId) {
+      await notifyReviewer(
+        ctx,
+        { _id: id, header: fields.header ?? section.header },
+        fields.reviewerId,
+        userId
+      );
+    }
+
+    await ctx.db.patch(id, {
+      ...fields,
+      updatedAt: Date.now(),
+    });
+    await recordRevision(ctx, id, userId);
+  },
+});
+
+// Assign a reviewer to a section, or clear the assignment with `null`
+export const assignReviewer = mutation({
+  args: {
+    id: v.id("sections"),
+    reviewerId: v.union(v.string(), v.null()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await betterAuthComponent.getAuthUserId(ctx);
+    if (!userId) {
+      throw new ConvexError("Not authenticated");
+    }
+
+    const section = await getLiveSection(ctx, args.id);
+    if ((args.reviewerId ?? undefined) === section.reviewerId) {
+      return;
+    }
+    const error = reviewerChangeError(section, args.reviewerId ?? undefined);
+    if (error) {
+      throw new ConvexError(error);
+    }
+
+    if (args.reviewerId) {
+      await notifyReviewer(ctx, section, args.reviewerId, userId);
+    }
+
+    await ctx.db.patch(args.id, {
+      reviewerId: args.reviewerId ?? undefined,
+      updatedAt: Date.now(),
+    });
+    await recordRevision(ctx, args.id, userId);
+  },
+});
+
+// Move a section through the status workflow, recording who moved it and when
+export const setStatus = mutation({
+  args: {
+    id: v.id("sections"),
+    status: sectionStatus,
+  },
+  handler: async (ctx, args) => {
+    const userId = await betterAuthComponent.getAuthUserId(ctx);
+    if (!userId) {
+      throw new ConvexError("Not authenticated");
+    }
+
+    const section = await getLiveSection(ctx, args.id);
+    if (section.status === args.status) {
+      return;
+    }
+
+    const error = transitionError(section, args.status, userId);
+    if (error) {
+      throw new ConvexError(error);
+    }
+
+    await applyStatus(ctx, section, args.status, userId);
+  },
+});
+
+// Write a status change and its audit entry. Callers are responsible for checking
+// the transition with `transitionError` first.
+export async function applyStatus(
+  ctx: MutationCtx,
+  section: Doc<"sections">,
+  status: SectionStatus,
+  userId: string
+) {
+  const now = Date.now();
+  await ctx.db.patch(section._id, {
+    status,
+    statusChangedBy: userId,
+    statusChangedAt: now,
+    updatedAt: now,
+  });
+  await ctx.db.insert("statusChanges", {
+    sectionId: section._id,
+    from: section.status,
+    to: status,
+    userId,
+    proposalId: section.proposalId,
+    createdAt: now,
+  });
+
+  if (status === "In Review" && section.reviewerId) {
+    await notify(ctx, {
+      userId: section.reviewerId,
+      actorId: userId,
+      kind: "review_requested",
+      message: `"${section.header}" is ready for your review`,
+      sectionId: section._id,
+    });
+  }
+}
+
+const scheduleDates = v.object({
+  draftDue: v.optional(v.string()),
+  reviewDue: v.optional(v.string()),
+  finalDue: v.optional(v.string()),
+});
+
+// Replace a section's draft, review and final due dates. Dates left out are
+// cleared, so the calendar and timeline send the whole schedule when moving one.
+// `expected` is the schedule the client moved from; if someone has rescheduled
+// the section since, the write is rejected rather than overwriting their dates.
+export const setSchedule = mutation({
+  args: {
+    id: v.id("sections"),
+    draftDue: v.optional(v.string()),
+    reviewDue: v.optional(v.string()),
+    finalDue: v.optional(v.string()),
+    expected: v.optional(scheduleDates),
+  },
+  handler: async (ctx, args) => {
+    const userId = await betterAuthComponent.getAuthUserId(ctx);
+    if (!userId) {
+      throw new ConvexError("Not authenticated");
+    }
+
+    const { id, expected, ...schedule } = args;
+    const section = await getLiveSection(ctx, id);
+    if (expected && MILESTONES.some(milestone => section[milestone] !== expected[milestone])) {
+      throw new ConvexError(
+        "Someone else rescheduled this section since; check its dates and try again"
+      );
+    }
+    const error = scheduleError(schedule);
+    if (error) {
+      throw new ConvexError(error);
+    }
+
+    await ctx.db.patch(id, {
+      draftDue: schedule.draftDue,
+      reviewDue: schedule.reviewDue,
+      finalDue: schedule.finalDue,
+      updatedAt: Date.now(),
+    });
+  },
+});
+
+// Everything the section drawer edits in one save
+const sectionEdit = v.object({
+  header: v.string(),
+  type: v.string(),
+  target: v.number(),
+  limit: v.number(),
+  reviewerId: v.optional(v.string()),
+  status: sectionStatus,
+  draftDue: v.optional(v.string()),
+  reviewDue: v.optional(v.string()),
+  finalDue: v.optional(v.string()),
+});
+
+type SectionEdit = Infer<typeof sectionEdit>;
+
+const EDIT_FIELDS = [
+  "header",
+  "type",
+  "target",
+  "limit",
+  "reviewerId",
+  "status",
+  "draftDue",
+  "reviewDue",
+  "finalDue",
+] as const;
+
+// Whether the section currently holds exactly `values`
+function holdsEdit(section: Doc<"sections">, values: SectionEdit) {
+  return EDIT_FIELDS.every(field => section[field] === values[field]);
+}
+
+// Validate and write a drawer save. The status is written with `applyStatus`, so
+// callers check the workflow first where it applies.
+async function writeEdit(
+  ctx: MutationCtx,
+  section: Doc<"sections">,
+  values: SectionEdit,
+  userId: string
+) {
+  const header = values.header.trim();
+  if (!header) {
+    throw new ConvexError("Header is required");
+  }
+  assertValidMetric("Target", values.target);
+  assertValidMetric("Limit", values.limit);
+  const error =
+    scheduleError(values) ??
+    (values.status === "In Review" ? reviewerChangeError(section, values.reviewerId) : null);
+  if (error) {
+    throw new ConvexError(error);
+  }
+  if (values.reviewerId && values.reviewerId !== section.reviewerId) {
+    await notifyReviewer(ctx, { _id: section._id, header }, values.reviewerId, userId);
+  }
+
+  await ctx.db.patch(section._id, {
+    header,
+    type: values.type,
+    target: values.target,
+    limit: values.limit,
+    reviewerId: values.reviewerId,
+    draftDue: values.draftDue,
+    reviewDue: values.reviewDue,
+    finalDue: values.finalDue,
+    updatedAt: Date.now(),
+  });
+  await recordRevision(ctx, section._id, userId);
+  if (values.status !== section.status) {
+    await applyStatus(ctx, (await ctx.db.get(section._id))!, values.status, userId);
+  }
+}
+
+const EDIT_CONFLICT = "Someone else changed this section since; reopen it to see their changes";
+
+// Save the section drawer: fields, reviewer, due dates and status in one
+// transaction, so a status the workflow rejects leaves everything as it was.
+// `expected` guards a redo against edits made in between. Returns whether
+// anything changed.
+export const edit = mutation({
+  args: {
+    id: v.id("sections"),
+    values: sectionEdit,
+    expected: v.optional(sectionEdit),
+  },
+  handler: async (ctx, args) => {
+    const userId = await betterAuthComponent.getAuthUserId(ctx);
+    if (!userId) {
+      throw new ConvexError("Not authenticated");
+    }
+
+    const section = await getLiveSection(ctx, args.id);
+    if (args.expected && !holdsEdit(section, args.expected)) {
+      throw new ConvexError(EDIT_CONFLICT);
+    }
+    if (holdsEdit(section, args.values)) {
+      return false;
+    }
+    if (args.values.status !== section.status) {
+      // A reviewer assigned in the same save counts for sending to review, but
+      // only the reviewer assigned beforehand can approve or return a section
+      const checked =
+        section.status === "In Review"
+          ? section
+          : { ...section, reviewerId: args.values.reviewerId };
+      const error = transitionError(checked, args.values.status, userId);
+      if (error) {
+        throw new ConvexError(error);
+      }
+    }
+
+    await writeEdit(ctx, section, args.values, userId);
+    return true;
+  },
+});
+
+// Undo a drawer save by writing back `values`, provided the section still holds
+// `expected`, the values that save wrote. Like `revisions.restore`, this puts the
+// previous state back without the status workflow; the status change is still
+// recorded in statusChanges.
+export const revertEdit = mutation({
+  args: {
+    id: v.id("sections"),
+    values: sectionEdit,
+    expected: sectionEdit,
+  },
+  handler: async (ctx, args) => {
+    const userId = await betterAuthComponent.getAuthUserId(ctx);
+    if (!userId) {
+      throw new ConvexError("Not authenticated");
+    }
+
+    const section = await getLiveSection(ctx, args.id);
+    if (!holdsEdit(section, args.expected)) {
+      throw new ConvexError(EDIT_CONFLICT);
+    }
+
+    await writeEdit(ctx, section, args.values, userId);
+  },
+});
+
+// Save an inline Target or Limit edit. `expected` is the value the editor started
+// from; if someone else has changed the cell since, the write is rejected with a
+// conflict so the client can ask before overwriting.
+export const updateMetric = mutation({
+  args: {
+    id: v.id("sections"),
+    field: v.union(v.literal("target"), v.literal("limit")),
+    value: v.number(),
+    expected: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await betterAuthComponent.getAuthUserId(ctx);
+    if (!userId) {
+      throw new ConvexError("Not authenticated");
+    }
+
+    const section = await getLiveSection(ctx, args.id);
+
+    assertValidMetric(args.field === "target" ? "Target" : "Limit", args.value);
+
+    const current = section[args.field];
+    if (args.expected !== undefined && current !== args.expected) {
+      throw new ConvexError({ code: "conflict", field: args.field, current });
+    }
+
+    await ctx.db.patch(args.id, {
+      [args.field]: args.value,
+      updatedAt: Date.now(),
+    });
+    await recordRevision(ctx, args.id, userId);
+  },
+});
+
+// Delete a section in the trash for good. Sections still in the outline have to
+// be moved to the trash first.
+export const remove = mutation({
+  args: { id: v.id("sections") },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new ConvexError("Not authenticated");
+    }
+
+    const section = await ctx.db.get(args.id);
+    if (section === null) {
+      throw new ConvexError("Section not found");
+    }
+    if (section.trashedAt === undefined) {
+      throw new ConvexError("Move the section to the trash before deleting it for good");
+    }
+
+    await deleteSection(ctx, args.id);
+  },
+});
+
+// A proposal's sections in the trash, most recently deleted first
+export const trashed = query({
+  args: { proposalId: v.id("proposals") },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      return [];
+    }
+
+    return await ctx.db
+      .query("sections")
+      .withIndex("by_proposal_trashed", q => q.eq("proposalId", args.proposalId).gt("trashedAt", 0))
+      .order("desc")
+      .collect();
+  },
+});
+
+// Move a section to the trash. It keeps its content and links, and can be
+// restored until the purge job removes it.
+export const trash = mutation({
+  args: { id: v.id("sections") },
+  handler: async (ctx, args) => {
+    const userId = await betterAuthComponent.getAuthUserId(ctx);
+    if (!userId) {
+      throw new ConvexError("Not authenticated");
+    }
+
+    const section = await ctx.db.get(args.id);
+    if (section === null) {
+      throw new ConvexError("Section not found");
+    }
+    if (section.trashedAt !== undefined) {
+      return;
+    }
+
+    await ctx.db.patch(args.id, { trashedAt: Date.now(), trashedBy: userId });
+  },
+});
+
+// Take a section out of the trash, back into its old place in the outline
+export const restore = mutation({
+  args: { id: v.id("sections") },
+  handler: async (ctx, args) => {
+    const userId = await betterAuthComponent.getAuthUserId(ctx);
+    if (!userId) {
+      throw new ConvexError("Not authenticated");
+    }
+
+    const section = await ctx.db.get(args.id);
+    if (section === null) {
+      throw new ConvexError("Section was already purged from the trash");
+    }
+
+    await ctx.db.patch(args.id, { trashedAt: undefined, trashedBy: undefined });
+  },
+});
+
+// Sections purged per run, to stay inside a mutation's limits
+const PURGE_BATCH = 100;
+
+// Permanently delete sections that have been in the trash longer than the
+// retention period. Runs from convex/crons.ts and reschedules itself while
+// more expired sections remain.
+export const purgeTrash = internalMutation({
+  args: {},
+  handler: async ctx => {
+    const cutoff = Date.now() - TRASH_RETENTION_MS;
+    const expired = await ctx.db
+      .query("sections")
+      .withIndex("by_trashed", q => q.gt("trashedAt", 0).lt("trashedAt", cutoff))
+      .take(PURGE_BATCH);
+    for (const section of expired) {
+      await deleteSection(ctx, section._id);
+    }
+
+    if (expired.length === PURGE_BATCH) {
+      await ctx.scheduler.runAfter(0, internal.sections.purgeTrash, {});
+    }
+  },
+});
+
+// Delete a section together with its body, revisions, status history, checklist,
+// comments, past-performance citations, personnel assignments, document links
+// and favorites
+export async function deleteSection(ctx: MutationCtx, id: Id<"sections">) {
+  const statusChanges = await ctx.db
+    .query("statusChanges")
+    .withIndex("by_section", q => q.eq("sectionId", id))
+    .collect();
+  for (const change of statusChanges) {
+    await ctx.db.delete(change._id);
+  }
+  const citations = await ctx.db
+    .query("pastPerformanceLinks")
+    .withIndex("by_section", q => q.eq("sectionId", id))
+    .collect();
+  for (const citation of citations) {
+    await ctx.db.delete(citation._id);
+  }
+  const assignments = await ctx.db
+    .query("personnelAssignments")
+    .withIndex("by_section", q => q.eq("sectionId", id))
+    .collect();
+  for (const assignment of assignments) {
+    await ctx.db.delete(assignment._id);
+  }
+  const documentLinks = await ctx.db
+    .query("documentLinks")
+    .withIndex("by_section", q => q.eq("sectionId", id))
+    .collect();
+  for (const link of documentLinks) {
+    await ctx.db.delete(link._id);
+  }
+  const favorites = await ctx.db
+    .query("favorites")
+    .withIndex("by_section", q => q.eq("sectionId", id))
+    .collect();
+  for (const favorite of favorites) {
+    await ctx.db.delete(favorite._id);
+  }
+  await deleteChecklist(ctx, id);
+  await deleteComments(ctx, id);
+  await deleteRevisions(ctx, id);
+
+  const content = await ctx.db
+    .query("sectionContents")
+    .withIndex("by_section", q => q.eq("sectionId", id))
+    .unique();
+  if (content) {
+    await ctx.db.delete(content._id);
+  }
+
+  await ctx.db.delete(id);
+}
+
+// Order key that places a new section at the end of a proposal's outline
+export async function nextOrder(ctx: MutationCtx, proposalId: Id<"proposals"> | undefined) {
+  const last = await ctx.db
+    .query("sections")
+    .withIndex("by_order", q => q.eq("proposalId", proposalId))
+    .order("desc")
+    .first();
+  return orderBetween(last?.order, undefined);
+}
+
+// Order keys of the rows a section would sit between once placed below `afterId`,
+// or above `beforeId` when only that is given, within the section's own outline.
+// Sections in the trash keep their keys but are skipped as neighbours.
+async function neighbourOrders(
+  ctx: MutationCtx,
+  section: Doc<"sections">,
+  afterId?: Id<"sections">,
+  beforeId?: Id<"sections">
+) {
+  if (!afterId && beforeId) {
+    const before = await getLiveSection(ctx, beforeId);
+    const above = await ctx.db
+      .query("sections")
+      .withIndex("by_order", q => q.eq("proposalId", section.proposalId).lt("order", before.order))
+      .order("desc")
+      .filter(q => q.and(q.neq(q.field("_id"), section._id), q.eq(q.field("trashedAt"), undefined)))
+      .first();
+    return { prev: above?.order, next: before.order };
+  }
+
+  let prev: number | undefined;
+  if (afterId) {
+    prev = (await getLiveSection(ctx, afterId)).order;
+  }
+
+  const below = await ctx.db
+    .query("sections")
+    .withIndex("by_order", q => {
+      const range = q.eq("proposalId", section.proposalId);
+      return prev === undefined ? range : range.gt("order", prev);
+    })
+    .filter(q => q.and(q.neq(q.field("_id"), section._id), q.eq(q.field("trashedAt"), undefined)))
+    .first();
+
+  return { prev, next: below?.order };
+}
+
+// Rows renumbered on either side of a crowded gap, doubled until their keys fit
+const REBALANCE_WINDOW = 32;
+
+// Most rows renumbered on either side, to stay inside a mutation's limits
+const REBALANCE_MAX = 1024;
+
+// Renumber the outline's live sections around `order` with evenly spaced keys,
+// keeping the current order. Only a window of rows is rewritten, widened until
+// the rows just outside it leave enough room; sections in the trash keep their keys.
+async function rebalance(ctx: MutationCtx, proposalId: Id<"proposals"> | undefined, order: number) {
+  for (let size = REBALANCE_WINDOW; size <= REBALANCE_MAX; size *= 2) {
+    const above = await ctx.db
+      .query("sections")
+      .withIndex("by_order", q => q.eq("proposalId", proposalId).lte("order", order))
+      .order("desc")
+      .filter(q => q.eq(q.field("trashedAt"), undefined))
+      .take(size + 1);
+    const below = await ctx.db
+      .query("sections")
+      .withIndex("by_order", q => q.eq("proposalId", proposalId).gt("order", order))
+      .filter(q => q.eq(q.field("trashedAt"), undefined))
+      .take(size + 1);
+
+    const rows = [...above.slice(0, size).reverse(), ...below.slice(0, size)];
+    const keys = spreadKeys(above[size]?.order, below[size]?.order, rows.length);
+    if (keys) {
+      for (const [index, section] of rows.entries()) {
+        await ctx.db.patch(section._id, { order: keys[index] });
+      }
+      return;
+    }
+  }
+  throw new ConvexError("The outline is too crowded here to move the section");
+}
+
+// Move a section directly below `afterId`, directly above `beforeId`, or to the top
+// when neither is given. `beforeId` lets a paginated view drop a row at the top of
+// a page without knowing the row on the previous page. The neighbours are
+// resolved inside the transaction, so the result is consistent even if other rows
+// were moved since the client last rendered.
+export const move = mutation({
+  args: {
+    id: v.id("sections"),
+    afterId: v.optional(v.id("sections")),
+    beforeId: v.optional(v.id("sections")),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new ConvexError("Not authenticated");
+    }
+
+    const section = await getLiveSection(ctx, args.id);
+    if (args.afterId === args.id || args.beforeId === args.id) {
+      return;
+    }
+
+    let { prev, next } = await neighbourOrders(ctx, section, args.afterId, args.beforeId);
+    if (needsRebalance(prev, next)) {
+      await rebalance(ctx, section.proposalId, prev!);
+      ({ prev, next } = await neighbourOrders(ctx, section, args.afterId, args.beforeId));
+    }
+
+    await ctx.db.patch(args.id, {
+      order: orderBetween(prev, next),
+      updatedAt: Date.now(),
+    });
+  },
+});
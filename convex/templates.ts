@@ -0,0 +1,128 @@
+import { query, mutation, type MutationCtx } from "./_generated/server";
+import type { Id } from "./_generated/dataModel";
+import { ConvexError, v, type Infer } from "convex/values";
+import { betterAuthComponent } from "./auth";
+import { cleanChecklist } from "./checklists";
+import { STARTER_TEMPLATES } from "./lib/templates";
+import { assertValidMetric } from "./sections";
+import { templateFields } from "./schema";
+
+const template = v.object(templateFields);
+type TemplateFields = Infer<typeof template>;
+
+// Keep well below Convex's 1 MB document limit
+const MAX_HTML_LENGTH = 100_000;
+
+// Trim a template's fields and reject invalid ones
+function cleanTemplate(fields: TemplateFields): TemplateFields {
+  const name = fields.name.trim();
+  if (!name) {
+    throw new ConvexError("Template name is required");
+  }
+  if (!fields.type.trim()) {
+    throw new ConvexError("Section type is required");
+  }
+  assertValidMetric("Target", fields.target);
+  assertValidMetric("Limit", fields.limit);
+  if (fields.html.length > MAX_HTML_LENGTH) {
+    throw new ConvexError("Starter content is too long");
+  }
+
+  return { ...fields, name, checklist: cleanChecklist(fields.checklist) };
+}
+
+async function getTemplate(ctx: MutationCtx, id: Id<"sectionTemplates">) {
+  const existing = await ctx.db.get(id);
+  if (existing === null) {
+    throw new ConvexError("Template not found");
+  }
+  return existing;
+}
+
+// Every template in the library, by name
+export const list = query({
+  args: {},
+  handler: async ctx => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      return [];
+    }
+
+    return await ctx.db.query("sectionTemplates").withIndex("by_name").collect();
+  },
+});
+
+// Add a template to the library
+export const create = mutation({
+  args: templateFields,
+  handler: async (ctx, args) => {
+    const userId = await betterAuthComponent.getAuthUserId(ctx);
+    if (!userId) {
+      throw new ConvexError("Not authenticated");
+    }
+
+    return await ctx.db.insert("sectionTemplates", {
+      ...cleanTemplate(args),
+      createdBy: userId,
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+    });
+  },
+});
+
+// Replace a template's fields. Sections already created from it keep their copy.
+export const update = mutation({
+  args: { id: v.id("sectionTemplates"), ...templateFields },
+  handler: async (ctx, args) => {
+    const userId = await betterAuthComponent.getAuthUserId(ctx);
+    if (!userId) {
+      throw new ConvexError("Not authenticated");
+    }
+
+    const { id, ...fields } = args;
+    await getTemplate(ctx, id);
+    await ctx.db.patch(id, { ...cleanTemplate(fields), updatedAt: Date.now() });
+  },
+});
+
+// Remove a template from the library
+export const remove = mutation({
+  args: { id: v.id("sectionTemplates") },
+  handler: async (ctx, args) => {
+    const userId = await betterAuthComponent.getAuthUserId(ctx);
+    if (!userId) {
+      throw new ConvexError("Not authenticated");
+    }
+
+    await getTemplate(ctx, args.id);
+    await ctx.db.delete(args.id);
+  },
+});
+
+// Add the built-in starter templates whose names are not in the library yet
+export const installStarters = mutation({
+  args: {},
+  handler: async ctx => {
+    const userId = await betterAuthComponent.getAuthUserId(ctx);
+    if (!userId) {
+      throw new ConvexError("Not authenticated");
+    }
+
+    const existing = await ctx.db.query("sectionTemplates").collect();
+    const names = new Set(existing.map(item => item.name));
+    let installed = 0;
+    for (const starter of STARTER_TEMPLATES) {
+      if (names.has(starter.name)) {
+        continue;
+      }
+      await ctx.db.insert("sectionTemplates", {
+        ...starter,
+        createdBy: userId,
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+      });
+      installed++;
+    }
+    return installed;
+  },
+});
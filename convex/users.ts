@@ -1,7 +1,45 @@
-import { query, mutation } from "./_generated/server";
+import { query, mutation, type QueryCtx } from "./_generated/server";
 import { ConvexError, v } from "convex/values";
+import { components } from "./_generated/api";
 import { betterAuthComponent } from "./auth";
 
+// Public profile of a workspace member, keyed by Better Auth user.userId
+export type Member = {
+  userId: string;
+  name: string;
+  email: string;
+  image: string | null;
+};
+
+// The Better Auth user fields a member profile is built from
+interface AuthUser {
+  userId?: string | null;
+  name: string;
+  email: string;
+  image?: string | null;
+}
+
+// Most members `listMembers` returns
+const MEMBERS_MAX = 500;
+
+function toMember(user: AuthUser & { userId: string }): Member {
+  return {
+    userId: user.userId,
+    name: user.name,
+    email: user.email,
+    image: user.image ?? null,
+  };
+}
+
+// Look up a single member, or null if the user does not exist
+export async function getMember(ctx: QueryCtx, userId: string): Promise<Member | null> {
+  const user: AuthUser | null = await ctx.runQuery(components.betterAuth.lib.findOne, {
+    model: "user",
+    where: [{ field: "userId", value: userId }],
+  });
+  return user ? toMember({ ...user, userId }) : null;
+}
+
 // Get current user preferences
 export const getCurrentUserPreferences = query({
   args: {},
@@ -99,3 +137,29 @@ export const createTask = mutation({
     return taskId;
   },
 });
+
+// List workspace members (users managed by Better Auth) for reviewer pickers;
+// `truncated` is set when there are more than MEMBERS_MAX
+export const listMembers = query({
+  args: {},
+  handler: async ctx => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      return { members: [], truncated: false };
+    }
+
+    const result = await ctx.runQuery(components.betterAuth.lib.findMany, {
+      model: "user",
+      paginationOpts: { cursor: null, numItems: MEMBERS_MAX },
+    });
+
+    const users: AuthUser[] = result.page;
+    return {
+      members: users
+        .filter((user): user is AuthUser & { userId: string } => Boolean(user.userId))
+        .map(toMember)
+        .sort((a, b) => a.name.localeCompare(b.name)),
+      truncated: !result.isDone,
+    };
+  },
+});
@@ -0,0 +1,155 @@
+import { query, mutation, type MutationCtx } from "./_generated/server";
+import type { Id } from "./_generated/dataModel";
+import { ConvexError, v } from "convex/values";
+import { betterAuthComponent } from "./auth";
+import { tableLayout } from "./lib/listing";
+
+// Longest allowed view name
+const NAME_MAX = 60;
+
+function cleanName(name: string) {
+  const trimmed = name.trim();
+  if (!trimmed || trimmed.length > NAME_MAX) {
+    throw new ConvexError(`View name must be between 1 and ${NAME_MAX} characters`);
+  }
+  return trimmed;
+}
+
+// Load a view the user owns, for changes only its owner may make
+async function getOwnView(ctx: MutationCtx, id: Id<"tableViews">, userId: string) {
+  const view = await ctx.db.get(id);
+  if (view === null) {
+    throw new ConvexError("View not found");
+  }
+  if (view.ownerId !== userId) {
+    throw new ConvexError("Only the owner can change this view");
+  }
+  return view;
+}
+
+// The user's own views plus views shared by teammates, and the user's default
+export const list = query({
+  args: {},
+  handler: async ctx => {
+    const userId = await betterAuthComponent.getAuthUserId(ctx);
+    if (!userId) {
+      return { views: [], defaultViewId: null };
+    }
+
+    const own = await ctx.db
+      .query("tableViews")
+      .withIndex("by_owner", q => q.eq("ownerId", userId))
+      .collect();
+    const shared = await ctx.db
+      .query("tableViews")
+      .withIndex("by_shared", q => q.eq("shared", true))
+      .collect();
+    const preferred = await ctx.db
+      .query("defaultViews")
+      .withIndex("by_user", q => q.eq("userId", userId))
+      .unique();
+
+    const views = [...own, ...shared.filter(view => view.ownerId !== userId)]
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map(view => ({ ...view, mine: view.ownerId === userId }));
+    return { views, defaultViewId: preferred?.viewId ?? null };
+  },
+});
+
+// Save the current layout as a new view
+export const create = mutation({
+  args: { name: v.string(), shared: v.boolean(), layout: tableLayout },
+  handler: async (ctx, args) => {
+    const userId = await betterAuthComponent.getAuthUserId(ctx);
+    if (!userId) {
+      throw new ConvexError("Not authenticated");
+    }
+
+    return await ctx.db.insert("tableViews", {
+      name: cleanName(args.name),
+      ownerId: userId,
+      shared: args.shared,
+      layout: args.layout,
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+    });
+  },
+});
+
+// Rename, share or overwrite the layout of one of the user's views
+export const update = mutation({
+  args: {
+    id: v.id("tableViews"),
+    name: v.optional(v.string()),
+    shared: v.optional(v.boolean()),
+    layout: v.optional(tableLayout),
+  },
+  handler: async (ctx, args) => {
+    const userId = await betterAuthComponent.getAuthUserId(ctx);
+    if (!userId) {
+      throw new ConvexError("Not authenticated");
+    }
+
+    await getOwnView(ctx, args.id, userId);
+    const { id, ...fields } = args;
+    if (fields.name !== undefined) {
+      fields.name = cleanName(fields.name);
+    }
+
+    await ctx.db.patch(id, { ...fields, updatedAt: Date.now() });
+  },
+});
+
+// Delete one of the user's views. Anyone using it as their default falls back
+// to the built-in layout.
+export const remove = mutation({
+  args: { id: v.id("tableViews") },
+  handler: async (ctx, args) => {
+    const userId = await betterAuthComponent.getAuthUserId(ctx);
+    if (!userId) {
+      throw new ConvexError("Not authenticated");
+    }
+
+    await getOwnView(ctx, args.id, userId);
+    const defaults = await ctx.db
+      .query("defaultViews")
+      .withIndex("by_view", q => q.eq("viewId", args.id))
+      .collect();
+    for (const entry of defaults) {
+      await ctx.db.delete(entry._id);
+    }
+    await ctx.db.delete(args.id);
+  },
+});
+
+// Choose the view the table opens with, or clear it with `null`
+export const setDefault = mutation({
+  args: { id: v.union(v.id("tableViews"), v.null()) },
+  handler: async (ctx, args) => {
+    const userId = await betterAuthComponent.getAuthUserId(ctx);
+    if (!userId) {
+      throw new ConvexError("Not authenticated");
+    }
+
+    if (args.id !== null) {
+      const view = await ctx.db.get(args.id);
+      if (view === null || (view.ownerId !== userId && !view.shared)) {
+        throw new ConvexError("View not found");
+      }
+    }
+
+    const existing = await ctx.db
+      .query("defaultViews")
+      .withIndex("by_user", q => q.eq("userId", userId))
+      .unique();
+    if (args.id === null) {
+      if (existing) {
+        await ctx.db.delete(existing._id);
+      }
+    } else if (existing) {
+      await ctx.db.patch(existing._id, { viewId: args.id });
+    } else {
+      await ctx.db.insert("defaultViews", { userId, viewId: args.id });
+    }
+  },
+});
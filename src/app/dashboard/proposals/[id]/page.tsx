@@ -0,0 +1,37 @@
+import { Suspense } from "react";
+import { fetchQuery } from "convex/nextjs";
+import { notFound } from "next/navigation";
+
+import { ChartAreaInteractive } from "@/components/chart-area-interactive";
+import { DataTable } from "@/components/data-table";
+import { ProposalHeader } from "@/components/proposal-header";
+import { ProposalProvider } from "@/components/proposal-provider";
+import { SectionCards } from "@/components/section-cards";
+import { UndoHistoryProvider } from "@/components/undo-history-provider";
+import { api } from "../../../../../convex/_generated/api";
+
+export default async function ProposalPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const proposalId = await fetchQuery(api.proposals.parseId, { id });
+  if (proposalId === null) {
+    notFound();
+  }
+
+  return (
+    <ProposalProvider proposalId={proposalId}>
+      <div className="flex flex-col gap-4 py-4 md:gap-6 md:py-6">
+        <ProposalHeader />
+        <SectionCards />
+        <div className="px-4 lg:px-6">
+          <ChartAreaInteractive />
+        </div>
+        {/* The table reads its filters from the URL search params */}
+        <UndoHistoryProvider>
+          <Suspense>
+            <DataTable />
+          </Suspense>
+        </UndoHistoryProvider>
+      </div>
+    </ProposalProvider>
+  );
+}
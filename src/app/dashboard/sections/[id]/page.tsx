@@ -0,0 +1,19 @@
+import { fetchQuery } from "convex/nextjs";
+import { notFound } from "next/navigation";
+
+import { SectionEditor } from "@/components/section-editor";
+import { api } from "../../../../../convex/_generated/api";
+
+export default async function SectionPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const sectionId = await fetchQuery(api.sections.parseId, { id });
+  if (sectionId === null) {
+    notFound();
+  }
+
+  return (
+    <div className="flex flex-col gap-4 py-4 md:gap-6 md:py-6">
+      <SectionEditor sectionId={sectionId} />
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+"use client";
+
+import * as React from "react";
+import { IconChevronDown, IconFile, IconPlus, IconSettings } from "@tabler/icons-react";
+import { useMutation, useQuery } from "convex/react";
+import { toast } from "sonner";
+
+import { api } from "../../convex/_generated/api";
+import type { Doc } from "../../convex/_generated/dataModel";
+
+import { useProposalId } from "@/components/proposal-provider";
+import { TemplateLibraryDialog } from "@/components/template-library-dialog";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+
+// "Add Section" picker: start from a library template or a blank section
+export function AddSectionMenu() {
+  const proposalId = useProposalId();
+  const templates = useQuery(api.templates.list);
+  const createSection = useMutation(api.sections.create);
+  const installStarters = useMutation(api.templates.installStarters);
+  const [isManaging, setIsManaging] = React.useState(false);
+
+  const addFrom = (template: Doc<"sectionTemplates"> | null) =>
+    toast.promise(
+      createSection(
+        template
+          ? { proposalId, header: template.name, templateId: template._id }
+          : { proposalId, header: "Untitled section", type: "Narrative" }
+      ),
+      {
+        loading: "Adding section",
+        success: "Section added",
+        error: "Failed to add section",
+      }
+    );
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm">
+            <IconPlus />
+            <span className="hidden lg:inline">Add Section</span>
+            <IconChevronDown />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-60">
+          <DropdownMenuItem onClick={() => addFrom(null)}>
+            <IconFile />
+            Blank section
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuLabel>From a template</DropdownMenuLabel>
+          {templates?.map(template => (
+            <DropdownMenuItem key={template._id} onClick={() => addFrom(template)}>
+              <span className="truncate">{template.name}</span>
+              <span className="text-muted-foreground ml-auto text-xs">{template.type}</span>
+            </DropdownMenuItem>
+          ))}
+          {templates?.length === 0 && (
+            <DropdownMenuItem
+              onClick={() =>
+                toast.promise(installStarters(), {
+                  loading: "Adding starter templates",
+                  success: count => `Added ${count} starter templates`,
+                  error: "Failed to add starter templates",
+                })
+              }
+            >
+              <IconPlus />
+              Add starter templates
+            </DropdownMenuItem>
+          )}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={() => setIsManaging(true)}>
+            <IconSettings />
+            Manage templates...
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <TemplateLibraryDialog open={isManaging} onOpenChange={setIsManaging} />
+    </>
+  );
+}
@@ -0,0 +1,170 @@
+"use client";
+
+import {
+  IconCategory,
+  IconCopy,
+  IconDownload,
+  IconProgressCheck,
+  IconTrash,
+  IconUserCheck,
+  IconX,
+} from "@tabler/icons-react";
+import { useMutation, useQuery } from "convex/react";
+
+import { api } from "../../convex/_generated/api";
+import type { Doc } from "../../convex/_generated/dataModel";
+import { SECTION_STATUSES } from "../../convex/lib/workflow";
+
+import { useBulkAction, type BulkAction } from "@/hooks/use-bulk-action";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { downloadFile, toCsv, toExportRows } from "@/lib/export";
+import { SECTION_TYPES } from "@/lib/sections";
+
+// Actions for the rows selected in the DataTable. Every action is a single Convex
+// mutation, recorded in the undo history, and its toast offers a one-click undo
+// of the whole batch.
+export function BulkActionBar({
+  sections,
+  onClear,
+}: {
+  sections: Doc<"sections">[];
+  onClear: () => void;
+}) {
+  const members = useQuery(api.users.listMembers);
+  const setStatus = useMutation(api.bulk.setStatus);
+  const assignReviewer = useMutation(api.bulk.assignReviewer);
+  const setType = useMutation(api.bulk.setType);
+  const duplicate = useMutation(api.bulk.duplicate);
+  const remove = useMutation(api.bulk.remove);
+  const runBulk = useBulkAction();
+
+  if (sections.length === 0) {
+    return null;
+  }
+
+  const ids = sections.map(section => section._id);
+  const count = `${sections.length} section${sections.length === 1 ? "" : "s"}`;
+
+  const run = (label: string, action: BulkAction) => runBulk(label, ids, action);
+
+  const exportCsv = () => {
+    const reviewerName = (userId?: string) =>
+      members?.members.find(member => member.userId === userId)?.name ?? "";
+    downloadFile("sections.csv", toCsv(toExportRows(sections, reviewerName)), "text/csv");
+  };
+
+  return (
+    <div className="bg-muted/50 flex flex-wrap items-center gap-2 rounded-lg border px-3 py-2">
+      <span className="text-sm font-medium">{count} selected</span>
+      <div className="ml-auto flex flex-wrap items-center gap-2">
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm">
+              <IconProgressCheck />
+              Status
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            {SECTION_STATUSES.map(status => (
+              <DropdownMenuItem
+                key={status}
+                onClick={() => run(`Moved to ${status}:`, ids => setStatus({ ids, status }))}
+              >
+                {status}
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm">
+              <IconUserCheck />
+              Reviewer
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end" className="max-h-72 overflow-y-auto">
+            {members?.members.map(member => (
+              <DropdownMenuItem
+                key={member.userId}
+                onClick={() =>
+                  run("Assigned reviewer to", ids =>
+                    assignReviewer({ ids, reviewerId: member.userId })
+                  )
+                }
+              >
+                {member.name}
+              </DropdownMenuItem>
+            ))}
+            {members?.truncated && (
+              <DropdownMenuLabel className="text-muted-foreground text-xs font-normal">
+                Showing the first {members.members.length} members
+              </DropdownMenuLabel>
+            )}
+            <DropdownMenuSeparator />
+            <DropdownMenuItem
+              onClick={() =>
+                run("Cleared reviewer on", ids => assignReviewer({ ids, reviewerId: null }))
+              }
+            >
+              Unassign
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm">
+              <IconCategory />
+              Type
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            {SECTION_TYPES.map(type => (
+              <DropdownMenuItem
+                key={type}
+                onClick={() => run("Changed type of", ids => setType({ ids, type }))}
+              >
+                {type}
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => run("Duplicated", ids => duplicate({ ids }))}
+        >
+          <IconCopy />
+          Duplicate
+        </Button>
+        <Button variant="outline" size="sm" onClick={exportCsv}>
+          <IconDownload />
+          Export
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          className="text-destructive"
+          onClick={async () => {
+            await run("Moved to the trash:", ids => remove({ ids }));
+            onClear();
+          }}
+        >
+          <IconTrash />
+          Delete
+        </Button>
+        <Button variant="ghost" size="icon" className="size-8" onClick={onClear}>
+          <IconX />
+          <span className="sr-only">Clear selection</span>
+        </Button>
+      </div>
+    </div>
+  );
+}
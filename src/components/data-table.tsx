@@ -5,6 +5,7 @@ import {
   closestCenter,
   DndContext,
   KeyboardSensor,
+  MeasuringStrategy,
   MouseSensor,
   TouchSensor,
   useSensor,
@@ -21,39 +22,92 @@ import {
 } from "@dnd-kit/sortable";
 import { CSS } from "@dnd-kit/utilities";
 import {
+  IconAlertTriangle,
+  IconArrowBackUp,
+  IconArrowDown,
+  IconArrowForwardUp,
+  IconArrowUp,
+  IconArrowsSort,
   IconChevronDown,
+  IconChevronUp,
   IconChevronLeft,
   IconChevronRight,
   IconChevronsLeft,
   IconChevronsRight,
   IconCircleCheckFilled,
+  IconCircleDashed,
+  IconClockExclamation,
   IconDotsVertical,
+  IconEye,
+  IconFileText,
   IconGripVertical,
   IconLayoutColumns,
   IconLoader,
-  IconPlus,
+  IconMessage,
+  IconStarFilled,
   IconTrendingUp,
 } from "@tabler/icons-react";
 import {
+  Column,
   ColumnDef,
   ColumnFiltersState,
+  ColumnOrderState,
   flexRender,
   getCoreRowModel,
-  getFacetedRowModel,
-  getFacetedUniqueValues,
-  getFilteredRowModel,
-  getPaginationRowModel,
-  getSortedRowModel,
   Row,
   SortingState,
   useReactTable,
   VisibilityState,
 } from "@tanstack/react-table";
+import type { OptimisticLocalStore } from "convex/browser";
+import type { FunctionArgs } from "convex/server";
+import { useMutation, useQuery } from "convex/react";
+import { ConvexError } from "convex/values";
 import { Area, AreaChart, CartesianGrid, XAxis } from "recharts";
 import { toast } from "sonner";
-import { z } from "zod";
+import Link from "next/link";
 
+import { api } from "../../convex/_generated/api";
+import type { Doc, Id } from "../../convex/_generated/dataModel";
+import { isOverLimit, pagesFor } from "../../convex/lib/budget";
+import {
+  DEFAULT_SORT,
+  SORT_FIELDS,
+  type SectionFilters,
+  type SectionSort,
+  type SortField,
+  type TableLayout,
+} from "../../convex/lib/listing";
+import { orderBetween } from "../../convex/lib/ordering";
+import {
+  MILESTONES,
+  milestoneLabels,
+  overdueMilestone,
+  scheduleError,
+  todayIso,
+} from "../../convex/lib/schedule";
+import { TRASH_RETENTION_DAYS } from "../../convex/lib/trash";
+import { STATUS_TRANSITIONS, transitionError } from "../../convex/lib/workflow";
+
+import { useBulkAction } from "@/hooks/use-bulk-action";
+import { useCellGrid, type CellRange } from "@/hooks/use-cell-grid";
 import { useIsMobile } from "@/hooks/use-mobile";
+import { useSectionFilters } from "@/hooks/use-section-filters";
+import { SHOW_ALL, useSectionPages } from "@/hooks/use-section-pages";
+import { useVirtualRows } from "@/hooks/use-virtual-rows";
+import { EXPORT_COLUMNS, toTsv, type ExportColumn } from "@/lib/export";
+import { parseDelimited } from "@/lib/import";
+import { formatDueDate } from "@/lib/proposals";
+import { SECTION_TYPES, scheduleSchema, sectionSchema } from "@/lib/sections";
+import { AddSectionMenu } from "@/components/add-section-menu";
+import { BulkActionBar } from "@/components/bulk-action-bar";
+import { ExportMenu } from "@/components/export-menu";
+import { FocusDocuments } from "@/components/focus-documents";
+import { ImportSectionsDialog } from "@/components/import-sections-dialog";
+import { KeyPersonnel } from "@/components/key-personnel";
+import { PastPerformanceTable } from "@/components/past-performance-table";
+import { SavedViewsMenu } from "@/components/saved-views-menu";
+import { SectionFilterToolbar } from "@/components/section-filter-toolbar";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import {
@@ -71,7 +125,6 @@ import {
   DrawerFooter,
   DrawerHeader,
   DrawerTitle,
-  DrawerTrigger,
 } from "@/components/ui/drawer";
 import {
   DropdownMenu,
@@ -91,6 +144,17 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Separator } from "@/components/ui/separator";
+import { SectionBoard } from "@/components/section-board";
+import { SectionCalendar } from "@/components/section-calendar";
+import { SectionChecklist } from "@/components/section-checklist";
+import { SectionCitations } from "@/components/section-citations";
+import { SectionComments } from "@/components/section-comments";
+import { SectionDocuments } from "@/components/section-documents";
+import { SectionBudget } from "@/components/section-budget";
+import { SectionHistory } from "@/components/section-history";
+import { SectionTimeline } from "@/components/section-timeline";
+import { SectionTrashDialog } from "@/components/section-trash-dialog";
+import { useUndoHistory, type HistoryEntry } from "@/components/undo-history-provider";
 import {
   Table,
   TableBody,
@@ -100,21 +164,63 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+
+type Section = Doc<"sections">;
 
-export const schema = z.object({
-  id: z.number(),
-  header: z.string(),
-  type: z.string(),
-  status: z.string(),
-  target: z.string(),
-  limit: z.string(),
-  reviewer: z.string(),
-});
+// Apply `update` to every loaded page of the outline, for optimistic updates
+function updateLoadedPages(
+  localStore: OptimisticLocalStore,
+  update: (page: Section[], args: (typeof api.sections.page)["_args"]) => Section[]
+) {
+  for (const { args, value } of localStore.getAllQueries(api.sections.page)) {
+    if (value) {
+      localStore.setQuery(api.sections.page, args, { ...value, page: update(value.page, args) });
+    }
+  }
+}
+
+// Table sorting state as the server sort argument. Only one column sorts at a time.
+function toSectionSort(sorting: SortingState): SectionSort {
+  const [first] = sorting;
+  if (!first || !SORT_FIELDS.includes(first.id as SortField)) {
+    return DEFAULT_SORT;
+  }
+  return { field: first.id as SortField, desc: first.desc };
+}
+
+// Layout of the table before any view is applied
+const DEFAULT_LAYOUT: TableLayout = {
+  columnVisibility: {},
+  columnOrder: [],
+  sort: DEFAULT_SORT,
+  filters: {},
+  pageSize: 10,
+};
+
+// SHOW_ALL loads the whole outline into one scrolling list as it is scrolled
+const PAGE_SIZES = [10, 20, 30, 40, 50, 100, 500, 1000, SHOW_ALL];
+
+// Pages longer than this render only the rows in view, in a scrolling table
+const VIRTUALIZE_AFTER = 100;
+
+// Start loading the next batch of the show-all list this many rows before its end
+const LOAD_AHEAD = 50;
+
+// Server filters as table column filter state, so the table reflects the URL
+function toColumnFilters(filters: SectionFilters): ColumnFiltersState {
+  return [
+    { id: "type", value: filters.types },
+    { id: "status", value: filters.statuses },
+    { id: "reviewer", value: filters.reviewerIds },
+  ].filter(filter => filter.value?.length);
+}
 
 // Create a separate component for the drag handle
-function DragHandle({ id }: { id: number }) {
+function DragHandle({ id, disabled }: { id: string; disabled: boolean }) {
   const { attributes, listeners } = useSortable({
     id,
+    disabled,
   });
 
   return (
@@ -123,6 +229,8 @@ function DragHandle({ id }: { id: number }) {
       {...listeners}
       variant="ghost"
       size="icon"
+      disabled={disabled}
+      title={disabled ? "Clear sorting and search to reorder" : undefined}
       className="text-muted-foreground size-7 hover:bg-transparent"
     >
       <IconGripVertical className="text-muted-foreground size-3" />
@@ -131,11 +239,337 @@ function DragHandle({ id }: { id: number }) {
   );
 }
 
-const columns: ColumnDef<z.infer<typeof schema>>[] = [
+// Column header that toggles the server sort for its column
+function SortableHeader({
+  column,
+  title,
+  className,
+}: {
+  column: Column<Section>;
+  title: string;
+  className?: string;
+}) {
+  const sorted = column.getIsSorted();
+
+  return (
+    <div className={className}>
+      <Button
+        variant="ghost"
+        size="sm"
+        className="-mx-3 h-8"
+        onClick={() => column.toggleSorting(sorted === "asc")}
+      >
+        {title}
+        {sorted === "asc" ? (
+          <IconArrowUp />
+        ) : sorted === "desc" ? (
+          <IconArrowDown />
+        ) : (
+          <IconArrowsSort className="text-muted-foreground" />
+        )}
+      </Button>
+    </div>
+  );
+}
+
+type MetricField = "target" | "limit";
+
+const metricLabels: Record<MetricField, string> = {
+  target: "Target",
+  limit: "Limit",
+};
+
+// Inline Target / Limit editor. Saves optimistically on Enter and reverts to the
+// server value if the save fails or the user leaves the cell without saving.
+function MetricCell({ section, field }: { section: Section; field: MetricField }) {
+  const serverValue = section[field];
+  const [value, setValue] = React.useState(String(serverValue));
+  // Server value at the moment editing started, used for conflict detection
+  const editBase = React.useRef<number | null>(null);
+  const history = useUndoHistory();
+
+  const updateMetric = useMutation(api.sections.updateMetric).withOptimisticUpdate(
+    (localStore, args) =>
+      updateLoadedPages(localStore, page =>
+        page.map(item => (item._id === args.id ? { ...item, [args.field]: args.value } : item))
+      )
+  );
+
+  React.useEffect(() => {
+    if (editBase.current === null) {
+      setValue(String(serverValue));
+    }
+  }, [serverValue]);
+
+  // Undo and redo only apply if nobody changed the value since
+  const replay = (value: number, expected: number) =>
+    updateMetric({ id: section._id, field, value, expected }).catch(error => {
+      throw error instanceof ConvexError && error.data?.code === "conflict"
+        ? new ConvexError(`${metricLabels[field]} was changed by someone else`)
+        : error;
+    });
+
+  const save = async (next: number, expected?: number) => {
+    editBase.current = null;
+    try {
+      await updateMetric({ id: section._id, field, value: next, expected });
+      const previous = expected ?? serverValue;
+      history.record({
+        label: `Edit ${metricLabels[field]} of ${section.header}`,
+        undo: () => replay(previous, next),
+        redo: () => replay(next, previous),
+      });
+      toast.success(`Saved ${section.header}`);
+    } catch (error) {
+      if (error instanceof ConvexError && error.data?.code === "conflict") {
+        const current = error.data.current as number;
+        setValue(String(current));
+        toast.warning(`${metricLabels[field]} was changed to ${current} by someone else`, {
+          description: `Your value was ${next}.`,
+          action: {
+            label: "Overwrite",
+            onClick: () => {
+              setValue(String(next));
+              void save(next, current);
+            },
+          },
+        });
+        return;
+      }
+      setValue(String(serverValue));
+      toast.error(error instanceof ConvexError ? String(error.data) : "Failed to save");
+    }
+  };
+
+  return (
+    <form
+      onSubmit={e => {
+        e.preventDefault();
+        const parsed = sectionSchema.shape[field].safeParse(value);
+        if (!parsed.success) {
+          toast.error(`${metricLabels[field]} must be a whole number`);
+          return;
+        }
+        if (parsed.data === serverValue) {
+          editBase.current = null;
+          return;
+        }
+        void save(parsed.data, editBase.current ?? serverValue);
+      }}
+    >
+      <Label htmlFor={`${section._id}-${field}`} className="sr-only">
+        {metricLabels[field]}
+      </Label>
+      <Input
+        className="hover:bg-input/30 focus-visible:bg-background dark:hover:bg-input/30 dark:focus-visible:bg-input/30 h-8 w-16 border-transparent bg-transparent text-right shadow-none focus-visible:border dark:bg-transparent"
+        inputMode="numeric"
+        value={value}
+        onChange={e => setValue(e.target.value)}
+        onFocus={() => {
+          editBase.current ??= serverValue;
+        }}
+        onBlur={() => {
+          if (editBase.current !== null) {
+            editBase.current = null;
+            setValue(String(serverValue));
+          }
+        }}
+        id={`${section._id}-${field}`}
+      />
+    </form>
+  );
+}
+
+function ReviewerCell({ section }: { section: Section }) {
+  const members = useQuery(api.users.listMembers);
+  const assignReviewer = useMutation(api.sections.assignReviewer);
+
+  if (section.reviewerId) {
+    const reviewer = members?.members.find(member => member.userId === section.reviewerId);
+    return reviewer?.name ?? "Unknown user";
+  }
+
+  return (
+    <>
+      <Label htmlFor={`${section._id}-reviewer`} className="sr-only">
+        Reviewer
+      </Label>
+      <Select
+        onValueChange={reviewerId =>
+          toast.promise(assignReviewer({ id: section._id, reviewerId }), {
+            loading: `Assigning reviewer to ${section.header}`,
+            success: "Reviewer assigned",
+            error: "Failed to assign reviewer",
+          })
+        }
+      >
+        <SelectTrigger
+          className="w-38 **:data-[slot=select-value]:block **:data-[slot=select-value]:truncate"
+          size="sm"
+          id={`${section._id}-reviewer`}
+        >
+          <SelectValue placeholder="Assign reviewer" />
+        </SelectTrigger>
+        <SelectContent align="end">
+          {members?.members.map(member => (
+            <SelectItem key={member.userId} value={member.userId}>
+              {member.name}
+            </SelectItem>
+          ))}
+          {members?.truncated && (
+            <div className="text-muted-foreground px-2 py-1.5 text-xs">
+              Showing the first {members.members.length} members
+            </div>
+          )}
+        </SelectContent>
+      </Select>
+    </>
+  );
+}
+
+// Status badge, outlined in red with the missed due date once a pending milestone
+// has passed
+function StatusCell({ section }: { section: Section }) {
+  const overdue = overdueMilestone(section, todayIso());
+  const badge = (
+    <Badge
+      variant="outline"
+      className={
+        overdue ? "border-destructive text-destructive px-1.5" : "text-muted-foreground px-1.5"
+      }
+    >
+      {section.status === "Done" ? (
+        <IconCircleCheckFilled className="fill-green-500 dark:fill-green-400" />
+      ) : section.status === "In Review" ? (
+        <IconEye />
+      ) : section.status === "Not Started" ? (
+        <IconCircleDashed />
+      ) : (
+        <IconLoader />
+      )}
+      {section.status}
+      {overdue && <IconClockExclamation aria-label="Overdue" />}
+    </Badge>
+  );
+  if (!overdue) {
+    return badge;
+  }
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>{badge}</TooltipTrigger>
+      <TooltipContent>
+        {milestoneLabels[overdue]} was due {formatDueDate(section[overdue]!)}
+      </TooltipContent>
+    </Tooltip>
+  );
+}
+
+// Row menu: edit in the drawer, copy, star, or move to the trash with undo
+function SectionActions({ section }: { section: Section }) {
+  const favoriteIds = useQuery(api.favorites.list);
+  const toggleFavorite = useMutation(api.favorites.toggle);
+  const duplicate = useMutation(api.bulk.duplicate);
+  const undo = useMutation(api.bulk.undo);
+  const trashSection = useMutation(api.sections.trash);
+  const restoreSection = useMutation(api.sections.restore);
+  const history = useUndoHistory();
+  const [isEditing, setIsEditing] = React.useState(false);
+  const isFavorite = favoriteIds?.includes(section._id) ?? false;
+
+  const makeCopy = async () => {
+    const toastId = toast.loading(`Copying ${section.header}`);
+    try {
+      let { operationId } = await duplicate({ ids: [section._id] });
+      const entry: HistoryEntry = {
+        label: `Copy ${section.header}`,
+        undo: () => undo({ operationId }),
+        redo: async () => {
+          ({ operationId } = await duplicate({ ids: [section._id] }));
+        },
+      };
+      history.record(entry);
+      toast.success(`Copied ${section.header}`, {
+        id: toastId,
+        action: { label: "Undo", onClick: () => history.revert(entry) },
+      });
+    } catch (error) {
+      toast.error(error instanceof ConvexError ? String(error.data) : "Failed to copy section", {
+        id: toastId,
+      });
+    }
+  };
+
+  const moveToTrash = async () => {
+    const toastId = toast.loading(`Deleting ${section.header}`);
+    try {
+      await trashSection({ id: section._id });
+      const entry: HistoryEntry = {
+        label: `Delete ${section.header}`,
+        undo: () => restoreSection({ id: section._id }),
+        redo: () => trashSection({ id: section._id }),
+      };
+      history.record(entry);
+      toast.success(`Moved ${section.header} to the trash`, {
+        id: toastId,
+        description: `It is deleted for good after ${TRASH_RETENTION_DAYS} days.`,
+        action: { label: "Undo", onClick: () => history.revert(entry) },
+      });
+    } catch (error) {
+      toast.error(error instanceof ConvexError ? String(error.data) : "Failed to delete section", {
+        id: toastId,
+      });
+    }
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="ghost"
+            className="data-[state=open]:bg-muted text-muted-foreground flex size-8"
+            size="icon"
+          >
+            <IconDotsVertical />
+            <span className="sr-only">Open menu</span>
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-32">
+          <DropdownMenuItem onClick={() => setIsEditing(true)}>Edit</DropdownMenuItem>
+          <DropdownMenuItem onClick={makeCopy}>Make a copy</DropdownMenuItem>
+          <DropdownMenuItem
+            onClick={() =>
+              toast.promise(toggleFavorite({ sectionId: section._id }), {
+                loading: isFavorite ? "Removing favorite" : "Adding favorite",
+                success: added => (added ? "Added to favorites" : "Removed from favorites"),
+                error: "Failed to update favorites",
+              })
+            }
+          >
+            {isFavorite ? "Unfavorite" : "Favorite"}
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem variant="destructive" onClick={moveToTrash}>
+            Delete
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <SectionDrawer item={section} open={isEditing} onOpenChange={setIsEditing} />
+    </>
+  );
+}
+
+const columns: ColumnDef<Section>[] = [
   {
     id: "drag",
     header: () => null,
-    cell: ({ row }) => <DragHandle id={row.original.id} />,
+    cell: ({ row, table }) => (
+      <DragHandle
+        id={row.original._id}
+        disabled={table.getState().sorting.length > 0 || !!table.getState().globalFilter}
+      />
+    ),
   },
   {
     id: "select",
@@ -165,7 +599,7 @@ const columns: ColumnDef<z.infer<typeof schema>>[] = [
   },
   {
     accessorKey: "header",
-    header: "Header",
+    header: ({ column }) => <SortableHeader column={column} title="Header" />,
     cell: ({ row }) => {
       return <TableCellViewer item={row.original} />;
     },
@@ -173,7 +607,7 @@ const columns: ColumnDef<z.infer<typeof schema>>[] = [
   },
   {
     accessorKey: "type",
-    header: "Section Type",
+    header: ({ column }) => <SortableHeader column={column} title="Section Type" />,
     cell: ({ row }) => (
       <div className="w-32">
         <Badge variant="outline" className="text-muted-foreground px-1.5">
@@ -184,129 +618,108 @@ const columns: ColumnDef<z.infer<typeof schema>>[] = [
   },
   {
     accessorKey: "status",
-    header: "Status",
-    cell: ({ row }) => (
-      <Badge variant="outline" className="text-muted-foreground px-1.5">
-        {row.original.status === "Done" ? (
-          <IconCircleCheckFilled className="fill-green-500 dark:fill-green-400" />
-        ) : (
-          <IconLoader />
-        )}
-        {row.original.status}
-      </Badge>
-    ),
+    header: ({ column }) => <SortableHeader column={column} title="Status" />,
+    cell: ({ row }) => <StatusCell section={row.original} />,
   },
   {
     accessorKey: "target",
-    header: () => <div className="w-full text-right">Target</div>,
-    cell: ({ row }) => (
-      <form
-        onSubmit={e => {
-          e.preventDefault();
-          toast.promise(new Promise(resolve => setTimeout(resolve, 1000)), {
-            loading: `Saving ${row.original.header}`,
-            success: "Done",
-            error: "Error",
-          });
-        }}
-      >
-        <Label htmlFor={`${row.original.id}-target`} className="sr-only">
-          Target
-        </Label>
-        <Input
-          className="hover:bg-input/30 focus-visible:bg-background dark:hover:bg-input/30 dark:focus-visible:bg-input/30 h-8 w-16 border-transparent bg-transparent text-right shadow-none focus-visible:border dark:bg-transparent"
-          defaultValue={row.original.target}
-          id={`${row.original.id}-target`}
-        />
-      </form>
+    header: ({ column }) => (
+      <SortableHeader column={column} title="Target" className="w-full text-right" />
     ),
+    cell: ({ row }) => <MetricCell section={row.original} field="target" />,
   },
   {
     accessorKey: "limit",
-    header: () => <div className="w-full text-right">Limit</div>,
+    header: ({ column }) => (
+      <SortableHeader column={column} title="Limit" className="w-full text-right" />
+    ),
     cell: ({ row }) => (
-      <form
-        onSubmit={e => {
-          e.preventDefault();
-          toast.promise(new Promise(resolve => setTimeout(resolve, 1000)), {
-            loading: `Saving ${row.original.header}`,
-            success: "Done",
-            error: "Error",
-          });
-        }}
-      >
-        <Label htmlFor={`${row.original.id}-limit`} className="sr-only">
-          Limit
-        </Label>
-        <Input
-          className="hover:bg-input/30 focus-visible:bg-background dark:hover:bg-input/30 dark:focus-visible:bg-input/30 h-8 w-16 border-transparent bg-transparent text-right shadow-none focus-visible:border dark:bg-transparent"
-          defaultValue={row.original.limit}
-          id={`${row.original.id}-limit`}
-        />
-      </form>
+      <div className="flex items-center justify-end gap-1">
+        {isOverLimit(row.original) && (
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <IconAlertTriangle className="text-destructive size-4" aria-label="Over page limit" />
+            </TooltipTrigger>
+            <TooltipContent>
+              {pagesFor(row.original.wordCount ?? 0).toFixed(1)} pages written, limit is{" "}
+              {row.original.limit}
+            </TooltipContent>
+          </Tooltip>
+        )}
+        <MetricCell section={row.original} field="limit" />
+      </div>
     ),
   },
   {
-    accessorKey: "reviewer",
+    id: "reviewer",
+    accessorKey: "reviewerId",
     header: "Reviewer",
-    cell: ({ row }) => {
-      const isAssigned = row.original.reviewer !== "Assign reviewer";
-
-      if (isAssigned) {
-        return row.original.reviewer;
-      }
-
-      return (
-        <>
-          <Label htmlFor={`${row.original.id}-reviewer`} className="sr-only">
-            Reviewer
-          </Label>
-          <Select>
-            <SelectTrigger
-              className="w-38 **:data-[slot=select-value]:block **:data-[slot=select-value]:truncate"
-              size="sm"
-              id={`${row.original.id}-reviewer`}
-            >
-              <SelectValue placeholder="Assign reviewer" />
-            </SelectTrigger>
-            <SelectContent align="end">
-              <SelectItem value="Eddie Lake">Eddie Lake</SelectItem>
-              <SelectItem value="Jamik Tashpulatov">Jamik Tashpulatov</SelectItem>
-            </SelectContent>
-          </Select>
-        </>
-      );
-    },
+    cell: ({ row }) => <ReviewerCell section={row.original} />,
+    enableSorting: false,
   },
   {
     id: "actions",
-    cell: () => (
-      <DropdownMenu>
-        <DropdownMenuTrigger asChild>
-          <Button
-            variant="ghost"
-            className="data-[state=open]:bg-muted text-muted-foreground flex size-8"
-            size="icon"
-          >
-            <IconDotsVertical />
-            <span className="sr-only">Open menu</span>
-          </Button>
-        </DropdownMenuTrigger>
-        <DropdownMenuContent align="end" className="w-32">
-          <DropdownMenuItem>Edit</DropdownMenuItem>
-          <DropdownMenuItem>Make a copy</DropdownMenuItem>
-          <DropdownMenuItem>Favorite</DropdownMenuItem>
-          <DropdownMenuSeparator />
-          <DropdownMenuItem variant="destructive">Delete</DropdownMenuItem>
-        </DropdownMenuContent>
-      </DropdownMenu>
-    ),
+    cell: ({ row }) => <SectionActions section={row.original} />,
   },
 ];
 
-function DraggableRow({ row }: { row: Row<z.infer<typeof schema>> }) {
+// Toolbar buttons for the outline's undo history, alongside Ctrl/Cmd+Z
+function HistoryButtons() {
+  const { canUndo, canRedo, undoLabel, redoLabel, undo, redo } = useUndoHistory();
+
+  return (
+    <div className="flex items-center">
+      {[
+        {
+          label: "Undo",
+          detail: undoLabel,
+          enabled: canUndo,
+          onClick: undo,
+          Icon: IconArrowBackUp,
+        },
+        {
+          label: "Redo",
+          detail: redoLabel,
+          enabled: canRedo,
+          onClick: redo,
+          Icon: IconArrowForwardUp,
+        },
+      ].map(({ label, detail, enabled, onClick, Icon }) => (
+        <Tooltip key={label}>
+          <TooltipTrigger asChild>
+            <span>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="size-8"
+                disabled={!enabled}
+                onClick={onClick}
+              >
+                <Icon />
+                <span className="sr-only">{label}</span>
+              </Button>
+            </span>
+          </TooltipTrigger>
+          <TooltipContent>
+            {detail ? `${label}: ${detail}` : `Nothing to ${label.toLowerCase()}`}
+          </TooltipContent>
+        </Tooltip>
+      ))}
+    </div>
+  );
+}
+
+function DraggableRow({
+  row,
+  gridColumns,
+  cellProps,
+}: {
+  row: Row<Section>;
+  gridColumns: string[];
+  cellProps: ReturnType<typeof useCellGrid>["cellProps"];
+}) {
   const { transform, transition, setNodeRef, isDragging } = useSortable({
-    id: row.original.id,
+    id: row.original._id,
   });
 
   return (
@@ -320,25 +733,97 @@ function DraggableRow({ row }: { row: Row<z.infer<typeof schema>> }) {
         transition: transition,
       }}
     >
-      {row.getVisibleCells().map(cell => (
-        <TableCell key={cell.id}>
-          {flexRender(cell.column.columnDef.cell, cell.getContext())}
-        </TableCell>
-      ))}
+      {row.getVisibleCells().map(cell => {
+        const col = gridColumns.indexOf(cell.column.id);
+        return (
+          <TableCell
+            key={cell.id}
+            {...(col >= 0 && {
+              ...cellProps(row.index, col),
+              className:
+                "data-[selected]:bg-primary/5 data-[active]:focus-within:ring-ring/50 outline-none data-[active]:focus-within:ring-2 data-[active]:focus-within:ring-inset",
+            })}
+          >
+            {flexRender(cell.column.columnDef.cell, cell.getContext())}
+          </TableCell>
+        );
+      })}
     </TableRow>
   );
 }
 
-export function DataTable({ data: initialData }: { data: z.infer<typeof schema>[] }) {
-  const [data, setData] = React.useState(() => initialData);
+export function DataTable() {
+  const pastPerformance = useQuery(api.pastPerformance.list, {});
+  const personnel = useQuery(api.personnel.list);
+  const documents = useQuery(api.documents.options);
+  const moveSection = useMutation(api.sections.move).withOptimisticUpdate((localStore, args) =>
+    updateLoadedPages(localStore, (page, queryArgs) => {
+      // Only pages in outline order can be rearranged locally
+      if ((queryArgs.sort ?? DEFAULT_SORT).field !== "order" || queryArgs.sort?.desc) {
+        return page;
+      }
+      const rest = page.filter(section => section._id !== args.id);
+      const moved = page.find(section => section._id === args.id);
+      const anchor = args.afterId ?? args.beforeId;
+      const anchorIndex = rest.findIndex(section => section._id === anchor);
+      if (!moved || (anchor && anchorIndex === -1)) {
+        return page;
+      }
+
+      const index = args.afterId ? anchorIndex + 1 : Math.max(anchorIndex, 0);
+      const order = orderBetween(rest[index - 1]?.order, rest[index]?.order);
+      return [...rest.slice(0, index), { ...moved, order }, ...rest.slice(index)];
+    })
+  );
+  const setMetrics = useMutation(api.bulk.setMetrics);
+  const runBulk = useBulkAction();
+  const members = useQuery(api.users.listMembers)?.members;
+  const history = useUndoHistory();
   const [rowSelection, setRowSelection] = React.useState({});
-  const [columnVisibility, setColumnVisibility] = React.useState<VisibilityState>({});
-  const [columnFilters, setColumnFilters] = React.useState<ColumnFiltersState>([]);
+  const [draggingId, setDraggingId] = React.useState<UniqueIdentifier | null>(null);
+  const [columnVisibility, setColumnVisibility] = React.useState<VisibilityState>(
+    DEFAULT_LAYOUT.columnVisibility
+  );
+  const [columnOrder, setColumnOrder] = React.useState<ColumnOrderState>(
+    DEFAULT_LAYOUT.columnOrder
+  );
+  const { filters, setFilters } = useSectionFilters();
+  // A shared link that already carries filters wins over the user's default view
+  const [hasLinkFilters] = React.useState(() =>
+    Object.values(filters).some(value => value !== undefined)
+  );
   const [sorting, setSorting] = React.useState<SortingState>([]);
   const [pagination, setPagination] = React.useState({
     pageIndex: 0,
-    pageSize: 10,
+    pageSize: DEFAULT_LAYOUT.pageSize,
   });
+  const sort = React.useMemo(() => toSectionSort(sorting), [sorting]);
+  const columnFilters = React.useMemo(() => toColumnFilters(filters), [filters]);
+  const updateFilters = React.useCallback(
+    (next: SectionFilters) => {
+      setFilters(next);
+      setPagination(current => ({ ...current, pageIndex: 0 }));
+    },
+    [setFilters]
+  );
+  const layout = React.useMemo<TableLayout>(
+    () => ({ columnVisibility, columnOrder, sort, filters, pageSize: pagination.pageSize }),
+    [columnVisibility, columnOrder, sort, filters, pagination.pageSize]
+  );
+  const applyLayout = React.useCallback(
+    (next: TableLayout) => {
+      setColumnVisibility(next.columnVisibility);
+      setColumnOrder(next.columnOrder);
+      setSorting(
+        next.sort.field === "order" ? [] : [{ id: next.sort.field, desc: next.sort.desc }]
+      );
+      setPagination({ pageIndex: 0, pageSize: next.pageSize });
+      setFilters(next.filters);
+    },
+    [setFilters]
+  );
+  const pages = useSectionPages({ ...pagination, sort, filters });
+  const data = React.useMemo(() => pages.rows ?? [], [pages.rows]);
   const sortableId = React.useId();
   const sensors = useSensors(
     useSensor(MouseSensor, {}),
@@ -346,7 +831,10 @@ export function DataTable({ data: initialData }: { data: z.infer<typeof schema>[
     useSensor(KeyboardSensor, {})
   );
 
-  const dataIds = React.useMemo<UniqueIdentifier[]>(() => data?.map(({ id }) => id) || [], [data]);
+  const dataIds = React.useMemo<UniqueIdentifier[]>(
+    () => data?.map(({ _id }) => _id) || [],
+    [data]
+  );
 
   const table = useReactTable({
     data,
@@ -354,33 +842,187 @@ export function DataTable({ data: initialData }: { data: z.infer<typeof schema>[
     state: {
       sorting,
       columnVisibility,
+      columnOrder,
       rowSelection,
       columnFilters,
+      globalFilter: filters.search ?? "",
       pagination,
     },
-    getRowId: row => row.id.toString(),
+    // Paging, sorting and filtering all happen in the Convex query
+    manualPagination: true,
+    manualSorting: true,
+    manualFiltering: true,
+    pageCount: pages.pageCount ?? -1,
+    rowCount: pages.total,
+    enableMultiSort: false,
+    getRowId: row => row._id,
     enableRowSelection: true,
     onRowSelectionChange: setRowSelection,
-    onSortingChange: setSorting,
-    onColumnFiltersChange: setColumnFilters,
+    onSortingChange: updater => {
+      setSorting(updater);
+      setPagination(current => ({ ...current, pageIndex: 0 }));
+    },
     onColumnVisibilityChange: setColumnVisibility,
+    onColumnOrderChange: setColumnOrder,
     onPaginationChange: setPagination,
     getCoreRowModel: getCoreRowModel(),
-    getFilteredRowModel: getFilteredRowModel(),
-    getPaginationRowModel: getPaginationRowModel(),
-    getSortedRowModel: getSortedRowModel(),
-    getFacetedRowModel: getFacetedRowModel(),
-    getFacetedUniqueValues: getFacetedUniqueValues(),
+  });
+
+  // Every column id in display order, and the ones listed in "Customize Columns"
+  const orderedIds = columnOrder.length
+    ? columnOrder
+    : table.getAllLeafColumns().map(column => column.id);
+  const customizableColumns = orderedIds
+    .map(id => table.getColumn(id))
+    .filter(
+      (column): column is Column<Section> =>
+        column !== undefined && typeof column.accessorFn !== "undefined" && column.getCanHide()
+    );
+
+  // Swap a column with its neighbour among the customizable columns
+  function moveColumn(id: string, offset: -1 | 1) {
+    const ids = customizableColumns.map(column => column.id);
+    const other = ids[ids.indexOf(id) + offset];
+    if (other !== undefined) {
+      table.setColumnOrder(
+        orderedIds.map(item => (item === id ? other : item === other ? id : item))
+      );
+    }
+  }
+
+  // Columns the keyboard grid covers, in display order; they are the exportable ones
+  const gridColumns = table
+    .getVisibleLeafColumns()
+    .map(column => column.id)
+    .filter((id): id is ExportColumn => id in EXPORT_COLUMNS);
+  const gridRows = table.getRowModel().rows;
+
+  const copyCells = (range: CellRange) => {
+    const reviewerName = (userId?: string) =>
+      members?.find(member => member.userId === userId)?.name ?? "";
+    return toTsv(
+      gridRows
+        .slice(range.top, range.bottom + 1)
+        .map(row =>
+          gridColumns
+            .slice(range.left, range.right + 1)
+            .map(column => EXPORT_COLUMNS[column].value(row.original, reviewerName))
+        )
+    );
+  };
+
+  // Write a pasted block into the Target and Limit cells it covers, starting at the
+  // selection's top-left cell. A single value fills the whole selection.
+  const pasteCells = (range: CellRange, text: string) => {
+    const block = parseDelimited(text, "\t");
+    const fill = block.length === 1 && block[0].length === 1;
+    const height = fill ? range.bottom - range.top + 1 : block.length;
+    const width = fill ? range.right - range.left + 1 : Math.max(...block.map(row => row.length));
+    const updates = new Map<
+      Id<"sections">,
+      { id: Id<"sections">; target?: number; limit?: number }
+    >();
+    let readOnly = 0;
+
+    for (let r = 0; r < height; r++) {
+      const section = gridRows[range.top + r]?.original;
+      for (let c = 0; c < width && section; c++) {
+        const column = gridColumns[range.left + c];
+        const value = (fill ? block[0][0] : block[r][c])?.trim();
+        if (!column || !value) {
+          continue;
+        }
+        if (column !== "target" && column !== "limit") {
+          readOnly++;
+          continue;
+        }
+        const parsed = sectionSchema.shape[column].safeParse(value);
+        if (!parsed.success) {
+          toast.error(`${metricLabels[column]} must be a whole number, got "${value}"`);
+          return;
+        }
+        if (parsed.data !== section[column]) {
+          updates.set(section._id, {
+            ...(updates.get(section._id) ?? { id: section._id }),
+            [column]: parsed.data,
+          });
+        }
+      }
+    }
+
+    const note =
+      readOnly > 0
+        ? `Only Target and Limit can be pasted; ${readOnly} cell${readOnly === 1 ? "" : "s"} skipped.`
+        : undefined;
+    if (updates.size === 0) {
+      toast.info("Nothing to paste", { description: note });
+      return;
+    }
+    if (note) {
+      toast.info(note);
+    }
+    const batch = [...updates.values()];
+    void runBulk("Pasted into", [...updates.keys()], () => setMetrics({ updates: batch }));
+  };
+
+  // A capped count only bounds the total from below, see `sections.count`
+  const totalLabel = `${pages.total ?? 0}${pages.capped ? "+" : ""}`;
+  const pageCountLabel =
+    pages.pageCount ??
+    `${Math.max(1, Math.ceil((pages.total ?? 0) / pagination.pageSize))}${pages.capped ? "+" : ""}`;
+
+  const isVirtual = pagination.pageSize === SHOW_ALL || gridRows.length > VIRTUALIZE_AFTER;
+  const rowKeys = React.useMemo(() => gridRows.map(row => row.id), [gridRows]);
+  const virtualRows = useVirtualRows({
+    rowKeys,
+    enabled: isVirtual,
+    // Keep the dragged row mounted so dnd-kit does not lose it while auto-scrolling
+    pinnedIndex: draggingId === null ? undefined : dataIds.indexOf(draggingId),
+  });
+
+  // Fetch the next batch of the show-all list as its end scrolls into view
+  const { loadMore } = pages;
+  const nearEnd = virtualRows.end >= gridRows.length - LOAD_AHEAD;
+  React.useEffect(() => {
+    if (loadMore && nearEnd) {
+      loadMore();
+    }
+  }, [loadMore, nearEnd]);
+
+  const grid = useCellGrid({
+    rowCount: gridRows.length,
+    colCount: gridColumns.length,
+    getCopyText: copyCells,
+    onPaste: pasteCells,
+    scrollToRow: virtualRows.scrollToRow,
   });
 
   function handleDragEnd(event: DragEndEvent) {
+    setDraggingId(null);
     const { active, over } = event;
     if (active && over && active.id !== over.id) {
-      setData(data => {
-        const oldIndex = dataIds.indexOf(active.id);
-        const newIndex = dataIds.indexOf(over.id);
-        return arrayMove(data, oldIndex, newIndex);
-      });
+      const oldIndex = dataIds.indexOf(active.id);
+      const newIndex = dataIds.indexOf(over.id);
+      const reordered = arrayMove(data, oldIndex, newIndex);
+      const afterId = reordered[newIndex - 1]?._id;
+      // At the top of a page, anchor to the row below since the row above is on another page
+      const beforeId = afterId ? undefined : reordered[newIndex + 1]?._id;
+
+      const id = reordered[newIndex]._id;
+      const previousAfterId = data[oldIndex - 1]?._id;
+      const previousBeforeId = previousAfterId ? undefined : data[oldIndex + 1]?._id;
+
+      moveSection({ id, afterId, beforeId })
+        .then(() =>
+          history.record({
+            label: `Reorder ${reordered[newIndex].header}`,
+            undo: () => moveSection({ id, afterId: previousAfterId, beforeId: previousBeforeId }),
+            redo: () => moveSection({ id, afterId, beforeId }),
+          })
+        )
+        .catch(() => {
+          toast.error("Failed to reorder sections");
+        });
     }
   }
 
@@ -396,6 +1038,9 @@ export function DataTable({ data: initialData }: { data: z.infer<typeof schema>[
           </SelectTrigger>
           <SelectContent>
             <SelectItem value="outline">Outline</SelectItem>
+            <SelectItem value="board">Board</SelectItem>
+            <SelectItem value="calendar">Calendar</SelectItem>
+            <SelectItem value="timeline">Timeline</SelectItem>
             <SelectItem value="past-performance">Past Performance</SelectItem>
             <SelectItem value="key-personnel">Key Personnel</SelectItem>
             <SelectItem value="focus-documents">Focus Documents</SelectItem>
@@ -403,15 +1048,38 @@ export function DataTable({ data: initialData }: { data: z.infer<typeof schema>[
         </Select>
         <TabsList className="**:data-[slot=badge]:bg-muted-foreground/30 hidden **:data-[slot=badge]:size-5 **:data-[slot=badge]:rounded-full **:data-[slot=badge]:px-1 @4xl/main:flex">
           <TabsTrigger value="outline">Outline</TabsTrigger>
+          <TabsTrigger value="board">Board</TabsTrigger>
+          <TabsTrigger value="calendar">Calendar</TabsTrigger>
+          <TabsTrigger value="timeline">Timeline</TabsTrigger>
           <TabsTrigger value="past-performance">
-            Past Performance <Badge variant="secondary">3</Badge>
+            Past Performance
+            {pastPerformance !== undefined && pastPerformance.length > 0 && (
+              <Badge variant="secondary">{pastPerformance.length}</Badge>
+            )}
           </TabsTrigger>
           <TabsTrigger value="key-personnel">
-            Key Personnel <Badge variant="secondary">2</Badge>
+            Key Personnel
+            {personnel !== undefined && personnel.length > 0 && (
+              <Badge variant="secondary">{personnel.length}</Badge>
+            )}
+          </TabsTrigger>
+          <TabsTrigger value="focus-documents">
+            Focus Documents
+            {documents !== undefined && documents.documents.length > 0 && (
+              <Badge variant="secondary">
+                {documents.documents.length}
+                {documents.truncated && "+"}
+              </Badge>
+            )}
           </TabsTrigger>
-          <TabsTrigger value="focus-documents">Focus Documents</TabsTrigger>
         </TabsList>
         <div className="flex items-center gap-2">
+          <SavedViewsMenu
+            layout={layout}
+            defaultLayout={DEFAULT_LAYOUT}
+            applyDefault={!hasLinkFilters}
+            onApply={applyLayout}
+          />
           <DropdownMenu>
             <DropdownMenuTrigger asChild>
               <Button variant="outline" size="sm">
@@ -422,42 +1090,80 @@ export function DataTable({ data: initialData }: { data: z.infer<typeof schema>[
               </Button>
             </DropdownMenuTrigger>
             <DropdownMenuContent align="end" className="w-56">
-              {table
-                .getAllColumns()
-                .filter(column => typeof column.accessorFn !== "undefined" && column.getCanHide())
-                .map(column => {
-                  return (
-                    <DropdownMenuCheckboxItem
-                      key={column.id}
-                      className="capitalize"
-                      checked={column.getIsVisible()}
-                      onCheckedChange={value => column.toggleVisibility(!!value)}
-                    >
-                      {column.id}
-                    </DropdownMenuCheckboxItem>
-                  );
-                })}
+              {customizableColumns.map((column, index) => {
+                return (
+                  <DropdownMenuCheckboxItem
+                    key={column.id}
+                    className="capitalize"
+                    checked={column.getIsVisible()}
+                    onCheckedChange={value => column.toggleVisibility(!!value)}
+                  >
+                    {column.id}
+                    <span className="ml-auto flex items-center">
+                      {[
+                        { offset: -1 as const, label: "up", Icon: IconChevronUp },
+                        { offset: 1 as const, label: "down", Icon: IconChevronDown },
+                      ].map(({ offset, label, Icon }) => (
+                        <Button
+                          key={label}
+                          variant="ghost"
+                          size="icon"
+                          className="size-6"
+                          disabled={!customizableColumns[index + offset]}
+                          onClick={event => {
+                            event.stopPropagation();
+                            moveColumn(column.id, offset);
+                          }}
+                        >
+                          <Icon />
+                          <span className="sr-only">
+                            Move {column.id} {label}
+                          </span>
+                        </Button>
+                      ))}
+                    </span>
+                  </DropdownMenuCheckboxItem>
+                );
+              })}
             </DropdownMenuContent>
           </DropdownMenu>
-          <Button variant="outline" size="sm">
-            <IconPlus />
-            <span className="hidden lg:inline">Add Section</span>
-          </Button>
+          <HistoryButtons />
+          <ImportSectionsDialog />
+          <SectionTrashDialog />
+          <ExportMenu
+            filters={filters}
+            sort={sort}
+            total={pages.total ?? 0}
+            capped={pages.capped}
+            columns={table
+              .getVisibleLeafColumns()
+              .map(column => column.id)
+              .filter((id): id is ExportColumn => id in EXPORT_COLUMNS)}
+          />
+          <AddSectionMenu />
         </div>
       </div>
       <TabsContent
         value="outline"
         className="relative flex flex-col gap-4 overflow-auto px-4 lg:px-6"
       >
+        <SectionFilterToolbar filters={filters} onChange={updateFilters} />
         <div className="overflow-hidden rounded-lg border">
           <DndContext
             collisionDetection={closestCenter}
             modifiers={[restrictToVerticalAxis]}
+            // Rows mount as the table scrolls during a drag, so keep measuring them
+            measuring={{ droppable: { strategy: MeasuringStrategy.Always } }}
+            onDragStart={event => setDraggingId(event.active.id)}
+            onDragCancel={() => setDraggingId(null)}
             onDragEnd={handleDragEnd}
             sensors={sensors}
             id={sortableId}
           >
-            <Table>
+            <Table
+              containerRef={virtualRows.scrollRef}
+              containerClassName={isVirtual ? "max-h-[70vh] overflow-y-auto" : undefined}
+            >
               <TableHeader className="bg-muted sticky top-0 z-10">
                 {table.getHeaderGroups().map(headerGroup => (
                   <TableRow key={headerGroup.id}>
@@ -473,17 +1179,32 @@ export function DataTable({ data: initialData }: { data: z.infer<typeof schema>[
                   </TableRow>
                 ))}
               </TableHeader>
-              <TableBody className="**:data-[slot=table-cell]:first:w-8">
+              <TableBody
+                ref={grid.containerRef}
+                onKeyDown={grid.handleKeyDown}
+                className="**:data-[slot=table-cell]:first:w-8"
+              >
                 {table.getRowModel().rows?.length ? (
                   <SortableContext items={dataIds} strategy={verticalListSortingStrategy}>
-                    {table.getRowModel().rows.map(row => (
-                      <DraggableRow key={row.id} row={row} />
+                    {virtualRows.paddingTop > 0 && (
+                      <tr aria-hidden style={{ height: virtualRows.paddingTop }} />
+                    )}
+                    {gridRows.slice(virtualRows.start, virtualRows.end).map(row => (
+                      <DraggableRow
+                        key={row.id}
+                        row={row}
+                        gridColumns={gridColumns}
+                        cellProps={grid.cellProps}
+                      />
                     ))}
+                    {virtualRows.paddingBottom > 0 && (
+                      <tr aria-hidden style={{ height: virtualRows.paddingBottom }} />
+                    )}
                   </SortableContext>
                 ) : (
                   <TableRow>
                     <TableCell colSpan={columns.length} className="h-24 text-center">
-                      No results.
+                      {pages.rows === undefined ? "Loading..." : "No results."}
                     </TableCell>
                   </TableRow>
                 )}
@@ -491,10 +1212,13 @@ export function DataTable({ data: initialData }: { data: z.infer<typeof schema>[
             </Table>
           </DndContext>
         </div>
+        <BulkActionBar
+          sections={table.getSelectedRowModel().rows.map(row => row.original)}
+          onClear={() => table.resetRowSelection()}
+        />
         <div className="flex items-center justify-between px-4">
           <div className="text-muted-foreground hidden flex-1 text-sm lg:flex">
-            {table.getFilteredSelectedRowModel().rows.length} of{" "}
-            {table.getFilteredRowModel().rows.length} row(s) selected.
+            {table.getSelectedRowModel().rows.length} of {totalLabel} row(s) selected.
           </div>
           <div className="flex w-full items-center gap-8 lg:w-fit">
             <div className="hidden items-center gap-2 lg:flex">
@@ -504,23 +1228,25 @@ export function DataTable({ data: initialData }: { data: z.infer<typeof schema>[
               <Select
                 value={`${table.getState().pagination.pageSize}`}
                 onValueChange={value => {
-                  table.setPageSize(Number(value));
+                  table.setPagination({ pageIndex: 0, pageSize: Number(value) });
                 }}
               >
                 <SelectTrigger size="sm" className="w-20" id="rows-per-page">
-                  <SelectValue placeholder={table.getState().pagination.pageSize} />
+                  <SelectValue />
                 </SelectTrigger>
                 <SelectContent side="top">
-                  {[10, 20, 30, 40, 50].map(pageSize => (
+                  {PAGE_SIZES.map(pageSize => (
                     <SelectItem key={pageSize} value={`${pageSize}`}>
-                      {pageSize}
+                      {pageSize === SHOW_ALL ? "All" : pageSize}
                     </SelectItem>
                   ))}
                 </SelectContent>
               </Select>
             </div>
             <div className="flex w-fit items-center justify-center text-sm font-medium">
-              Page {table.getState().pagination.pageIndex + 1} of {table.getPageCount()}
+              {pagination.pageSize === SHOW_ALL
+                ? `${gridRows.length} of ${totalLabel} loaded`
+                : `Page ${pagination.pageIndex + 1} of ${pageCountLabel}`}
             </div>
             <div className="ml-auto flex items-center gap-2 lg:ml-0">
               <Button
@@ -547,7 +1273,7 @@ export function DataTable({ data: initialData }: { data: z.infer<typeof schema>[
                 className="size-8"
                 size="icon"
                 onClick={() => table.nextPage()}
-                disabled={!table.getCanNextPage()}
+                disabled={!table.getCanNextPage() || pages.isLoading}
               >
                 <span className="sr-only">Go to next page</span>
                 <IconChevronRight />
@@ -557,7 +1283,7 @@ export function DataTable({ data: initialData }: { data: z.infer<typeof schema>[
                 className="hidden size-8 lg:flex"
                 size="icon"
                 onClick={() => table.setPageIndex(table.getPageCount() - 1)}
-                disabled={!table.getCanNextPage()}
+                disabled={!table.getCanNextPage() || pages.isLoading || !pages.canWalkFromEnd}
               >
                 <span className="sr-only">Go to last page</span>
                 <IconChevronsRight />
@@ -566,14 +1292,30 @@ export function DataTable({ data: initialData }: { data: z.infer<typeof schema>[
           </div>
         </div>
       </TabsContent>
+      <TabsContent value="board" className="flex flex-col gap-4 px-4 lg:px-6">
+        <SectionFilterToolbar filters={filters} onChange={updateFilters} />
+        <SectionBoard
+          filters={filters}
+          sort={sort}
+          renderHeader={section => <TableCellViewer item={section} />}
+        />
+      </TabsContent>
+      <TabsContent value="calendar" className="flex flex-col gap-4 px-4 lg:px-6">
+        <SectionFilterToolbar filters={filters} onChange={updateFilters} />
+        <SectionCalendar filters={filters} />
+      </TabsContent>
+      <TabsContent value="timeline" className="flex flex-col gap-4 px-4 lg:px-6">
+        <SectionFilterToolbar filters={filters} onChange={updateFilters} />
+        <SectionTimeline filters={filters} />
+      </TabsContent>
       <TabsContent value="past-performance" className="flex flex-col px-4 lg:px-6">
-        <div className="aspect-video w-full flex-1 rounded-lg border border-dashed"></div>
+        <PastPerformanceTable />
       </TabsContent>
       <TabsContent value="key-personnel" className="flex flex-col px-4 lg:px-6">
-        <div className="aspect-video w-full flex-1 rounded-lg border border-dashed"></div>
+        <KeyPersonnel />
       </TabsContent>
       <TabsContent value="focus-documents" className="flex flex-col px-4 lg:px-6">
-        <div className="aspect-video w-full flex-1 rounded-lg border border-dashed"></div>
+        <FocusDocuments />
       </TabsContent>
     </Tabs>
   );
@@ -599,16 +1341,125 @@ const chartConfig = {
   },
 } satisfies ChartConfig;
 
-function TableCellViewer({ item }: { item: z.infer<typeof schema> }) {
+// Header cell that opens the section drawer, starred when it is a favorite and
+// with a badge counting its comments
+function TableCellViewer({ item }: { item: Section }) {
+  const favoriteIds = useQuery(api.favorites.list);
+  const [open, setOpen] = React.useState(false);
+
+  return (
+    <div className="flex items-center gap-1">
+      <Button
+        variant="link"
+        className="text-foreground w-fit px-0 text-left"
+        onClick={() => setOpen(true)}
+      >
+        {item.header}
+      </Button>
+      {favoriteIds?.includes(item._id) && (
+        <IconStarFilled className="size-3.5 shrink-0 text-amber-500" aria-label="Favorite" />
+      )}
+      {!!item.commentCount && (
+        <Badge
+          variant="outline"
+          className="text-muted-foreground gap-1 px-1.5"
+          aria-label={`${item.commentCount} comments`}
+        >
+          <IconMessage />
+          {item.commentCount}
+        </Badge>
+      )}
+      <SectionDrawer item={item} open={open} onOpenChange={setOpen} />
+    </div>
+  );
+}
+
+// Everything the drawer saves in one `sections.edit` call
+type SectionEdit = FunctionArgs<typeof api.sections.edit>["values"];
+
+function SectionDrawer({
+  item,
+  open,
+  onOpenChange,
+}: {
+  item: Section;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
   const isMobile = useIsMobile();
+  const editSection = useMutation(api.sections.edit);
+  const revertEdit = useMutation(api.sections.revertEdit);
+  const history = useUndoHistory();
+  const members = useQuery(api.users.listMembers);
+  const currentUser = useQuery(api.auth.getCurrentUser);
+  const formId = `${item._id}-form`;
+  const statusChangedBy = members?.members.find(member => member.userId === item.statusChangedBy);
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+    const parsed = sectionSchema.safeParse({
+      header: formData.get("header"),
+      type: formData.get("type"),
+      status: formData.get("status"),
+      target: formData.get("target"),
+      limit: formData.get("limit"),
+      reviewerId: formData.get("reviewerId") || undefined,
+    });
+    if (!parsed.success) {
+      toast.error(parsed.error.issues[0]?.message ?? "Invalid section");
+      return;
+    }
+    const schedule = scheduleSchema.safeParse({
+      draftDue: formData.get("draftDue"),
+      reviewDue: formData.get("reviewDue"),
+      finalDue: formData.get("finalDue"),
+    });
+    if (!schedule.success) {
+      toast.error(schedule.error.issues[0]?.message ?? "Invalid due dates");
+      return;
+    }
+    const scheduleProblem = scheduleError(schedule.data);
+    if (scheduleProblem) {
+      toast.error(scheduleProblem);
+      return;
+    }
+
+    const before: SectionEdit = {
+      header: item.header,
+      type: item.type,
+      target: item.target,
+      limit: item.limit,
+      reviewerId: item.reviewerId,
+      status: item.status,
+      draftDue: item.draftDue,
+      reviewDue: item.reviewDue,
+      finalDue: item.finalDue,
+    };
+    const after: SectionEdit = { ...parsed.data, ...schedule.data };
+
+    const save = async () => {
+      const changed = await editSection({ id: item._id, values: after });
+      if (changed) {
+        history.record({
+          label: `Edit ${after.header}`,
+          undo: () => revertEdit({ id: item._id, values: before, expected: after }),
+          redo: () => editSection({ id: item._id, values: after, expected: before }),
+        });
+      }
+      return changed;
+    };
+
+    toast.promise(save(), {
+      loading: `Saving ${after.header}`,
+      success: changed => (changed ? `Saved ${after.header}` : "No changes to save"),
+      error: error =>
+        error instanceof ConvexError ? String(error.data) : `Failed to save ${after.header}`,
+    });
+  };
 
   return (
-    <Drawer direction={isMobile ? "bottom" : "right"}>
-      <DrawerTrigger asChild>
-        <Button variant="link" className="text-foreground w-fit px-0 text-left">
-          {item.header}
-        </Button>
-      </DrawerTrigger>
+    <Drawer direction={isMobile ? "bottom" : "right"} open={open} onOpenChange={onOpenChange}>
       <DrawerContent>
         <DrawerHeader className="gap-1">
           <DrawerTitle>{item.header}</DrawerTitle>
@@ -667,71 +1518,155 @@ function TableCellViewer({ item }: { item: z.infer<typeof schema> }) {
               <Separator />
             </>
           )}
-          <form className="flex flex-col gap-4">
+          <form
+            // Remount when the section changes elsewhere (e.g. a restore) to refresh defaults
+            key={item.updatedAt}
+            id={formId}
+            className="flex flex-col gap-4"
+            onSubmit={handleSubmit}
+          >
             <div className="flex flex-col gap-3">
               <Label htmlFor="header">Header</Label>
-              <Input id="header" defaultValue={item.header} />
+              <Input id="header" name="header" defaultValue={item.header} />
             </div>
             <div className="grid grid-cols-2 gap-4">
               <div className="flex flex-col gap-3">
                 <Label htmlFor="type">Type</Label>
-                <Select defaultValue={item.type}>
+                <Select name="type" defaultValue={item.type}>
                   <SelectTrigger id="type" className="w-full">
                     <SelectValue placeholder="Select a type" />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="Table of Contents">Table of Contents</SelectItem>
-                    <SelectItem value="Executive Summary">Executive Summary</SelectItem>
-                    <SelectItem value="Technical Approach">Technical Approach</SelectItem>
-                    <SelectItem value="Design">Design</SelectItem>
-                    <SelectItem value="Capabilities">Capabilities</SelectItem>
-                    <SelectItem value="Focus Documents">Focus Documents</SelectItem>
-                    <SelectItem value="Narrative">Narrative</SelectItem>
-                    <SelectItem value="Cover Page">Cover Page</SelectItem>
+                    {SECTION_TYPES.map(type => (
+                      <SelectItem key={type} value={type}>
+                        {type}
+                      </SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
               </div>
               <div className="flex flex-col gap-3">
                 <Label htmlFor="status">Status</Label>
-                <Select defaultValue={item.status}>
+                <Select name="status" defaultValue={item.status}>
                   <SelectTrigger id="status" className="w-full">
                     <SelectValue placeholder="Select a status" />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="Done">Done</SelectItem>
-                    <SelectItem value="In Progress">In Progress</SelectItem>
-                    <SelectItem value="Not Started">Not Started</SelectItem>
+                    {[item.status, ...STATUS_TRANSITIONS[item.status]].map(status => (
+                      <SelectItem
+                        key={status}
+                        value={status}
+                        disabled={
+                          status !== item.status &&
+                          (!currentUser?.userId ||
+                            transitionError(item, status, currentUser.userId) !== null)
+                        }
+                      >
+                        {status}
+                      </SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
               </div>
             </div>
+            {item.statusChangedAt && (
+              <p className="text-muted-foreground -mt-2 text-xs">
+                Moved to {item.status}
+                {statusChangedBy && ` by ${statusChangedBy.name}`} on{" "}
+                {new Date(item.statusChangedAt).toLocaleString()}
+              </p>
+            )}
             <div className="grid grid-cols-2 gap-4">
               <div className="flex flex-col gap-3">
                 <Label htmlFor="target">Target</Label>
-                <Input id="target" defaultValue={item.target} />
+                <Input id="target" name="target" type="number" min={0} defaultValue={item.target} />
               </div>
               <div className="flex flex-col gap-3">
                 <Label htmlFor="limit">Limit</Label>
-                <Input id="limit" defaultValue={item.limit} />
+                <Input id="limit" name="limit" type="number" min={0} defaultValue={item.limit} />
               </div>
             </div>
+            <div className="grid grid-cols-3 gap-4">
+              {MILESTONES.map(milestone => (
+                <div key={milestone} className="flex flex-col gap-3">
+                  <Label htmlFor={milestone}>{milestoneLabels[milestone]} Due</Label>
+                  <Input
+                    id={milestone}
+                    name={milestone}
+                    type="date"
+                    defaultValue={item[milestone]}
+                  />
+                </div>
+              ))}
+            </div>
             <div className="flex flex-col gap-3">
               <Label htmlFor="reviewer">Reviewer</Label>
-              <Select defaultValue={item.reviewer}>
+              <Select name="reviewerId" defaultValue={item.reviewerId}>
                 <SelectTrigger id="reviewer" className="w-full">
                   <SelectValue placeholder="Select a reviewer" />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="Eddie Lake">Eddie Lake</SelectItem>
-                  <SelectItem value="Jamik Tashpulatov">Jamik Tashpulatov</SelectItem>
-                  <SelectItem value="Emily Whalen">Emily Whalen</SelectItem>
+                  {members?.members.map(member => (
+                    <SelectItem key={member.userId} value={member.userId}>
+                      {member.name}
+                    </SelectItem>
+                  ))}
+                  {members?.truncated && (
+                    <div className="text-muted-foreground px-2 py-1.5 text-xs">
+                      Showing the first {members.members.length} members
+                    </div>
+                  )}
                 </SelectContent>
               </Select>
             </div>
           </form>
+          <Separator />
+          <div className="flex flex-col gap-3">
+            <div className="flex items-center justify-between">
+              <div className="font-medium">Content</div>
+              <Button variant="outline" size="sm" asChild>
+                <Link href={`/dashboard/sections/${item._id}`}>
+                  <IconFileText />
+                  Open editor
+                </Link>
+              </Button>
+            </div>
+            <SectionBudget
+              wordCount={item.wordCount ?? 0}
+              target={item.target}
+              limit={item.limit}
+            />
+          </div>
+          <Separator />
+          <div className="flex flex-col gap-3">
+            <div className="font-medium">Checklist</div>
+            <SectionChecklist sectionId={item._id} />
+          </div>
+          <Separator />
+          <div className="flex flex-col gap-3">
+            <div className="font-medium">Comments</div>
+            <SectionComments sectionId={item._id} />
+          </div>
+          <Separator />
+          <div className="flex flex-col gap-3">
+            <div className="font-medium">Past performance</div>
+            <SectionCitations sectionId={item._id} />
+          </div>
+          <Separator />
+          <div className="flex flex-col gap-3">
+            <div className="font-medium">Focus documents</div>
+            <SectionDocuments sectionId={item._id} />
+          </div>
+          <Separator />
+          <div className="flex flex-col gap-3">
+            <div className="font-medium">History</div>
+            <SectionHistory sectionId={item._id} />
+          </div>
         </div>
         <DrawerFooter>
-          <Button>Submit</Button>
+          <Button type="submit" form={formId}>
+            Submit
+          </Button>
           <DrawerClose asChild>
             <Button variant="outline">Done</Button>
           </DrawerClose>
@@ -0,0 +1,128 @@
+"use client";
+
+import { IconChevronDown, IconDownload } from "@tabler/icons-react";
+import { useConvex, useQuery } from "convex/react";
+import type { PaginationResult } from "convex/server";
+import { toast } from "sonner";
+
+import { api } from "../../convex/_generated/api";
+import type { Doc } from "../../convex/_generated/dataModel";
+import type { SectionFilters, SectionSort } from "../../convex/lib/listing";
+
+import { useProposalId } from "@/components/proposal-provider";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  downloadFile,
+  toCsv,
+  toDocx,
+  toExportRows,
+  toJson,
+  toMarkdown,
+  type ExportColumn,
+} from "@/lib/export";
+
+const TITLE = "Proposal outline";
+
+// Rows fetched per request while collecting every matching section
+const FETCH_SIZE = 500;
+
+type Format = "csv" | "json" | "md" | "docx";
+
+// Exports the sections the way the table currently shows them: every page that
+// matches the table's filters, in its sort order, limited to the visible columns
+export function ExportMenu({
+  filters,
+  sort,
+  total,
+  capped = false,
+  columns,
+}: {
+  filters: SectionFilters;
+  sort: SectionSort;
+  total: number;
+  // `total` is a lower bound, see `sections.count`
+  capped?: boolean;
+  columns: ExportColumn[];
+}) {
+  const proposalId = useProposalId();
+  const convex = useConvex();
+  const members = useQuery(api.users.listMembers)?.members;
+
+  const fetchSections = async () => {
+    const sections: Doc<"sections">[] = [];
+    let cursor: string | null = null;
+    for (;;) {
+      const result: PaginationResult<Doc<"sections">> = await convex.query(api.sections.page, {
+        proposalId,
+        filters,
+        sort,
+        paginationOpts: { cursor, numItems: FETCH_SIZE },
+      });
+      sections.push(...result.page);
+      if (result.isDone) {
+        return sections;
+      }
+      cursor = result.continueCursor;
+    }
+  };
+
+  const exportAs = (format: Format) =>
+    toast.promise(
+      async () => {
+        const reviewerName = (userId?: string) =>
+          members?.find(member => member.userId === userId)?.name ?? "";
+        const rows = toExportRows(await fetchSections(), reviewerName, columns);
+        switch (format) {
+          case "csv":
+            return downloadFile("outline.csv", toCsv(rows), "text/csv");
+          case "json":
+            return downloadFile("outline.json", toJson(rows), "application/json");
+          case "md":
+            return downloadFile("outline.md", toMarkdown(TITLE, rows), "text/markdown");
+          case "docx":
+            return downloadFile(
+              "outline.docx",
+              await toDocx(TITLE, rows),
+              "application/vnd.openxmlformats-officedocument.wordprocessingml.document"
+            );
+        }
+      },
+      {
+        loading: "Preparing export",
+        success: "Export ready",
+        error: "Failed to export sections",
+      }
+    );
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" disabled={total === 0}>
+          <IconDownload />
+          <span className="hidden lg:inline">Export</span>
+          <IconChevronDown />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-48">
+        <DropdownMenuLabel className="text-muted-foreground text-xs font-normal">
+          {total}
+          {capped && "+"} section{total === 1 && !capped ? "" : "s"}, {columns.length} column
+          {columns.length === 1 ? "" : "s"}
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onClick={() => exportAs("csv")}>CSV</DropdownMenuItem>
+        <DropdownMenuItem onClick={() => exportAs("json")}>JSON</DropdownMenuItem>
+        <DropdownMenuItem onClick={() => exportAs("md")}>Markdown outline</DropdownMenuItem>
+        <DropdownMenuItem onClick={() => exportAs("docx")}>Word document (DOCX)</DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,565 @@
+"use client";
+
+import * as React from "react";
+import {
+  IconDotsVertical,
+  IconDownload,
+  IconFileText,
+  IconUpload,
+  IconX,
+} from "@tabler/icons-react";
+import { ColumnDef, flexRender, getCoreRowModel, useReactTable } from "@tanstack/react-table";
+import { useMutation, usePaginatedQuery, useQuery } from "convex/react";
+import { ConvexError } from "convex/values";
+import type { FunctionReturnType } from "convex/server";
+import { toast } from "sonner";
+import Image from "next/image";
+
+import { api } from "../../convex/_generated/api";
+import type { Id } from "../../convex/_generated/dataModel";
+import {
+  DOCUMENT_ACCEPT,
+  DOCUMENT_KINDS,
+  isPreviewable,
+  uploadError,
+} from "../../convex/lib/documents";
+
+import { useIsMobile } from "@/hooks/use-mobile";
+import { documentSchema, titleFromFileName } from "@/lib/documents";
+import { formatFileSize, uploadToStorage } from "@/lib/upload";
+import { SectionPicker } from "@/components/section-picker";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Drawer,
+  DrawerClose,
+  DrawerContent,
+  DrawerDescription,
+  DrawerFooter,
+  DrawerHeader,
+  DrawerTitle,
+} from "@/components/ui/drawer";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Separator } from "@/components/ui/separator";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+
+type FocusDocument = FunctionReturnType<typeof api.documents.list>["page"][number];
+
+// Documents loaded per page of the list
+const PAGE_SIZE = 50;
+
+// Upload a file to Convex storage after checking it against the accepted types
+// and size, so obviously bad files never leave the browser
+function useUploadDocument() {
+  const generateUploadUrl = useMutation(api.documents.generateUploadUrl);
+
+  return async (file: File) => {
+    const error = uploadError({ contentType: file.type, size: file.size });
+    if (error) {
+      throw new ConvexError(error);
+    }
+    return await uploadToStorage(await generateUploadUrl(), file);
+  };
+}
+
+function errorMessage(error: unknown, fallback: string) {
+  return error instanceof ConvexError ? String(error.data) : fallback;
+}
+
+// Inline view of a PDF or image; other formats can only be downloaded
+function DocumentPreview({ current }: { current: NonNullable<FocusDocument["current"]> }) {
+  if (!current.url || !isPreviewable(current.contentType)) {
+    return (
+      <p className="text-muted-foreground">
+        No preview for {current.fileName}. Download it to open it.
+      </p>
+    );
+  }
+
+  return current.contentType === "application/pdf" ? (
+    <iframe src={current.url} title={current.fileName} className="h-96 w-full rounded-lg border" />
+  ) : (
+    // Served straight from Convex storage, which is not a configured image host, and
+    // sized by CSS since the upload's dimensions are not stored
+    <Image
+      src={current.url}
+      alt={current.fileName}
+      width={0}
+      height={0}
+      sizes="100vw"
+      unoptimized
+      className="h-auto max-h-96 w-full rounded-lg border object-contain"
+    />
+  );
+}
+
+// Every uploaded version of a document, newest first
+function DocumentVersions({ documentId }: { documentId: Id<"documents"> }) {
+  const versions = useQuery(api.documents.versions, { documentId });
+
+  return (
+    <div className="flex flex-col gap-2">
+      {versions?.map(version => (
+        <div key={version._id} className="flex items-center justify-between gap-2">
+          <div className="flex min-w-0 flex-col">
+            <span className="truncate">
+              v{version.version} · {version.fileName}
+            </span>
+            <span className="text-muted-foreground text-xs">
+              {formatFileSize(version.size)} · {new Date(version.createdAt).toLocaleString()}
+            </span>
+          </div>
+          {version.url && (
+            <Button variant="ghost" size="icon" className="size-7" asChild>
+              <a href={version.url} target="_blank" rel="noreferrer">
+                <IconDownload />
+                <span className="sr-only">Download version {version.version}</span>
+              </a>
+            </Button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// Upload a document, or edit one in a drawer. Choosing a file for an existing
+// document uploads it as a new version; section links apply immediately.
+function DocumentEditor({
+  document,
+  open,
+  onOpenChange,
+}: {
+  document?: FocusDocument;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const isMobile = useIsMobile();
+  const createDocument = useMutation(api.documents.create);
+  const updateDocument = useMutation(api.documents.update);
+  const addVersion = useMutation(api.documents.addVersion);
+  const link = useMutation(api.documents.link);
+  const unlink = useMutation(api.documents.unlink);
+  const uploadDocument = useUploadDocument();
+  const formId = `${document?._id ?? "new"}-document-form`;
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+    const file = formData.get("file");
+    const upload = file instanceof File && file.size > 0 ? file : null;
+    if (!document && !upload) {
+      toast.error("Choose a file to upload");
+      return;
+    }
+
+    const parsed = documentSchema.safeParse({
+      title: formData.get("title") || (upload ? titleFromFileName(upload.name) : ""),
+      kind: formData.get("kind"),
+      tags: formData.get("tags"),
+    });
+    if (!parsed.success) {
+      toast.error(parsed.error.issues[0]?.message ?? "Invalid document");
+      return;
+    }
+
+    const save = async () => {
+      if (!document) {
+        const storageId = await uploadDocument(upload!);
+        await createDocument({ ...parsed.data, storageId, fileName: upload!.name });
+        return;
+      }
+      await updateDocument({ id: document._id, ...parsed.data });
+      if (upload) {
+        const storageId = await uploadDocument(upload);
+        await addVersion({ documentId: document._id, storageId, fileName: upload.name });
+      }
+    };
+
+    toast.promise(save(), {
+      loading: upload ? `Uploading ${upload.name}` : `Saving ${parsed.data.title}`,
+      success: () => {
+        onOpenChange(false);
+        return "Document saved";
+      },
+      error: error => errorMessage(error, "Failed to save document"),
+    });
+  };
+
+  return (
+    <Drawer direction={isMobile ? "bottom" : "right"} open={open} onOpenChange={onOpenChange}>
+      <DrawerContent>
+        <DrawerHeader className="gap-1">
+          <DrawerTitle>{document?.title ?? "Upload document"}</DrawerTitle>
+          <DrawerDescription>
+            {document
+              ? `${document.kind} · version ${document.currentVersion}`
+              : "Add an RFP, amendment or reference file for the team."}
+          </DrawerDescription>
+        </DrawerHeader>
+        <div className="flex flex-col gap-4 overflow-y-auto px-4 text-sm">
+          {document?.current && <DocumentPreview current={document.current} />}
+          <form
+            key={document?.updatedAt ?? "new"}
+            id={formId}
+            className="flex flex-col gap-4"
+            onSubmit={handleSubmit}
+          >
+            <div className="flex flex-col gap-3">
+              <Label htmlFor="document-file">{document ? "Upload a new version" : "File"}</Label>
+              <Input id="document-file" name="file" type="file" accept={DOCUMENT_ACCEPT} />
+            </div>
+            <div className="flex flex-col gap-3">
+              <Label htmlFor="document-title">Title</Label>
+              <Input
+                id="document-title"
+                name="title"
+                defaultValue={document?.title}
+                placeholder={document ? undefined : "Defaults to the file name"}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="flex flex-col gap-3">
+                <Label htmlFor="document-kind">Kind</Label>
+                <Select name="kind" defaultValue={document?.kind ?? "RFP"}>
+                  <SelectTrigger id="document-kind" className="w-full">
+                    <SelectValue placeholder="Select a kind" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DOCUMENT_KINDS.map(kind => (
+                      <SelectItem key={kind} value={kind}>
+                        {kind}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex flex-col gap-3">
+                <Label htmlFor="document-tags">Tags</Label>
+                <Input
+                  id="document-tags"
+                  name="tags"
+                  defaultValue={document?.tags.join(", ")}
+                  placeholder="section l, pricing"
+                />
+              </div>
+            </div>
+          </form>
+          {document && (
+            <>
+              <Separator />
+              <div className="flex flex-col gap-3">
+                <div className="font-medium">Versions</div>
+                <DocumentVersions documentId={document._id} />
+              </div>
+              <Separator />
+              <div className="flex flex-col gap-3">
+                <div className="font-medium">Linked sections</div>
+                {document.sections.length === 0 && (
+                  <p className="text-muted-foreground">No sections link to this document yet.</p>
+                )}
+                <div className="flex flex-wrap gap-2">
+                  {document.sections.map(section => (
+                    <Badge key={section._id} variant="outline" className="gap-1 py-1 pr-1">
+                      {section.header}
+                      <button
+                        type="button"
+                        className="hover:bg-muted rounded-sm"
+                        aria-label={`Unlink ${section.header}`}
+                        onClick={() =>
+                          toast.promise(
+                            unlink({ documentId: document._id, sectionId: section._id }),
+                            {
+                              loading: `Unlinking ${section.header}`,
+                              success: "Section unlinked",
+                              error: "Failed to unlink section",
+                            }
+                          )
+                        }
+                      >
+                        <IconX />
+                      </button>
+                    </Badge>
+                  ))}
+                </div>
+                <SectionPicker
+                  excludeIds={document.sections.map(section => section._id)}
+                  placeholder="Find a section to link this document..."
+                  onPick={section =>
+                    toast.promise(link({ documentId: document._id, sectionId: section._id }), {
+                      loading: `Linking ${section.header}`,
+                      success: "Section linked",
+                      error: "Failed to link section",
+                    })
+                  }
+                />
+              </div>
+            </>
+          )}
+        </div>
+        <DrawerFooter>
+          <Button type="submit" form={formId}>
+            {document ? "Submit" : "Upload"}
+          </Button>
+          <DrawerClose asChild>
+            <Button variant="outline">Done</Button>
+          </DrawerClose>
+        </DrawerFooter>
+      </DrawerContent>
+    </Drawer>
+  );
+}
+
+function DocumentViewer({ document }: { document: FocusDocument }) {
+  const [open, setOpen] = React.useState(false);
+
+  return (
+    <>
+      <Button
+        variant="link"
+        className="text-foreground w-fit px-0 text-left"
+        onClick={() => setOpen(true)}
+      >
+        <IconFileText />
+        {document.title}
+      </Button>
+      <DocumentEditor document={document} open={open} onOpenChange={setOpen} />
+    </>
+  );
+}
+
+function DocumentActions({ document }: { document: FocusDocument }) {
+  const removeDocument = useMutation(api.documents.remove);
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          className="data-[state=open]:bg-muted text-muted-foreground flex size-8"
+          size="icon"
+        >
+          <IconDotsVertical />
+          <span className="sr-only">Open menu</span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-36">
+        {document.current?.url && (
+          <>
+            <DropdownMenuItem asChild>
+              <a href={document.current.url} target="_blank" rel="noreferrer">
+                Download
+              </a>
+            </DropdownMenuItem>
+            <DropdownMenuSeparator />
+          </>
+        )}
+        <DropdownMenuItem
+          variant="destructive"
+          onClick={() =>
+            toast.promise(removeDocument({ id: document._id }), {
+              loading: `Deleting ${document.title}`,
+              success: "Document deleted",
+              error: "Failed to delete document",
+            })
+          }
+        >
+          Delete
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
+
+const columns: ColumnDef<FocusDocument>[] = [
+  {
+    accessorKey: "title",
+    header: "Document",
+    cell: ({ row }) => <DocumentViewer document={row.original} />,
+  },
+  {
+    accessorKey: "kind",
+    header: "Kind",
+    cell: ({ row }) => (
+      <Badge variant="outline" className="text-muted-foreground px-1.5">
+        {row.original.kind}
+      </Badge>
+    ),
+  },
+  {
+    id: "tags",
+    header: "Tags",
+    cell: ({ row }) => (
+      <div className="flex flex-wrap gap-1">
+        {row.original.tags.map(tag => (
+          <Badge key={tag} variant="secondary" className="px-1.5 font-normal">
+            {tag}
+          </Badge>
+        ))}
+      </div>
+    ),
+  },
+  {
+    id: "version",
+    header: "Version",
+    cell: ({ row }) => `v${row.original.currentVersion}`,
+  },
+  {
+    id: "size",
+    header: () => <div className="w-full text-right">Size</div>,
+    cell: ({ row }) => (
+      <div className="text-right tabular-nums">
+        {row.original.current ? formatFileSize(row.original.current.size) : "—"}
+      </div>
+    ),
+  },
+  {
+    id: "sections",
+    header: "Linked to",
+    cell: ({ row }) => {
+      const { sections } = row.original;
+      if (sections.length === 0) {
+        return <span className="text-muted-foreground">—</span>;
+      }
+      return (
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <Badge variant="outline" className="text-muted-foreground px-1.5">
+              {sections.length} section{sections.length === 1 ? "" : "s"}
+            </Badge>
+          </TooltipTrigger>
+          <TooltipContent>{sections.map(section => section.header).join(", ")}</TooltipContent>
+        </Tooltip>
+      );
+    },
+  },
+  {
+    id: "actions",
+    cell: ({ row }) => <DocumentActions document={row.original} />,
+  },
+];
+
+// RFP documents, amendments and reference files, filterable by tag
+export function FocusDocuments() {
+  const [tag, setTag] = React.useState<string | null>(null);
+  const options = useQuery(api.documents.options);
+  const {
+    results: data,
+    status,
+    loadMore,
+  } = usePaginatedQuery(
+    api.documents.list,
+    { tag: tag ?? undefined },
+    { initialNumItems: PAGE_SIZE }
+  );
+  const [isUploading, setIsUploading] = React.useState(false);
+  const tags = React.useMemo(
+    () => [...new Set((options?.documents ?? []).flatMap(document => document.tags))].sort(),
+    [options]
+  );
+
+  const table = useReactTable({
+    data,
+    columns,
+    getRowId: row => row._id,
+    getCoreRowModel: getCoreRowModel(),
+  });
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex items-center justify-between gap-2">
+        <Select
+          value={tag ?? "all"}
+          onValueChange={value => setTag(value === "all" ? null : value)}
+        >
+          <SelectTrigger className="w-48" size="sm" aria-label="Filter by tag">
+            <SelectValue placeholder="All tags" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All tags</SelectItem>
+            {tags.map(item => (
+              <SelectItem key={item} value={item}>
+                {item}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button variant="outline" size="sm" onClick={() => setIsUploading(true)}>
+          <IconUpload />
+          <span className="hidden lg:inline">Upload Document</span>
+        </Button>
+      </div>
+      <div className="overflow-hidden rounded-lg border">
+        <Table>
+          <TableHeader className="bg-muted sticky top-0 z-10">
+            {table.getHeaderGroups().map(headerGroup => (
+              <TableRow key={headerGroup.id}>
+                {headerGroup.headers.map(header => (
+                  <TableHead key={header.id} colSpan={header.colSpan}>
+                    {header.isPlaceholder
+                      ? null
+                      : flexRender(header.column.columnDef.header, header.getContext())}
+                  </TableHead>
+                ))}
+              </TableRow>
+            ))}
+          </TableHeader>
+          <TableBody>
+            {table.getRowModel().rows.length ? (
+              table.getRowModel().rows.map(row => (
+                <TableRow key={row.id}>
+                  {row.getVisibleCells().map(cell => (
+                    <TableCell key={cell.id}>
+                      {flexRender(cell.column.columnDef.cell, cell.getContext())}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))
+            ) : (
+              <TableRow>
+                <TableCell colSpan={columns.length} className="h-24 text-center">
+                  {status === "LoadingFirstPage" ? "Loading..." : "No documents uploaded."}
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </div>
+      {(status === "CanLoadMore" || status === "LoadingMore") && (
+        <Button
+          variant="outline"
+          size="sm"
+          className="self-center"
+          disabled={status === "LoadingMore"}
+          onClick={() => loadMore(PAGE_SIZE)}
+        >
+          {status === "LoadingMore" ? "Loading..." : "Load more"}
+        </Button>
+      )}
+      <DocumentEditor open={isUploading} onOpenChange={setIsUploading} />
+    </div>
+  );
+}
@@ -0,0 +1,281 @@
+"use client";
+
+import * as React from "react";
+import { IconAlertCircle, IconCircleCheck, IconFileImport } from "@tabler/icons-react";
+import { useMutation, useQuery } from "convex/react";
+import { ConvexError } from "convex/values";
+import { toast } from "sonner";
+
+import { api } from "../../convex/_generated/api";
+import { IMPORT_MAX } from "../../convex/lib/bulk";
+
+import { useProposalId } from "@/components/proposal-provider";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  guessMapping,
+  readSpreadsheet,
+  validateRows,
+  type ColumnMapping,
+  type SheetRows,
+} from "@/lib/import";
+import { sectionFieldLabels, type SectionField } from "@/lib/sections";
+
+const SKIP = "skip";
+
+type Step = "upload" | "map" | "preview";
+
+// Three-step wizard: pick a CSV/XLSX file, map its columns onto section fields,
+// then review row-level validation before committing the valid rows
+export function ImportSectionsDialog() {
+  const members = useQuery(api.users.listMembers);
+  const proposalId = useProposalId();
+  const importSections = useMutation(api.bulk.importSections);
+  const undo = useMutation(api.bulk.undo);
+
+  const [open, setOpen] = React.useState(false);
+  const [step, setStep] = React.useState<Step>("upload");
+  const [fileName, setFileName] = React.useState("");
+  const [headers, setHeaders] = React.useState<string[]>([]);
+  const [rows, setRows] = React.useState<SheetRows>([]);
+  const [mapping, setMapping] = React.useState<ColumnMapping | null>(null);
+  const [isImporting, setIsImporting] = React.useState(false);
+
+  const results = React.useMemo(
+    () =>
+      mapping && step === "preview" ? validateRows(rows, mapping, members?.members ?? []) : [],
+    [mapping, members, rows, step]
+  );
+  const validRows = results.flatMap(result => (result.values ? [result.values] : []));
+  const tooMany = validRows.length > IMPORT_MAX;
+
+  const reset = () => {
+    setStep("upload");
+    setFileName("");
+    setHeaders([]);
+    setRows([]);
+    setMapping(null);
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) {
+      return;
+    }
+    try {
+      const [headerRow, ...dataRows] = await readSpreadsheet(file);
+      if (!headerRow || dataRows.length === 0) {
+        toast.error("The file has no data rows");
+        return;
+      }
+      setFileName(file.name);
+      setHeaders(headerRow);
+      setRows(dataRows);
+      setMapping(guessMapping(headerRow));
+      setStep("map");
+    } catch {
+      toast.error("Could not read the file. Use a .csv or .xlsx spreadsheet.");
+    }
+  };
+
+  // Commit every valid row in one mutation, so the import is all or nothing
+  const handleImport = async () => {
+    setIsImporting(true);
+    try {
+      const { operationId, updated } = await importSections({ proposalId, rows: validRows });
+      toast.success(`Imported ${updated} section${updated === 1 ? "" : "s"}`, {
+        action: {
+          label: "Undo",
+          onClick: () =>
+            toast.promise(undo({ operationId }), {
+              loading: "Undoing import",
+              success: "Import undone",
+              error: "Failed to undo import",
+            }),
+        },
+      });
+      setOpen(false);
+      reset();
+    } catch (error) {
+      toast.error(error instanceof ConvexError ? String(error.data) : "Import failed");
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={value => {
+        setOpen(value);
+        if (!value) {
+          reset();
+        }
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <IconFileImport />
+          <span className="hidden lg:inline">Import</span>
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Import sections</DialogTitle>
+          <DialogDescription>
+            {step === "upload" &&
+              "Upload a CSV or XLSX outline. The first row must hold column names."}
+            {step === "map" && `Choose which column of ${fileName} feeds each section field.`}
+            {step === "preview" &&
+              (tooMany
+                ? `${validRows.length} rows are ready, but one import takes at most ${IMPORT_MAX}. Split the file and import it in parts.`
+                : `${validRows.length} of ${results.length} rows are ready to import.`)}
+            {step === "preview" &&
+              members?.truncated &&
+              ` Reviewers were matched against the first ${members.members.length} members only.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === "upload" && (
+          <div className="flex flex-col gap-3">
+            <Label htmlFor="import-file">Spreadsheet</Label>
+            <Input
+              id="import-file"
+              type="file"
+              accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+              onChange={e => void handleFile(e.target.files?.[0])}
+            />
+          </div>
+        )}
+
+        {step === "map" && mapping && (
+          <div className="grid grid-cols-2 gap-4">
+            {(Object.keys(sectionFieldLabels) as SectionField[]).map(field => (
+              <div key={field} className="flex flex-col gap-2">
+                <Label htmlFor={`map-${field}`}>
+                  {sectionFieldLabels[field]}
+                  {field === "header" && <span className="text-destructive">*</span>}
+                </Label>
+                <Select
+                  value={mapping[field] === null ? SKIP : String(mapping[field])}
+                  onValueChange={value =>
+                    setMapping({ ...mapping, [field]: value === SKIP ? null : Number(value) })
+                  }
+                >
+                  <SelectTrigger id={`map-${field}`} className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={SKIP}>Don&apos;t import</SelectItem>
+                    {headers.map((header, index) => (
+                      <SelectItem key={index} value={String(index)}>
+                        {header || `Column ${index + 1}`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {step === "preview" && (
+          <div className="max-h-[50vh] overflow-auto rounded-lg border">
+            <Table>
+              <TableHeader className="bg-muted sticky top-0 z-10">
+                <TableRow>
+                  <TableHead className="w-12">Row</TableHead>
+                  <TableHead>Header</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Target</TableHead>
+                  <TableHead className="text-right">Limit</TableHead>
+                  <TableHead>Result</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {results.map(result => (
+                  <TableRow key={result.rowNumber}>
+                    <TableCell className="text-muted-foreground">{result.rowNumber}</TableCell>
+                    <TableCell>{result.values?.header ?? "—"}</TableCell>
+                    <TableCell>{result.values?.type ?? "—"}</TableCell>
+                    <TableCell>{result.values?.status ?? "—"}</TableCell>
+                    <TableCell className="text-right">{result.values?.target ?? "—"}</TableCell>
+                    <TableCell className="text-right">{result.values?.limit ?? "—"}</TableCell>
+                    <TableCell className="whitespace-normal">
+                      {result.errors.length === 0 ? (
+                        <Badge variant="outline" className="text-muted-foreground px-1.5">
+                          <IconCircleCheck className="text-green-500" />
+                          Ready
+                        </Badge>
+                      ) : (
+                        <ul className="text-destructive flex flex-col gap-1 text-xs">
+                          {result.errors.map(error => (
+                            <li key={error} className="flex items-start gap-1">
+                              <IconAlertCircle className="mt-px size-3.5 shrink-0" />
+                              {error}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        <DialogFooter>
+          {step !== "upload" && (
+            <Button
+              variant="outline"
+              onClick={() => setStep(step === "preview" ? "map" : "upload")}
+              disabled={isImporting}
+            >
+              Back
+            </Button>
+          )}
+          {step === "map" && (
+            <Button onClick={() => setStep("preview")} disabled={mapping?.header === null}>
+              Preview
+            </Button>
+          )}
+          {step === "preview" && (
+            <Button
+              onClick={handleImport}
+              disabled={validRows.length === 0 || tooMany || isImporting}
+            >
+              Import {validRows.length} section{validRows.length === 1 ? "" : "s"}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,588 @@
+"use client";
+
+import * as React from "react";
+import {
+  IconAlertTriangle,
+  IconChevronLeft,
+  IconChevronRight,
+  IconDotsVertical,
+  IconFileText,
+  IconPlus,
+  IconTrash,
+} from "@tabler/icons-react";
+import { useMutation, useQuery } from "convex/react";
+import { ConvexError } from "convex/values";
+import type { FunctionReturnType } from "convex/server";
+import { toast } from "sonner";
+
+import { api } from "../../convex/_generated/api";
+import type { Id } from "../../convex/_generated/dataModel";
+import { DEFAULT_SORT, type SectionFilters } from "../../convex/lib/listing";
+import { CLEARANCE_LEVELS, FULL_TIME_ALLOCATION } from "../../convex/lib/staffing";
+
+import { useIsMobile } from "@/hooks/use-mobile";
+import { useSectionPages } from "@/hooks/use-section-pages";
+import { personnelSchema, RESUME_ACCEPT } from "@/lib/personnel";
+import { uploadToStorage } from "@/lib/upload";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Drawer,
+  DrawerClose,
+  DrawerContent,
+  DrawerDescription,
+  DrawerFooter,
+  DrawerHeader,
+  DrawerTitle,
+} from "@/components/ui/drawer";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Separator } from "@/components/ui/separator";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+
+type Person = FunctionReturnType<typeof api.personnel.list>[number];
+
+// Sections shown per page of the role matrix
+const MATRIX_PAGE_SIZE = 15;
+
+const NO_FILTERS: SectionFilters = {};
+
+// Upload a resume to Convex storage and attach it to a person
+function useUploadResume() {
+  const generateUploadUrl = useMutation(api.personnel.generateResumeUploadUrl);
+  const setResume = useMutation(api.personnel.setResume);
+
+  return async (id: Id<"personnel">, file: File) => {
+    const storageId = await uploadToStorage(await generateUploadUrl(), file);
+    await setResume({ id, storageId, fileName: file.name });
+  };
+}
+
+// Total allocation, with a warning when it is over a full-time load
+function AllocationBadge({ person }: { person: Person }) {
+  const badge = (
+    <Badge
+      variant="outline"
+      className={person.overCommitted ? "text-destructive px-1.5" : "text-muted-foreground px-1.5"}
+    >
+      {person.overCommitted && <IconAlertTriangle />}
+      {person.totalAllocation}%
+    </Badge>
+  );
+  if (!person.overCommitted) {
+    return badge;
+  }
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>{badge}</TooltipTrigger>
+      <TooltipContent>
+        Over-committed: assignments add up to {person.totalAllocation}% of a {FULL_TIME_ALLOCATION}%
+        load
+      </TooltipContent>
+    </Tooltip>
+  );
+}
+
+// Create or edit a person in a drawer, including their resume
+function PersonEditor({
+  person,
+  open,
+  onOpenChange,
+}: {
+  person?: Person;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const isMobile = useIsMobile();
+  const createPerson = useMutation(api.personnel.create);
+  const updatePerson = useMutation(api.personnel.update);
+  const removeResume = useMutation(api.personnel.removeResume);
+  const uploadResume = useUploadResume();
+  const formId = `${person?._id ?? "new"}-person-form`;
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+    const parsed = personnelSchema.safeParse({
+      name: formData.get("name"),
+      email: formData.get("email"),
+      role: formData.get("role"),
+      laborCategory: formData.get("laborCategory"),
+      clearance: formData.get("clearance"),
+      certifications: formData.get("certifications"),
+    });
+    if (!parsed.success) {
+      toast.error(parsed.error.issues[0]?.message ?? "Invalid profile");
+      return;
+    }
+    const resume = formData.get("resume");
+
+    const save = async () => {
+      let id = person?._id;
+      if (id) {
+        await updatePerson({ id, ...parsed.data });
+      } else {
+        id = await createPerson(parsed.data);
+      }
+      if (resume instanceof File && resume.size > 0) {
+        await uploadResume(id, resume);
+      }
+    };
+
+    toast.promise(save(), {
+      loading: `Saving ${parsed.data.name}`,
+      success: () => {
+        onOpenChange(false);
+        return "Profile saved";
+      },
+      error: error =>
+        error instanceof ConvexError ? String(error.data) : "Failed to save profile",
+    });
+  };
+
+  return (
+    <Drawer direction={isMobile ? "bottom" : "right"} open={open} onOpenChange={onOpenChange}>
+      <DrawerContent>
+        <DrawerHeader className="gap-1">
+          <DrawerTitle>{person?.name ?? "New team member"}</DrawerTitle>
+          <DrawerDescription>
+            {person ? person.role : "Add someone to the key personnel directory."}
+          </DrawerDescription>
+        </DrawerHeader>
+        <div className="flex flex-col gap-4 overflow-y-auto px-4 text-sm">
+          <form
+            key={person?.updatedAt ?? "new"}
+            id={formId}
+            className="flex flex-col gap-4"
+            onSubmit={handleSubmit}
+          >
+            <div className="grid grid-cols-2 gap-4">
+              <div className="flex flex-col gap-3">
+                <Label htmlFor="person-name">Name</Label>
+                <Input id="person-name" name="name" defaultValue={person?.name} />
+              </div>
+              <div className="flex flex-col gap-3">
+                <Label htmlFor="person-email">Email</Label>
+                <Input id="person-email" name="email" type="email" defaultValue={person?.email} />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="flex flex-col gap-3">
+                <Label htmlFor="person-role">Proposed role</Label>
+                <Input id="person-role" name="role" defaultValue={person?.role} />
+              </div>
+              <div className="flex flex-col gap-3">
+                <Label htmlFor="person-labor-category">Labor category</Label>
+                <Input
+                  id="person-labor-category"
+                  name="laborCategory"
+                  defaultValue={person?.laborCategory}
+                />
+              </div>
+            </div>
+            <div className="flex flex-col gap-3">
+              <Label htmlFor="person-clearance">Clearance</Label>
+              <Select name="clearance" defaultValue={person?.clearance ?? "None"}>
+                <SelectTrigger id="person-clearance" className="w-full">
+                  <SelectValue placeholder="Select a clearance" />
+                </SelectTrigger>
+                <SelectContent>
+                  {CLEARANCE_LEVELS.map(level => (
+                    <SelectItem key={level} value={level}>
+                      {level}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex flex-col gap-3">
+              <Label htmlFor="person-certifications">Certifications</Label>
+              <Input
+                id="person-certifications"
+                name="certifications"
+                defaultValue={person?.certifications.join(", ")}
+                placeholder="PMP, CISSP, AWS Solutions Architect"
+              />
+            </div>
+            <div className="flex flex-col gap-3">
+              <Label htmlFor="person-resume">Resume</Label>
+              {person?.resumeUrl && (
+                <div className="flex items-center justify-between gap-2">
+                  <Button variant="link" className="h-auto px-0" asChild>
+                    <a href={person.resumeUrl} target="_blank" rel="noreferrer">
+                      <IconFileText />
+                      {person.resumeName ?? "Resume"}
+                    </a>
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() =>
+                      toast.promise(removeResume({ id: person._id }), {
+                        loading: "Removing resume",
+                        success: "Resume removed",
+                        error: "Failed to remove resume",
+                      })
+                    }
+                  >
+                    <IconTrash />
+                    Remove
+                  </Button>
+                </div>
+              )}
+              <Input id="person-resume" name="resume" type="file" accept={RESUME_ACCEPT} />
+            </div>
+          </form>
+          {person && (
+            <>
+              <Separator />
+              <div className="flex flex-col gap-3">
+                <div className="flex items-center justify-between">
+                  <div className="font-medium">Assignments</div>
+                  <AllocationBadge person={person} />
+                </div>
+                {person.assignments.length === 0 ? (
+                  <p className="text-muted-foreground">
+                    Not staffed on any section. Use the role matrix to assign sections.
+                  </p>
+                ) : (
+                  person.assignments.map(assignment => (
+                    <div key={assignment.sectionId} className="flex justify-between gap-2">
+                      <span className="truncate">{assignment.header}</span>
+                      <span className="text-muted-foreground tabular-nums">
+                        {assignment.allocation}%
+                      </span>
+                    </div>
+                  ))
+                )}
+              </div>
+            </>
+          )}
+        </div>
+        <DrawerFooter>
+          <Button type="submit" form={formId}>
+            Submit
+          </Button>
+          <DrawerClose asChild>
+            <Button variant="outline">Done</Button>
+          </DrawerClose>
+        </DrawerFooter>
+      </DrawerContent>
+    </Drawer>
+  );
+}
+
+function PersonViewer({ person }: { person: Person }) {
+  const [open, setOpen] = React.useState(false);
+
+  return (
+    <>
+      <Button
+        variant="link"
+        className="text-foreground w-fit px-0 text-left"
+        onClick={() => setOpen(true)}
+      >
+        {person.name}
+      </Button>
+      <PersonEditor person={person} open={open} onOpenChange={setOpen} />
+    </>
+  );
+}
+
+function PersonActions({ person }: { person: Person }) {
+  const removePerson = useMutation(api.personnel.remove);
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          className="data-[state=open]:bg-muted text-muted-foreground flex size-8"
+          size="icon"
+        >
+          <IconDotsVertical />
+          <span className="sr-only">Open menu</span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-32">
+        <DropdownMenuItem
+          variant="destructive"
+          onClick={() =>
+            toast.promise(removePerson({ id: person._id }), {
+              loading: `Removing ${person.name}`,
+              success: "Person removed",
+              error: "Failed to remove person",
+            })
+          }
+        >
+          Delete
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
+
+function PersonnelDirectory({ people }: { people: Person[] | undefined }) {
+  return (
+    <div className="overflow-hidden rounded-lg border">
+      <Table>
+        <TableHeader className="bg-muted sticky top-0 z-10">
+          <TableRow>
+            <TableHead>Name</TableHead>
+            <TableHead>Proposed role</TableHead>
+            <TableHead>Labor category</TableHead>
+            <TableHead>Clearance</TableHead>
+            <TableHead>Certifications</TableHead>
+            <TableHead>Resume</TableHead>
+            <TableHead className="text-right">Allocation</TableHead>
+            <TableHead />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {people?.length ? (
+            people.map(person => (
+              <TableRow key={person._id}>
+                <TableCell>
+                  <PersonViewer person={person} />
+                </TableCell>
+                <TableCell>{person.role}</TableCell>
+                <TableCell>{person.laborCategory || "—"}</TableCell>
+                <TableCell>
+                  <Badge variant="outline" className="text-muted-foreground px-1.5">
+                    {person.clearance}
+                  </Badge>
+                </TableCell>
+                <TableCell className="whitespace-normal">
+                  <div className="flex flex-wrap gap-1">
+                    {person.certifications.map(certification => (
+                      <Badge key={certification} variant="secondary">
+                        {certification}
+                      </Badge>
+                    ))}
+                  </div>
+                </TableCell>
+                <TableCell>
+                  {person.resumeUrl ? (
+                    <Button variant="link" className="h-auto px-0" asChild>
+                      <a href={person.resumeUrl} target="_blank" rel="noreferrer">
+                        <IconFileText />
+                        View
+                      </a>
+                    </Button>
+                  ) : (
+                    <span className="text-muted-foreground">—</span>
+                  )}
+                </TableCell>
+                <TableCell className="text-right">
+                  <AllocationBadge person={person} />
+                </TableCell>
+                <TableCell>
+                  <PersonActions person={person} />
+                </TableCell>
+              </TableRow>
+            ))
+          ) : (
+            <TableRow>
+              <TableCell colSpan={8} className="h-24 text-center">
+                {people === undefined ? "Loading..." : "No key personnel yet."}
+              </TableCell>
+            </TableRow>
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
+
+// Percent of a person's time on one section. Saves on Enter or blur; clearing
+// the cell (or entering 0) removes the assignment.
+function AllocationCell({
+  person,
+  sectionId,
+  header,
+}: {
+  person: Person;
+  sectionId: Id<"sections">;
+  header: string;
+}) {
+  const assign = useMutation(api.personnel.assign);
+  const saved = person.assignments.find(item => item.sectionId === sectionId)?.allocation ?? 0;
+  const [value, setValue] = React.useState(saved ? String(saved) : "");
+
+  React.useEffect(() => {
+    setValue(saved ? String(saved) : "");
+  }, [saved]);
+
+  const commit = () => {
+    const allocation = value.trim() === "" ? 0 : Number(value);
+    if (allocation === saved) {
+      return;
+    }
+    assign({ personId: person._id, sectionId, allocation }).catch(error => {
+      setValue(saved ? String(saved) : "");
+      toast.error(
+        error instanceof ConvexError ? String(error.data) : "Failed to update assignment"
+      );
+    });
+  };
+
+  return (
+    <Input
+      value={value}
+      onChange={event => setValue(event.target.value)}
+      onBlur={commit}
+      onKeyDown={event => {
+        if (event.key === "Enter") {
+          event.currentTarget.blur();
+        }
+      }}
+      inputMode="numeric"
+      placeholder="—"
+      aria-label={`${person.name} allocation on ${header}`}
+      className="hover:bg-input/30 focus-visible:bg-background dark:hover:bg-input/30 dark:focus-visible:bg-input/30 ml-auto h-8 w-16 border-transparent bg-transparent text-right shadow-none focus-visible:border dark:bg-transparent"
+    />
+  );
+}
+
+// Sections down the side, people across the top; each cell is the percent of
+// that person's time the section needs
+function RoleMatrix({ people }: { people: Person[] | undefined }) {
+  const [pageIndex, setPageIndex] = React.useState(0);
+  const pages = useSectionPages({
+    pageIndex,
+    pageSize: MATRIX_PAGE_SIZE,
+    sort: DEFAULT_SORT,
+    filters: NO_FILTERS,
+  });
+
+  if (people?.length === 0) {
+    return (
+      <div className="text-muted-foreground rounded-lg border border-dashed p-8 text-center text-sm">
+        Add key personnel to start assigning them to sections.
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="overflow-x-auto rounded-lg border">
+        <Table>
+          <TableHeader className="bg-muted sticky top-0 z-10">
+            <TableRow>
+              <TableHead>Section</TableHead>
+              {people?.map(person => (
+                <TableHead key={person._id} className="text-right">
+                  <div className="flex flex-col items-end gap-1 py-1">
+                    <span>{person.name}</span>
+                    <AllocationBadge person={person} />
+                  </div>
+                </TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {pages.rows?.map(section => (
+              <TableRow key={section._id}>
+                <TableCell className="max-w-64 truncate">{section.header}</TableCell>
+                {people?.map(person => (
+                  <TableCell key={person._id}>
+                    <AllocationCell
+                      person={person}
+                      sectionId={section._id}
+                      header={section.header}
+                    />
+                  </TableCell>
+                ))}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+      <div className="flex items-center justify-end gap-2 text-sm font-medium">
+        Page {pageIndex + 1} of {pages.pageCount ?? 1}
+        <Button
+          variant="outline"
+          className="size-8"
+          size="icon"
+          onClick={() => setPageIndex(index => index - 1)}
+          disabled={pageIndex === 0}
+        >
+          <span className="sr-only">Go to previous page</span>
+          <IconChevronLeft />
+        </Button>
+        <Button
+          variant="outline"
+          className="size-8"
+          size="icon"
+          onClick={() => setPageIndex(index => index + 1)}
+          disabled={pages.isLoading || pageIndex + 1 >= (pages.pageCount ?? 1)}
+        >
+          <span className="sr-only">Go to next page</span>
+          <IconChevronRight />
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+// Key personnel directory and the proposed-role matrix
+export function KeyPersonnel() {
+  const people = useQuery(api.personnel.list);
+  const [view, setView] = React.useState("directory");
+  const [isCreating, setIsCreating] = React.useState(false);
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex items-center justify-between gap-2">
+        <ToggleGroup
+          type="single"
+          value={view}
+          onValueChange={value => value && setView(value)}
+          variant="outline"
+          size="sm"
+        >
+          <ToggleGroupItem value="directory" className="px-3">
+            Directory
+          </ToggleGroupItem>
+          <ToggleGroupItem value="matrix" className="px-3">
+            Role matrix
+          </ToggleGroupItem>
+        </ToggleGroup>
+        <Button variant="outline" size="sm" onClick={() => setIsCreating(true)}>
+          <IconPlus />
+          <span className="hidden lg:inline">Add Person</span>
+        </Button>
+      </div>
+      {view === "directory" ? (
+        <PersonnelDirectory people={people} />
+      ) : (
+        <RoleMatrix people={people} />
+      )}
+      <PersonEditor open={isCreating} onOpenChange={setIsCreating} />
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+"use client";
+
+import * as React from "react";
+import Link from "next/link";
+import { usePathname } from "next/navigation";
+import { IconDots, IconFileDescription, IconPlus } from "@tabler/icons-react";
+import { useQuery } from "convex/react";
+
+import { api } from "../../convex/_generated/api";
+
+import { ProposalDialog } from "@/components/proposal-dialog";
+import {
+  SidebarGroup,
+  SidebarGroupAction,
+  SidebarGroupLabel,
+  SidebarMenu,
+  SidebarMenuButton,
+  SidebarMenuItem,
+} from "@/components/ui/sidebar";
+
+// Proposals listed in the sidebar before "All proposals"
+const RECENT_COUNT = 5;
+
+// The most recently updated proposals, linking to their dashboards
+export function NavProposals() {
+  const proposals = useQuery(api.proposals.list);
+  const pathname = usePathname();
+  const [isCreating, setIsCreating] = React.useState(false);
+
+  return (
+    <SidebarGroup className="group-data-[collapsible=icon]:hidden">
+      <SidebarGroupLabel>Proposals</SidebarGroupLabel>
+      <SidebarGroupAction title="New proposal" onClick={() => setIsCreating(true)}>
+        <IconPlus />
+        <span className="sr-only">New proposal</span>
+      </SidebarGroupAction>
+      <SidebarMenu>
+        {proposals?.slice(0, RECENT_COUNT).map(proposal => {
+          const url = `/dashboard/proposals/${proposal._id}`;
+          return (
+            <SidebarMenuItem key={proposal._id}>
+              <SidebarMenuButton asChild isActive={pathname === url}>
+                <Link href={url}>
+                  <IconFileDescription />
+                  <span>{proposal.name}</span>
+                </Link>
+              </SidebarMenuButton>
+            </SidebarMenuItem>
+          );
+        })}
+        <SidebarMenuItem>
+          <SidebarMenuButton asChild className="text-sidebar-foreground/70">
+            <Link href="/dashboard">
+              <IconDots className="text-sidebar-foreground/70" />
+              <span>All proposals</span>
+            </Link>
+          </SidebarMenuButton>
+        </SidebarMenuItem>
+      </SidebarMenu>
+      <ProposalDialog open={isCreating} onOpenChange={setIsCreating} />
+    </SidebarGroup>
+  );
+}
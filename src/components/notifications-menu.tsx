@@ -0,0 +1,79 @@
+"use client";
+
+import { IconBell } from "@tabler/icons-react";
+import { useMutation, useQuery } from "convex/react";
+
+import { api } from "../../convex/_generated/api";
+
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { cn } from "@/lib/utils";
+
+export function NotificationsMenu() {
+  const notifications = useQuery(api.notifications.list);
+  const markRead = useMutation(api.notifications.markRead);
+  const markAllRead = useMutation(api.notifications.markAllRead);
+
+  const unreadCount = notifications?.filter(notification => !notification.read).length ?? 0;
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative size-8">
+          <IconBell />
+          {unreadCount > 0 && (
+            <span className="bg-primary text-primary-foreground absolute -top-0.5 -right-0.5 flex size-4 items-center justify-center rounded-full text-[10px] font-medium tabular-nums">
+              {unreadCount > 9 ? "9+" : unreadCount}
+            </span>
+          )}
+          <span className="sr-only">Notifications</span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80">
+        <DropdownMenuLabel className="flex items-center justify-between">
+          Notifications
+          {unreadCount > 0 && (
+            <Button
+              variant="link"
+              size="sm"
+              className="h-auto p-0 text-xs"
+              onClick={() => void markAllRead()}
+            >
+              Mark all as read
+            </Button>
+          )}
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {notifications?.length ? (
+          notifications.map(notification => (
+            <DropdownMenuItem
+              key={notification._id}
+              className={cn("flex flex-col items-start gap-1", notification.read && "opacity-60")}
+              onSelect={() => {
+                if (!notification.read) {
+                  void markRead({ id: notification._id });
+                }
+              }}
+            >
+              <span className="text-sm">{notification.message}</span>
+              <span className="text-muted-foreground text-xs">
+                {new Date(notification.createdAt).toLocaleString()}
+              </span>
+            </DropdownMenuItem>
+          ))
+        ) : (
+          <div className="text-muted-foreground px-2 py-6 text-center text-sm">
+            You&apos;re all caught up.
+          </div>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
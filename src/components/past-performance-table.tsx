@@ -0,0 +1,477 @@
+"use client";
+
+import * as React from "react";
+import { IconDotsVertical, IconPlus, IconSearch, IconTrash, IconX } from "@tabler/icons-react";
+import { ColumnDef, flexRender, getCoreRowModel, useReactTable } from "@tanstack/react-table";
+import { useMutation, useQuery } from "convex/react";
+import type { FunctionReturnType } from "convex/server";
+import { toast } from "sonner";
+
+import { api } from "../../convex/_generated/api";
+
+import { useIsMobile } from "@/hooks/use-mobile";
+import {
+  formatContractValue,
+  formatPeriod,
+  pastPerformanceSchema,
+  type Contact,
+} from "@/lib/past-performance";
+import { SectionPicker } from "@/components/section-picker";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Drawer,
+  DrawerClose,
+  DrawerContent,
+  DrawerDescription,
+  DrawerFooter,
+  DrawerHeader,
+  DrawerTitle,
+} from "@/components/ui/drawer";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+
+type PastPerformance = FunctionReturnType<typeof api.pastPerformance.list>[number];
+
+const emptyContact: Contact = { name: "", title: "", email: "", phone: "" };
+
+// Create or edit a record in a drawer. Points of contact are edited in place;
+// citing sections are linked immediately rather than on submit.
+function PastPerformanceEditor({
+  record,
+  open,
+  onOpenChange,
+}: {
+  record?: PastPerformance;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const isMobile = useIsMobile();
+  const createRecord = useMutation(api.pastPerformance.create);
+  const updateRecord = useMutation(api.pastPerformance.update);
+  const link = useMutation(api.pastPerformance.link);
+  const unlink = useMutation(api.pastPerformance.unlink);
+  const [contacts, setContacts] = React.useState<Contact[]>(record?.contacts ?? []);
+  const [wasOpen, setWasOpen] = React.useState(open);
+  const formId = `${record?._id ?? "new"}-past-performance-form`;
+
+  // Start from the saved contacts each time the drawer opens, without clobbering
+  // edits in progress when the record changes elsewhere
+  if (open !== wasOpen) {
+    setWasOpen(open);
+    if (open) {
+      setContacts(record?.contacts ?? []);
+    }
+  }
+
+  const updateContact = (index: number, field: keyof Contact, value: string) =>
+    setContacts(current =>
+      current.map((contact, i) => (i === index ? { ...contact, [field]: value } : contact))
+    );
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+    const parsed = pastPerformanceSchema.safeParse({
+      contractName: formData.get("contractName"),
+      customer: formData.get("customer"),
+      contractNumber: formData.get("contractNumber"),
+      periodStart: formData.get("periodStart"),
+      periodEnd: formData.get("periodEnd"),
+      value: formData.get("value"),
+      relevance: formData.get("relevance"),
+      contacts,
+    });
+    if (!parsed.success) {
+      toast.error(parsed.error.issues[0]?.message ?? "Invalid record");
+      return;
+    }
+
+    const save = record
+      ? updateRecord({ id: record._id, ...parsed.data })
+      : createRecord(parsed.data);
+    toast.promise(save, {
+      loading: `Saving ${parsed.data.contractName}`,
+      success: () => {
+        onOpenChange(false);
+        return "Record saved";
+      },
+      error: "Failed to save record",
+    });
+  };
+
+  return (
+    <Drawer direction={isMobile ? "bottom" : "right"} open={open} onOpenChange={onOpenChange}>
+      <DrawerContent>
+        <DrawerHeader className="gap-1">
+          <DrawerTitle>{record?.contractName ?? "New past performance record"}</DrawerTitle>
+          <DrawerDescription>
+            {record ? record.customer : "Describe a past contract so writers can cite it."}
+          </DrawerDescription>
+        </DrawerHeader>
+        <div className="flex flex-col gap-4 overflow-y-auto px-4 text-sm">
+          <form
+            key={record?.updatedAt ?? "new"}
+            id={formId}
+            className="flex flex-col gap-4"
+            onSubmit={handleSubmit}
+          >
+            <div className="flex flex-col gap-3">
+              <Label htmlFor="contractName">Contract name</Label>
+              <Input id="contractName" name="contractName" defaultValue={record?.contractName} />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="flex flex-col gap-3">
+                <Label htmlFor="customer">Customer</Label>
+                <Input id="customer" name="customer" defaultValue={record?.customer} />
+              </div>
+              <div className="flex flex-col gap-3">
+                <Label htmlFor="contractNumber">Contract number</Label>
+                <Input
+                  id="contractNumber"
+                  name="contractNumber"
+                  defaultValue={record?.contractNumber}
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="flex flex-col gap-3">
+                <Label htmlFor="periodStart">Period start</Label>
+                <Input
+                  id="periodStart"
+                  name="periodStart"
+                  type="date"
+                  defaultValue={record?.periodStart}
+                />
+              </div>
+              <div className="flex flex-col gap-3">
+                <Label htmlFor="periodEnd">Period end</Label>
+                <Input
+                  id="periodEnd"
+                  name="periodEnd"
+                  type="date"
+                  defaultValue={record?.periodEnd}
+                />
+              </div>
+            </div>
+            <div className="flex flex-col gap-3">
+              <Label htmlFor="value">Contract value (USD)</Label>
+              <Input
+                id="value"
+                name="value"
+                type="number"
+                min={0}
+                step="any"
+                defaultValue={record?.value ?? 0}
+              />
+            </div>
+            <div className="flex flex-col gap-3">
+              <Label htmlFor="relevance">Relevance</Label>
+              <textarea
+                id="relevance"
+                name="relevance"
+                rows={5}
+                defaultValue={record?.relevance}
+                placeholder="Scope, outcomes and why this contract matters for the bid"
+                className="border-input placeholder:text-muted-foreground focus-visible:border-ring focus-visible:ring-ring/50 dark:bg-input/30 min-h-16 w-full rounded-md border bg-transparent px-3 py-2 text-sm shadow-xs outline-none focus-visible:ring-[3px]"
+              />
+            </div>
+            <div className="flex flex-col gap-3">
+              <div className="flex items-center justify-between">
+                <Label>Points of contact</Label>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setContacts(current => [...current, { ...emptyContact }])}
+                >
+                  <IconPlus />
+                  Add contact
+                </Button>
+              </div>
+              {contacts.map((contact, index) => (
+                <div key={index} className="grid grid-cols-2 gap-2 rounded-lg border p-3">
+                  <Input
+                    value={contact.name}
+                    onChange={event => updateContact(index, "name", event.target.value)}
+                    placeholder="Name"
+                    aria-label="Contact name"
+                  />
+                  <Input
+                    value={contact.title ?? ""}
+                    onChange={event => updateContact(index, "title", event.target.value)}
+                    placeholder="Title"
+                    aria-label="Contact title"
+                  />
+                  <Input
+                    value={contact.email ?? ""}
+                    onChange={event => updateContact(index, "email", event.target.value)}
+                    placeholder="Email"
+                    type="email"
+                    aria-label="Contact email"
+                  />
+                  <div className="flex gap-2">
+                    <Input
+                      value={contact.phone ?? ""}
+                      onChange={event => updateContact(index, "phone", event.target.value)}
+                      placeholder="Phone"
+                      aria-label="Contact phone"
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setContacts(current => current.filter((_, i) => i !== index))}
+                    >
+                      <IconTrash />
+                      <span className="sr-only">Remove contact</span>
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </form>
+          {record && (
+            <>
+              <Separator />
+              <div className="flex flex-col gap-3">
+                <div className="font-medium">Cited by</div>
+                {record.sections.length === 0 && (
+                  <p className="text-muted-foreground">No sections cite this record yet.</p>
+                )}
+                <div className="flex flex-wrap gap-2">
+                  {record.sections.map(section => (
+                    <Badge key={section._id} variant="outline" className="gap-1 py-1 pr-1">
+                      {section.header}
+                      <button
+                        type="button"
+                        className="hover:bg-muted rounded-sm"
+                        aria-label={`Unlink ${section.header}`}
+                        onClick={() =>
+                          toast.promise(unlink({ recordId: record._id, sectionId: section._id }), {
+                            loading: `Unlinking ${section.header}`,
+                            success: "Section unlinked",
+                            error: "Failed to unlink section",
+                          })
+                        }
+                      >
+                        <IconX />
+                      </button>
+                    </Badge>
+                  ))}
+                </div>
+                <SectionPicker
+                  excludeIds={record.sections.map(section => section._id)}
+                  placeholder="Find a section to cite this record..."
+                  onPick={section =>
+                    toast.promise(link({ recordId: record._id, sectionId: section._id }), {
+                      loading: `Linking ${section.header}`,
+                      success: "Section linked",
+                      error: "Failed to link section",
+                    })
+                  }
+                />
+              </div>
+            </>
+          )}
+        </div>
+        <DrawerFooter>
+          <Button type="submit" form={formId}>
+            Submit
+          </Button>
+          <DrawerClose asChild>
+            <Button variant="outline">Done</Button>
+          </DrawerClose>
+        </DrawerFooter>
+      </DrawerContent>
+    </Drawer>
+  );
+}
+
+function PastPerformanceViewer({ record }: { record: PastPerformance }) {
+  const [open, setOpen] = React.useState(false);
+
+  return (
+    <>
+      <Button
+        variant="link"
+        className="text-foreground w-fit px-0 text-left"
+        onClick={() => setOpen(true)}
+      >
+        {record.contractName}
+      </Button>
+      <PastPerformanceEditor record={record} open={open} onOpenChange={setOpen} />
+    </>
+  );
+}
+
+function PastPerformanceActions({ record }: { record: PastPerformance }) {
+  const removeRecord = useMutation(api.pastPerformance.remove);
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          className="data-[state=open]:bg-muted text-muted-foreground flex size-8"
+          size="icon"
+        >
+          <IconDotsVertical />
+          <span className="sr-only">Open menu</span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-32">
+        <DropdownMenuItem
+          variant="destructive"
+          onClick={() =>
+            toast.promise(removeRecord({ id: record._id }), {
+              loading: `Deleting ${record.contractName}`,
+              success: "Record deleted",
+              error: "Failed to delete record",
+            })
+          }
+        >
+          Delete
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
+
+const columns: ColumnDef<PastPerformance>[] = [
+  {
+    accessorKey: "contractName",
+    header: "Contract",
+    cell: ({ row }) => <PastPerformanceViewer record={row.original} />,
+  },
+  {
+    accessorKey: "customer",
+    header: "Customer",
+  },
+  {
+    id: "period",
+    header: "Period",
+    cell: ({ row }) => formatPeriod(row.original.periodStart, row.original.periodEnd),
+  },
+  {
+    accessorKey: "value",
+    header: () => <div className="w-full text-right">Value</div>,
+    cell: ({ row }) => (
+      <div className="text-right tabular-nums">{formatContractValue(row.original.value)}</div>
+    ),
+  },
+  {
+    id: "sections",
+    header: "Cited by",
+    cell: ({ row }) => {
+      const { sections } = row.original;
+      if (sections.length === 0) {
+        return <span className="text-muted-foreground">—</span>;
+      }
+      return (
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <Badge variant="outline" className="text-muted-foreground px-1.5">
+              {sections.length} section{sections.length === 1 ? "" : "s"}
+            </Badge>
+          </TooltipTrigger>
+          <TooltipContent>{sections.map(section => section.header).join(", ")}</TooltipContent>
+        </Tooltip>
+      );
+    },
+  },
+  {
+    id: "actions",
+    cell: ({ row }) => <PastPerformanceActions record={row.original} />,
+  },
+];
+
+// Past-performance records with search and an editor for new records
+export function PastPerformanceTable() {
+  const [search, setSearch] = React.useState("");
+  const deferredSearch = React.useDeferredValue(search.trim());
+  const records = useQuery(api.pastPerformance.list, { search: deferredSearch || undefined });
+  const [isCreating, setIsCreating] = React.useState(false);
+  const data = React.useMemo(() => records ?? [], [records]);
+
+  const table = useReactTable({
+    data,
+    columns,
+    getRowId: row => row._id,
+    getCoreRowModel: getCoreRowModel(),
+  });
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex items-center justify-between gap-2">
+        <div className="relative w-full sm:w-64">
+          <IconSearch className="text-muted-foreground pointer-events-none absolute top-1/2 left-2.5 size-4 -translate-y-1/2" />
+          <Input
+            value={search}
+            onChange={event => setSearch(event.target.value)}
+            placeholder="Search contracts..."
+            aria-label="Search past performance"
+            className="h-8 pl-8"
+          />
+        </div>
+        <Button variant="outline" size="sm" onClick={() => setIsCreating(true)}>
+          <IconPlus />
+          <span className="hidden lg:inline">Add Record</span>
+        </Button>
+      </div>
+      <div className="overflow-hidden rounded-lg border">
+        <Table>
+          <TableHeader className="bg-muted sticky top-0 z-10">
+            {table.getHeaderGroups().map(headerGroup => (
+              <TableRow key={headerGroup.id}>
+                {headerGroup.headers.map(header => (
+                  <TableHead key={header.id} colSpan={header.colSpan}>
+                    {header.isPlaceholder
+                      ? null
+                      : flexRender(header.column.columnDef.header, header.getContext())}
+                  </TableHead>
+                ))}
+              </TableRow>
+            ))}
+          </TableHeader>
+          <TableBody>
+            {table.getRowModel().rows.length ? (
+              table.getRowModel().rows.map(row => (
+                <TableRow key={row.id}>
+                  {row.getVisibleCells().map(cell => (
+                    <TableCell key={cell.id}>
+                      {flexRender(cell.column.columnDef.cell, cell.getContext())}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))
+            ) : (
+              <TableRow>
+                <TableCell colSpan={columns.length} className="h-24 text-center">
+                  {records === undefined ? "Loading..." : "No past performance records."}
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </div>
+      <PastPerformanceEditor open={isCreating} onOpenChange={setIsCreating} />
+    </div>
+  );
+}
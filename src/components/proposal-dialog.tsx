@@ -0,0 +1,122 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useMutation } from "convex/react";
+import { ConvexError } from "convex/values";
+import { toast } from "sonner";
+
+import { api } from "../../convex/_generated/api";
+import type { Doc } from "../../convex/_generated/dataModel";
+
+import { proposalSchema } from "@/lib/proposals";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+// Create a proposal, or edit `proposal` when given. A new proposal opens its
+// dashboard once it is saved.
+export function ProposalDialog({
+  proposal,
+  open,
+  onOpenChange,
+}: {
+  proposal?: Doc<"proposals">;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const router = useRouter();
+  const createProposal = useMutation(api.proposals.create);
+  const updateProposal = useMutation(api.proposals.update);
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+    const parsed = proposalSchema.safeParse({
+      name: formData.get("name"),
+      agency: formData.get("agency"),
+      solicitationNumber: formData.get("solicitationNumber"),
+      dueDate: formData.get("dueDate"),
+    });
+    if (!parsed.success) {
+      toast.error(parsed.error.issues[0]?.message ?? "Invalid proposal");
+      return;
+    }
+
+    const save = async () => {
+      if (proposal) {
+        await updateProposal({ id: proposal._id, ...parsed.data });
+        return proposal._id;
+      }
+      return await createProposal(parsed.data);
+    };
+    toast.promise(save(), {
+      loading: `Saving ${parsed.data.name}`,
+      success: id => {
+        onOpenChange(false);
+        if (!proposal) {
+          router.push(`/dashboard/proposals/${id}`);
+        }
+        return proposal ? "Proposal saved" : "Proposal created";
+      },
+      error: error =>
+        error instanceof ConvexError ? String(error.data) : "Failed to save proposal",
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{proposal ? "Edit proposal" : "New proposal"}</DialogTitle>
+          <DialogDescription>
+            Each proposal has its own outline, dashboard and deadline.
+          </DialogDescription>
+        </DialogHeader>
+        <form
+          key={proposal?.updatedAt ?? "new"}
+          className="flex flex-col gap-4"
+          onSubmit={handleSubmit}
+        >
+          <div className="flex flex-col gap-3">
+            <Label htmlFor="proposal-name">Name</Label>
+            <Input id="proposal-name" name="name" defaultValue={proposal?.name} />
+          </div>
+          <div className="flex flex-col gap-3">
+            <Label htmlFor="proposal-agency">Agency</Label>
+            <Input id="proposal-agency" name="agency" defaultValue={proposal?.agency} />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="flex flex-col gap-3">
+              <Label htmlFor="proposal-solicitation">Solicitation Number</Label>
+              <Input
+                id="proposal-solicitation"
+                name="solicitationNumber"
+                defaultValue={proposal?.solicitationNumber}
+              />
+            </div>
+            <div className="flex flex-col gap-3">
+              <Label htmlFor="proposal-due">Due Date</Label>
+              <Input
+                id="proposal-due"
+                name="dueDate"
+                type="date"
+                defaultValue={proposal?.dueDate}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button type="submit">{proposal ? "Save" : "Create proposal"}</Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
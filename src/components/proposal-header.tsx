@@ -0,0 +1,125 @@
+"use client";
+
+import * as React from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { IconDotsVertical, IconPencil, IconTrash } from "@tabler/icons-react";
+import { useMutation, useQuery } from "convex/react";
+import { toast } from "sonner";
+
+import { api } from "../../convex/_generated/api";
+
+import { daysUntil, dueLabel } from "@/lib/proposals";
+import { useProposalId } from "@/components/proposal-provider";
+import { ProposalDialog } from "@/components/proposal-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+
+// Name, agency and deadline of the open proposal, with edit and delete actions
+export function ProposalHeader() {
+  const router = useRouter();
+  const proposalId = useProposalId();
+  const proposal = useQuery(api.proposals.get, { id: proposalId });
+  const removeProposal = useMutation(api.proposals.remove);
+  const [isEditing, setIsEditing] = React.useState(false);
+  const [isDeleting, setIsDeleting] = React.useState(false);
+
+  if (proposal === undefined) {
+    return null;
+  }
+  if (proposal === null) {
+    return (
+      <div className="flex flex-col gap-2 px-4 lg:px-6">
+        <h2 className="text-xl font-semibold">Proposal not found</h2>
+        <p className="text-muted-foreground text-sm">
+          It may have been deleted.{" "}
+          <Link href="/dashboard" className="underline underline-offset-4">
+            See all proposals
+          </Link>
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-start justify-between gap-4 px-4 lg:px-6">
+      <div className="flex min-w-0 flex-col gap-1">
+        <h2 className="truncate text-xl font-semibold">{proposal.name}</h2>
+        <div className="text-muted-foreground flex flex-wrap items-center gap-2 text-sm">
+          <span>{proposal.agency}</span>
+          {proposal.solicitationNumber && <span>· {proposal.solicitationNumber}</span>}
+          <Badge
+            variant="outline"
+            className={daysUntil(proposal.dueDate) < 0 ? "text-destructive px-1.5" : "px-1.5"}
+          >
+            {dueLabel(proposal.dueDate)}
+          </Badge>
+        </div>
+      </div>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="icon" className="text-muted-foreground size-8">
+            <IconDotsVertical />
+            <span className="sr-only">Proposal actions</span>
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-40">
+          <DropdownMenuItem onClick={() => setIsEditing(true)}>
+            <IconPencil />
+            Edit details
+          </DropdownMenuItem>
+          <DropdownMenuItem variant="destructive" onClick={() => setIsDeleting(true)}>
+            <IconTrash />
+            Delete
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <ProposalDialog proposal={proposal} open={isEditing} onOpenChange={setIsEditing} />
+      <Dialog open={isDeleting} onOpenChange={setIsDeleting}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete {proposal.name}?</DialogTitle>
+            <DialogDescription>
+              The proposal and every section in its outline are deleted for good. This cannot be
+              undone.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDeleting(false)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() =>
+                toast.promise(removeProposal({ id: proposal._id }), {
+                  loading: `Deleting ${proposal.name}`,
+                  success: () => {
+                    router.push("/dashboard");
+                    return "Proposal deleted";
+                  },
+                  error: "Failed to delete proposal",
+                })
+              }
+            >
+              Delete proposal
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
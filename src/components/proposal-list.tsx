@@ -0,0 +1,92 @@
+"use client";
+
+import * as React from "react";
+import Link from "next/link";
+import { IconPlus } from "@tabler/icons-react";
+import { useQuery } from "convex/react";
+
+import { api } from "../../convex/_generated/api";
+
+import { daysUntil, dueLabel, formatDueDate } from "@/lib/proposals";
+import { ProposalDialog } from "@/components/proposal-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+// Every proposal, most recently updated first, with a button to start a new one
+export function ProposalList() {
+  const proposals = useQuery(api.proposals.list);
+  const [isCreating, setIsCreating] = React.useState(false);
+
+  return (
+    <div className="flex flex-col gap-4 px-4 lg:px-6">
+      <div className="flex items-center justify-between gap-2">
+        <h2 className="text-xl font-semibold">Proposals</h2>
+        <Button variant="outline" size="sm" onClick={() => setIsCreating(true)}>
+          <IconPlus />
+          New Proposal
+        </Button>
+      </div>
+      <div className="overflow-hidden rounded-lg border">
+        <Table>
+          <TableHeader className="bg-muted">
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>Agency</TableHead>
+              <TableHead>Solicitation Number</TableHead>
+              <TableHead>Due Date</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {proposals?.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={4} className="h-24 text-center">
+                  No proposals yet. Create one to start an outline.
+                </TableCell>
+              </TableRow>
+            )}
+            {proposals?.map(proposal => (
+              <TableRow key={proposal._id}>
+                <TableCell className="font-medium">
+                  <Link
+                    href={`/dashboard/proposals/${proposal._id}`}
+                    className="underline-offset-4 hover:underline"
+                  >
+                    {proposal.name}
+                  </Link>
+                </TableCell>
+                <TableCell>{proposal.agency}</TableCell>
+                <TableCell className="text-muted-foreground">
+                  {proposal.solicitationNumber ?? "—"}
+                </TableCell>
+                <TableCell>
+                  <div className="flex items-center gap-2">
+                    {formatDueDate(proposal.dueDate)}
+                    <Badge
+                      variant="outline"
+                      className={
+                        daysUntil(proposal.dueDate) < 0
+                          ? "text-destructive px-1.5"
+                          : "text-muted-foreground px-1.5"
+                      }
+                    >
+                      {dueLabel(proposal.dueDate)}
+                    </Badge>
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+      <ProposalDialog open={isCreating} onOpenChange={setIsCreating} />
+    </div>
+  );
+}
@@ -0,0 +1,27 @@
+"use client";
+
+import * as React from "react";
+
+import type { Id } from "../../convex/_generated/dataModel";
+
+const ProposalContext = React.createContext<Id<"proposals"> | null>(null);
+
+// The proposal whose dashboard is open; outline components scope their queries to it
+export function useProposalId() {
+  const proposalId = React.useContext(ProposalContext);
+  if (!proposalId) {
+    throw new Error("useProposalId must be used within a ProposalProvider.");
+  }
+
+  return proposalId;
+}
+
+export function ProposalProvider({
+  proposalId,
+  children,
+}: {
+  proposalId: Id<"proposals">;
+  children: React.ReactNode;
+}) {
+  return <ProposalContext.Provider value={proposalId}>{children}</ProposalContext.Provider>;
+}
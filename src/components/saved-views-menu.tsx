@@ -0,0 +1,266 @@
+"use client";
+
+import * as React from "react";
+import {
+  IconChevronDown,
+  IconDeviceFloppy,
+  IconLayoutList,
+  IconStar,
+  IconStarFilled,
+  IconTrash,
+  IconUsers,
+} from "@tabler/icons-react";
+import { useMutation, useQuery } from "convex/react";
+import { ConvexError } from "convex/values";
+import { toast } from "sonner";
+
+import { api } from "../../convex/_generated/api";
+import type { Id } from "../../convex/_generated/dataModel";
+import type { TableLayout } from "../../convex/lib/listing";
+
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+// JSON with object keys sorted, so layouts compare equal whatever order their
+// keys were stored in
+function canonical(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonical).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${canonical(item)}`).join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function errorMessage(error: unknown, fallback: string) {
+  return error instanceof ConvexError ? String(error.data) : fallback;
+}
+
+// Named table layouts saved in Convex. Opens the user's default view on first
+// load unless `applyDefault` is false (e.g. a shared link already carries filters).
+export function SavedViewsMenu({
+  layout,
+  defaultLayout,
+  applyDefault,
+  onApply,
+}: {
+  layout: TableLayout;
+  defaultLayout: TableLayout;
+  applyDefault: boolean;
+  onApply: (layout: TableLayout) => void;
+}) {
+  const data = useQuery(api.views.list);
+  const createView = useMutation(api.views.create);
+  const updateView = useMutation(api.views.update);
+  const removeView = useMutation(api.views.remove);
+  const setDefault = useMutation(api.views.setDefault);
+
+  const [activeId, setActiveId] = React.useState<Id<"tableViews"> | null>(null);
+  const [isSaving, setIsSaving] = React.useState(false);
+  const [name, setName] = React.useState("");
+  const [shared, setShared] = React.useState(false);
+  const appliedDefault = React.useRef(!applyDefault);
+
+  const views = data?.views ?? [];
+  const active = views.find(view => view._id === activeId);
+  const isModified = active !== undefined && canonical(active.layout) !== canonical(layout);
+
+  React.useEffect(() => {
+    if (appliedDefault.current || !data) {
+      return;
+    }
+    appliedDefault.current = true;
+    const preferred = data.views.find(view => view._id === data.defaultViewId);
+    if (preferred) {
+      setActiveId(preferred._id);
+      onApply(preferred.layout);
+    }
+  }, [data, onApply]);
+
+  const open = (view: (typeof views)[number] | null) => {
+    setActiveId(view?._id ?? null);
+    onApply(view?.layout ?? defaultLayout);
+  };
+
+  const run = (promise: Promise<unknown>, success: string, failure: string) =>
+    promise
+      .then(() => toast.success(success))
+      .catch(error => toast.error(errorMessage(error, failure)));
+
+  const saveNew = async (event: React.FormEvent) => {
+    event.preventDefault();
+    try {
+      const id = await createView({ name, shared, layout });
+      setActiveId(id);
+      setIsSaving(false);
+      toast.success(`Saved view "${name.trim()}"`);
+    } catch (error) {
+      toast.error(errorMessage(error, "Failed to save view"));
+    }
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm">
+            <IconLayoutList />
+            <span className="hidden max-w-40 truncate lg:inline">
+              {active?.name ?? "Default view"}
+              {isModified && "*"}
+            </span>
+            <IconChevronDown />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-64">
+          <DropdownMenuLabel>Views</DropdownMenuLabel>
+          <DropdownMenuItem onClick={() => open(null)}>
+            <span className="truncate">Default view</span>
+          </DropdownMenuItem>
+          {views.map(view => (
+            <DropdownMenuItem key={view._id} onClick={() => open(view)}>
+              <span className="truncate">{view.name}</span>
+              <span className="text-muted-foreground ml-auto flex items-center gap-1">
+                {view.shared && <IconUsers aria-label="Shared with the team" />}
+                {view._id === data?.defaultViewId && <IconStarFilled aria-label="Your default" />}
+              </span>
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem
+            onClick={() => {
+              setName("");
+              setShared(false);
+              setIsSaving(true);
+            }}
+          >
+            <IconDeviceFloppy />
+            Save as new view...
+          </DropdownMenuItem>
+          {active?.mine && (
+            <>
+              <DropdownMenuItem
+                disabled={!isModified}
+                onClick={() =>
+                  run(
+                    updateView({ id: active._id, layout }),
+                    `Updated "${active.name}"`,
+                    "Failed to update view"
+                  )
+                }
+              >
+                <IconDeviceFloppy />
+                Save changes to view
+              </DropdownMenuItem>
+              <DropdownMenuItem
+                onClick={() =>
+                  run(
+                    updateView({ id: active._id, shared: !active.shared }),
+                    active.shared ? "View is now private" : "View shared with the team",
+                    "Failed to update view"
+                  )
+                }
+              >
+                <IconUsers />
+                {active.shared ? "Stop sharing" : "Share with team"}
+              </DropdownMenuItem>
+            </>
+          )}
+          {active && (
+            <DropdownMenuItem
+              onClick={() => {
+                const isDefault = active._id === data?.defaultViewId;
+                run(
+                  setDefault({ id: isDefault ? null : active._id }),
+                  isDefault ? "Default view cleared" : `"${active.name}" is now your default`,
+                  "Failed to set default view"
+                );
+              }}
+            >
+              {active._id === data?.defaultViewId ? <IconStarFilled /> : <IconStar />}
+              {active._id === data?.defaultViewId ? "Clear my default" : "Make my default"}
+            </DropdownMenuItem>
+          )}
+          {active?.mine && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem
+                variant="destructive"
+                onClick={() =>
+                  run(
+                    removeView({ id: active._id }).then(() => setActiveId(null)),
+                    `Deleted "${active.name}"`,
+                    "Failed to delete view"
+                  )
+                }
+              >
+                <IconTrash />
+                Delete view
+              </DropdownMenuItem>
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <Dialog open={isSaving} onOpenChange={setIsSaving}>
+        <DialogContent className="sm:max-w-md">
+          <form onSubmit={saveNew} className="flex flex-col gap-4">
+            <DialogHeader>
+              <DialogTitle>Save view</DialogTitle>
+              <DialogDescription>
+                Saves the visible columns and their order, sorting, filters and page size.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="flex flex-col gap-3">
+              <Label htmlFor="view-name">Name</Label>
+              <Input
+                id="view-name"
+                value={name}
+                onChange={event => setName(event.target.value)}
+                placeholder="e.g. My open reviews"
+                autoFocus
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="view-shared"
+                checked={shared}
+                onCheckedChange={value => setShared(!!value)}
+              />
+              <Label htmlFor="view-shared">Share with the team</Label>
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsSaving(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={!name.trim()}>
+                Save view
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,231 @@
+"use client";
+
+import * as React from "react";
+import {
+  DndContext,
+  KeyboardSensor,
+  MouseSensor,
+  TouchSensor,
+  useDraggable,
+  useDroppable,
+  useSensor,
+  useSensors,
+  type DragEndEvent,
+} from "@dnd-kit/core";
+import { CSS } from "@dnd-kit/utilities";
+import { IconClockExclamation, IconGripVertical } from "@tabler/icons-react";
+import { useMutation, useQuery } from "convex/react";
+import { ConvexError } from "convex/values";
+import { toast } from "sonner";
+
+import { api } from "../../convex/_generated/api";
+import type { Doc } from "../../convex/_generated/dataModel";
+import type { SectionFilters, SectionSort } from "../../convex/lib/listing";
+import { milestoneLabels, overdueMilestone, todayIso } from "../../convex/lib/schedule";
+import { SECTION_STATUSES, transitionError, type SectionStatus } from "../../convex/lib/workflow";
+
+import { cn } from "@/lib/utils";
+import { useProposalId } from "@/components/proposal-provider";
+import { Badge } from "@/components/ui/badge";
+
+type Section = Doc<"sections">;
+
+function BoardCard({
+  section,
+  reviewerName,
+  renderHeader,
+}: {
+  section: Section;
+  reviewerName?: string;
+  renderHeader: (section: Section) => React.ReactNode;
+}) {
+  const { attributes, listeners, setNodeRef, transform, isDragging } = useDraggable({
+    id: section._id,
+  });
+  const overdue = overdueMilestone(section, todayIso());
+
+  return (
+    <div
+      ref={setNodeRef}
+      style={{ transform: CSS.Translate.toString(transform) }}
+      className={cn(
+        "bg-card relative flex flex-col gap-2 rounded-lg border p-3 shadow-xs",
+        isDragging && "z-10 opacity-80 shadow-md"
+      )}
+    >
+      <div className="flex items-start gap-1">
+        <button
+          {...attributes}
+          {...listeners}
+          className="text-muted-foreground mt-2.5 cursor-grab touch-none"
+        >
+          <IconGripVertical className="size-3" />
+          <span className="sr-only">Drag to change status</span>
+        </button>
+        <div className="min-w-0 flex-1">{renderHeader(section)}</div>
+      </div>
+      <div className="flex flex-wrap items-center gap-1.5">
+        <Badge variant="outline" className="text-muted-foreground px-1.5">
+          {section.type}
+        </Badge>
+        {overdue && (
+          <Badge variant="outline" className="border-destructive text-destructive px-1.5">
+            <IconClockExclamation />
+            {milestoneLabels[overdue]} overdue
+          </Badge>
+        )}
+        <span className="text-muted-foreground ml-auto text-xs">
+          {reviewerName ?? "No reviewer"}
+        </span>
+      </div>
+    </div>
+  );
+}
+
+function BoardColumn({
+  status,
+  count,
+  capped,
+  dimmed,
+  children,
+}: {
+  status: SectionStatus;
+  count: number;
+  capped: boolean;
+  dimmed: boolean;
+  children: React.ReactNode;
+}) {
+  const { setNodeRef, isOver } = useDroppable({ id: status });
+
+  return (
+    <div
+      ref={setNodeRef}
+      className={cn(
+        "bg-muted/50 flex min-h-64 w-72 shrink-0 flex-col gap-2 rounded-lg border p-2 md:w-auto md:flex-1",
+        isOver && "ring-ring/50 ring-[3px]",
+        dimmed && "opacity-50"
+      )}
+    >
+      <div className="flex items-center justify-between px-1 py-0.5 text-sm font-medium">
+        {status}
+        <Badge variant="secondary" className="px-1.5">
+          {count}
+          {capped && "+"}
+        </Badge>
+      </div>
+      {children}
+    </div>
+  );
+}
+
+// The outline as cards in one column per status, with the table's filters and
+// sort. Dropping a card on another column moves the section through the status
+// workflow; columns the card cannot move to are dimmed while it is dragged.
+export function SectionBoard({
+  filters,
+  sort,
+  renderHeader,
+}: {
+  filters: SectionFilters;
+  sort: SectionSort;
+  renderHeader: (section: Section) => React.ReactNode;
+}) {
+  const proposalId = useProposalId();
+  const result = useQuery(api.sections.board, { proposalId, filters, sort });
+  const sections = result?.sections;
+  const members = useQuery(api.users.listMembers)?.members;
+  const currentUser = useQuery(api.auth.getCurrentUser);
+  const setStatus = useMutation(api.sections.setStatus).withOptimisticUpdate((localStore, args) => {
+    for (const { args: queryArgs, value } of localStore.getAllQueries(api.sections.board)) {
+      if (value !== undefined) {
+        localStore.setQuery(api.sections.board, queryArgs, {
+          ...value,
+          sections: value.sections.map(section =>
+            section._id === args.id ? { ...section, status: args.status } : section
+          ),
+        });
+      }
+    }
+  });
+  const [dragging, setDragging] = React.useState<Section | null>(null);
+  const sensors = useSensors(
+    useSensor(MouseSensor, {}),
+    useSensor(TouchSensor, {}),
+    useSensor(KeyboardSensor, {})
+  );
+
+  // A status filter narrows the board to those columns
+  const statuses = filters.statuses?.length
+    ? SECTION_STATUSES.filter(status => filters.statuses!.includes(status))
+    : SECTION_STATUSES;
+  const moveError = (section: Section, status: SectionStatus) =>
+    currentUser?.userId
+      ? transitionError(section, status, currentUser.userId)
+      : "Sign in to change status";
+
+  function handleDragEnd(event: DragEndEvent) {
+    setDragging(null);
+    const section = sections?.find(section => section._id === event.active.id);
+    const status = event.over?.id as SectionStatus | undefined;
+    if (!section || !status || status === section.status) {
+      return;
+    }
+
+    const error = moveError(section, status);
+    if (error) {
+      toast.error(error);
+      return;
+    }
+    setStatus({ id: section._id, status }).catch(error =>
+      toast.error(error instanceof ConvexError ? String(error.data) : "Failed to change status")
+    );
+  }
+
+  return (
+    <DndContext
+      sensors={sensors}
+      onDragStart={event =>
+        setDragging(sections?.find(section => section._id === event.active.id) ?? null)
+      }
+      onDragCancel={() => setDragging(null)}
+      onDragEnd={handleDragEnd}
+    >
+      <div className="flex gap-4 overflow-x-auto pb-2">
+        {statuses.map(status => {
+          const cards = sections?.filter(section => section.status === status) ?? [];
+          return (
+            <BoardColumn
+              key={status}
+              status={status}
+              count={cards.length}
+              capped={result?.truncated ?? false}
+              dimmed={
+                dragging !== null &&
+                dragging.status !== status &&
+                moveError(dragging, status) !== null
+              }
+            >
+              {cards.map(section => (
+                <BoardCard
+                  key={section._id}
+                  section={section}
+                  reviewerName={members?.find(member => member.userId === section.reviewerId)?.name}
+                  renderHeader={renderHeader}
+                />
+              ))}
+              {sections !== undefined && cards.length === 0 && (
+                <p className="text-muted-foreground px-1 py-4 text-center text-xs">No sections</p>
+              )}
+            </BoardColumn>
+          );
+        })}
+      </div>
+      {result?.truncated && (
+        <p className="text-muted-foreground text-xs">
+          Only the first {result.sections.length} matching sections are shown. Narrow the filters to
+          see the rest.
+        </p>
+      )}
+    </DndContext>
+  );
+}
@@ -0,0 +1,52 @@
+import { IconAlertTriangle } from "@tabler/icons-react";
+
+import { isOverLimit, pagesFor } from "../../convex/lib/budget";
+
+import { cn } from "@/lib/utils";
+
+// Word and page count of a section measured against its Target and Limit pages
+export function SectionBudget({
+  wordCount,
+  target,
+  limit,
+  className,
+}: {
+  wordCount: number;
+  target: number;
+  limit: number;
+  className?: string;
+}) {
+  const pages = pagesFor(wordCount);
+  const overLimit = isOverLimit({ wordCount, limit });
+  const budget = limit || target;
+  const progress = budget > 0 ? Math.min(100, (pages / budget) * 100) : 0;
+
+  return (
+    <div className={cn("flex flex-col gap-2 text-sm", className)}>
+      <div className="flex items-center justify-between gap-4">
+        <span className="tabular-nums">
+          {wordCount.toLocaleString()} {wordCount === 1 ? "word" : "words"} · {pages.toFixed(1)}{" "}
+          pages
+        </span>
+        <span
+          className={cn(
+            "text-muted-foreground flex items-center gap-1 tabular-nums",
+            overLimit && "text-destructive"
+          )}
+        >
+          {overLimit && <IconAlertTriangle className="size-4" />}
+          Target {target} · Limit {limit || "none"}
+        </span>
+      </div>
+      <div className="bg-muted h-1.5 overflow-hidden rounded-full">
+        <div
+          className={cn(
+            "h-full rounded-full transition-[width]",
+            overLimit ? "bg-destructive" : pages >= target ? "bg-green-500" : "bg-primary"
+          )}
+          style={{ width: `${progress}%` }}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,193 @@
+"use client";
+
+import * as React from "react";
+import { IconChevronLeft, IconChevronRight } from "@tabler/icons-react";
+import { useQuery } from "convex/react";
+
+import { api } from "../../convex/_generated/api";
+import type { Doc, Id } from "../../convex/_generated/dataModel";
+import type { SectionFilters } from "../../convex/lib/listing";
+import {
+  MILESTONES,
+  milestoneLabels,
+  overdueMilestone,
+  shiftDate,
+  todayIso,
+  type Milestone,
+} from "../../convex/lib/schedule";
+
+import { useReschedule } from "@/hooks/use-reschedule";
+import { cn } from "@/lib/utils";
+import { useProposalId } from "@/components/proposal-provider";
+import { Button } from "@/components/ui/button";
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+// Weeks shown per month, enough for any month starting on any weekday
+const WEEKS = 6;
+
+// Drag data type for a due date, so drops of text from elsewhere are ignored
+const DRAG_TYPE = "application/x-section-due";
+
+const monthLabel = new Intl.DateTimeFormat("en-US", {
+  month: "long",
+  year: "numeric",
+  timeZone: "UTC",
+});
+
+interface DueEntry {
+  section: Doc<"sections">;
+  milestone: Milestone;
+}
+
+// The first of the month `offset` months from the month of `date`, as YYYY-MM-DD
+function monthStart(date: string, offset = 0) {
+  const day = new Date(date);
+  return new Date(Date.UTC(day.getUTCFullYear(), day.getUTCMonth() + offset, 1))
+    .toISOString()
+    .slice(0, 10);
+}
+
+// The due date carried by a drag, or null when the drop came from outside the calendar
+function readDrag(event: React.DragEvent) {
+  try {
+    const { id, milestone } = JSON.parse(event.dataTransfer.getData(DRAG_TYPE));
+    return typeof id === "string" && MILESTONES.includes(milestone)
+      ? { id: id as Id<"sections">, milestone: milestone as Milestone }
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+// Month grid of the draft, review and final due dates of the open proposal's
+// sections matching the table's filters. Drag a due date onto another day to
+// reschedule it.
+export function SectionCalendar({ filters }: { filters: SectionFilters }) {
+  const proposalId = useProposalId();
+  const result = useQuery(api.sections.schedule, { proposalId, filters });
+  const sections = result?.sections;
+  const reschedule = useReschedule();
+  const today = todayIso();
+  const [month, setMonth] = React.useState(() => monthStart(today));
+  const [dropTarget, setDropTarget] = React.useState<string | null>(null);
+
+  const gridStart = shiftDate(month, -new Date(month).getUTCDay());
+  const days = Array.from({ length: WEEKS * 7 }, (_, index) => shiftDate(gridStart, index));
+
+  const entriesByDay = React.useMemo(() => {
+    const byDay = new Map<string, DueEntry[]>();
+    for (const section of sections ?? []) {
+      for (const milestone of MILESTONES) {
+        const date = section[milestone];
+        if (date !== undefined) {
+          byDay.set(date, [...(byDay.get(date) ?? []), { section, milestone }]);
+        }
+      }
+    }
+    return byDay;
+  }, [sections]);
+
+  const handleDrop = (event: React.DragEvent, date: string) => {
+    event.preventDefault();
+    setDropTarget(null);
+    const drag = readDrag(event);
+    if (!drag) {
+      return;
+    }
+    const section = sections?.find(section => section._id === drag.id);
+    if (section && section[drag.milestone] !== date) {
+      void reschedule(section, { [drag.milestone]: date });
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="font-medium">{monthLabel.format(new Date(month))}</h3>
+        <div className="flex items-center gap-1">
+          <Button variant="outline" size="sm" onClick={() => setMonth(monthStart(today))}>
+            Today
+          </Button>
+          <Button
+            variant="outline"
+            size="icon"
+            className="size-8"
+            onClick={() => setMonth(monthStart(month, -1))}
+          >
+            <IconChevronLeft />
+            <span className="sr-only">Previous month</span>
+          </Button>
+          <Button
+            variant="outline"
+            size="icon"
+            className="size-8"
+            onClick={() => setMonth(monthStart(month, 1))}
+          >
+            <IconChevronRight />
+            <span className="sr-only">Next month</span>
+          </Button>
+        </div>
+      </div>
+      <div className="grid grid-cols-7 overflow-hidden rounded-lg border text-sm">
+        {WEEKDAYS.map(weekday => (
+          <div key={weekday} className="bg-muted border-b px-2 py-1.5 text-xs font-medium">
+            {weekday}
+          </div>
+        ))}
+        {days.map(date => (
+          <div
+            key={date}
+            className={cn(
+              "flex min-h-24 flex-col gap-1 border-b border-l p-1 [&:nth-child(7n+1)]:border-l-0",
+              date.slice(0, 7) !== month.slice(0, 7) && "bg-muted/40 text-muted-foreground",
+              dropTarget === date && "bg-accent"
+            )}
+            onDragOver={event => {
+              event.preventDefault();
+              setDropTarget(date);
+            }}
+            onDragLeave={() => setDropTarget(current => (current === date ? null : current))}
+            onDrop={event => handleDrop(event, date)}
+          >
+            <span
+              className={cn(
+                "self-end px-1 text-xs tabular-nums",
+                date === today && "bg-primary text-primary-foreground rounded-full"
+              )}
+            >
+              {Number(date.slice(8))}
+            </span>
+            {entriesByDay.get(date)?.map(({ section, milestone }) => (
+              <div
+                key={`${section._id}-${milestone}`}
+                draggable
+                onDragStart={event =>
+                  event.dataTransfer.setData(
+                    DRAG_TYPE,
+                    JSON.stringify({ id: section._id, milestone })
+                  )
+                }
+                title={`${section.header} · ${milestoneLabels[milestone]} due`}
+                className={cn(
+                  "cursor-grab truncate rounded-sm border px-1.5 py-0.5 text-xs",
+                  section.status === "Done" && "text-muted-foreground line-through",
+                  overdueMilestone(section, today) === milestone &&
+                    "border-destructive text-destructive"
+                )}
+              >
+                <span className="font-medium">{milestoneLabels[milestone]}:</span> {section.header}
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+      {result?.truncated && (
+        <p className="text-muted-foreground text-xs">
+          Only the first {result.sections.length} matching sections are shown. Narrow the filters to
+          see the rest.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,17 @@
-import { IconTrendingDown, IconTrendingUp } from "@tabler/icons-react";
+"use client";
 
+import {
+  IconAlertTriangle,
+  IconCalendarDue,
+  IconCircleCheck,
+  IconFileText,
+} from "@tabler/icons-react";
+import { useQuery } from "convex/react";
+
+import { api } from "../../convex/_generated/api";
+
+import { daysUntil, dueLabel, formatDueDate } from "@/lib/proposals";
+import { useProposalId } from "@/components/proposal-provider";
 import { Badge } from "@/components/ui/badge";
 import {
   Card,
@@ -10,87 +22,112 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 
+function percent(part: number, whole: number) {
+  return whole > 0 ? `${Math.round((part / whole) * 100)}%` : "—";
+}
+
+// Headline numbers for the open proposal: deadline, section progress, page budget
+// and sections over their limit
 export function SectionCards() {
+  const proposalId = useProposalId();
+  const proposal = useQuery(api.proposals.get, { id: proposalId });
+  const stats = useQuery(api.proposals.stats, { proposalId });
+  // Counts past the server's scan cap are lower bounds
+  const plus = stats?.capped ? "+" : "";
+
   return (
     <div className="*:data-[slot=card]:from-primary/5 *:data-[slot=card]:to-card dark:*:data-[slot=card]:bg-card grid grid-cols-1 gap-4 px-4 *:data-[slot=card]:bg-gradient-to-t *:data-[slot=card]:shadow-xs lg:px-6 @xl/main:grid-cols-2 @5xl/main:grid-cols-4">
       <Card className="@container/card">
         <CardHeader>
-          <CardDescription>Total Revenue</CardDescription>
+          <CardDescription>Due Date</CardDescription>
           <CardTitle className="text-2xl font-semibold tabular-nums @[250px]/card:text-3xl">
-            $1,250.00
+            {proposal ? formatDueDate(proposal.dueDate) : "—"}
           </CardTitle>
-          <CardAction>
-            <Badge variant="outline">
-              <IconTrendingUp />
-              +12.5%
-            </Badge>
-          </CardAction>
+          {proposal && (
+            <CardAction>
+              <Badge
+                variant="outline"
+                className={daysUntil(proposal.dueDate) < 0 ? "text-destructive" : undefined}
+              >
+                <IconCalendarDue />
+                {dueLabel(proposal.dueDate)}
+              </Badge>
+            </CardAction>
+          )}
         </CardHeader>
         <CardFooter className="flex-col items-start gap-1.5 text-sm">
-          <div className="line-clamp-1 flex gap-2 font-medium">
-            Trending up this month <IconTrendingUp className="size-4" />
+          <div className="line-clamp-1 flex gap-2 font-medium">{proposal?.agency}</div>
+          <div className="text-muted-foreground">
+            {proposal?.solicitationNumber ?? "No solicitation number"}
           </div>
-          <div className="text-muted-foreground">Visitors for the last 6 months</div>
         </CardFooter>
       </Card>
       <Card className="@container/card">
         <CardHeader>
-          <CardDescription>New Customers</CardDescription>
+          <CardDescription>Sections Done</CardDescription>
           <CardTitle className="text-2xl font-semibold tabular-nums @[250px]/card:text-3xl">
-            1,234
+            {stats ? `${stats.done}${plus} / ${stats.sections}${plus}` : "—"}
           </CardTitle>
-          <CardAction>
-            <Badge variant="outline">
-              <IconTrendingDown />
-              -20%
-            </Badge>
-          </CardAction>
+          {stats && (
+            <CardAction>
+              <Badge variant="outline">
+                <IconCircleCheck />
+                {percent(stats.done, stats.sections)}
+              </Badge>
+            </CardAction>
+          )}
         </CardHeader>
         <CardFooter className="flex-col items-start gap-1.5 text-sm">
           <div className="line-clamp-1 flex gap-2 font-medium">
-            Down 20% this period <IconTrendingDown className="size-4" />
+            {`${stats?.inReview ?? 0}${plus} in review`}
+          </div>
+          <div className="text-muted-foreground">
+            {stats?.capped
+              ? `Counted over the first ${stats.sections} sections`
+              : "Sections moved through the workflow"}
           </div>
-          <div className="text-muted-foreground">Acquisition needs attention</div>
         </CardFooter>
       </Card>
       <Card className="@container/card">
         <CardHeader>
-          <CardDescription>Active Accounts</CardDescription>
+          <CardDescription>Pages Drafted</CardDescription>
           <CardTitle className="text-2xl font-semibold tabular-nums @[250px]/card:text-3xl">
-            45,678
+            {stats ? `${stats.draftedPages.toFixed(1)}${plus}` : "—"}
           </CardTitle>
-          <CardAction>
-            <Badge variant="outline">
-              <IconTrendingUp />
-              +12.5%
-            </Badge>
-          </CardAction>
+          {stats && (
+            <CardAction>
+              <Badge variant="outline">
+                <IconFileText />
+                {percent(stats.draftedPages, stats.targetPages)}
+              </Badge>
+            </CardAction>
+          )}
         </CardHeader>
         <CardFooter className="flex-col items-start gap-1.5 text-sm">
           <div className="line-clamp-1 flex gap-2 font-medium">
-            Strong user retention <IconTrendingUp className="size-4" />
+            {`Target of ${stats?.targetPages ?? 0}${plus} pages`}
           </div>
-          <div className="text-muted-foreground">Engagement exceed targets</div>
+          <div className="text-muted-foreground">Estimated from section word counts</div>
         </CardFooter>
       </Card>
       <Card className="@container/card">
         <CardHeader>
-          <CardDescription>Growth Rate</CardDescription>
+          <CardDescription>Over Page Limit</CardDescription>
           <CardTitle className="text-2xl font-semibold tabular-nums @[250px]/card:text-3xl">
-            4.5%
+            {stats ? `${stats.overLimit}${plus}` : "—"}
           </CardTitle>
-          <CardAction>
-            <Badge variant="outline">
-              <IconTrendingUp />
-              +4.5%
-            </Badge>
-          </CardAction>
+          {stats && stats.overLimit > 0 && (
+            <CardAction>
+              <Badge variant="outline" className="text-destructive">
+                <IconAlertTriangle />
+                Needs cuts
+              </Badge>
+            </CardAction>
+          )}
         </CardHeader>
         <CardFooter className="flex-col items-start gap-1.5 text-sm">
-          <div className="line-clamp-1 flex gap-2 font-medium">
-            Steady performance increase <IconTrendingUp className="size-4" />
-          </div>
-          <div className="text-muted-foreground">Meets growth projections</div>
+          <div className="line-clamp-1 flex gap-2 font-medium">Sections longer than allowed</div>
+          <div className="text-muted-foreground">Trim them before the final review</div>
         </CardFooter>
       </Card>
     </div>
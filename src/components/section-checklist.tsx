@@ -0,0 +1,83 @@
+"use client";
+
+import * as React from "react";
+import { IconX } from "@tabler/icons-react";
+import { useMutation, useQuery } from "convex/react";
+import { ConvexError } from "convex/values";
+import { toast } from "sonner";
+
+import { api } from "../../convex/_generated/api";
+import type { Id } from "../../convex/_generated/dataModel";
+
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+
+// A section's checklist with progress, tick boxes and a field to add items
+export function SectionChecklist({ sectionId }: { sectionId: Id<"sections"> }) {
+  const items = useQuery(api.checklists.forSection, { sectionId });
+  const addItem = useMutation(api.checklists.add);
+  const setDone = useMutation(api.checklists.setDone);
+  const removeItem = useMutation(api.checklists.remove);
+  const [label, setLabel] = React.useState("");
+
+  const done = items?.filter(item => item.done).length ?? 0;
+
+  const handleAdd = async (event: React.FormEvent) => {
+    event.preventDefault();
+    try {
+      await addItem({ sectionId, label });
+      setLabel("");
+    } catch (error) {
+      toast.error(error instanceof ConvexError ? String(error.data) : "Failed to add item");
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      {items !== undefined && items.length > 0 && (
+        <span className="text-muted-foreground text-xs">
+          {done} of {items.length} done
+        </span>
+      )}
+      {items?.map(item => (
+        <div key={item._id} className="flex items-center gap-2">
+          <Checkbox
+            id={`checklist-${item._id}`}
+            checked={item.done}
+            onCheckedChange={value =>
+              setDone({ id: item._id, done: !!value }).catch(() =>
+                toast.error("Failed to update checklist")
+              )
+            }
+          />
+          <label
+            htmlFor={`checklist-${item._id}`}
+            className={item.done ? "text-muted-foreground flex-1 line-through" : "flex-1"}
+          >
+            {item.label}
+          </label>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="size-7"
+            onClick={() =>
+              removeItem({ id: item._id }).catch(() => toast.error("Failed to remove item"))
+            }
+          >
+            <IconX />
+            <span className="sr-only">Remove item</span>
+          </Button>
+        </div>
+      ))}
+      <form onSubmit={handleAdd}>
+        <Input
+          value={label}
+          onChange={event => setLabel(event.target.value)}
+          placeholder="Add a checklist item..."
+          aria-label="New checklist item"
+        />
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+"use client";
+
+import { IconX } from "@tabler/icons-react";
+import { useMutation, useQuery } from "convex/react";
+import { toast } from "sonner";
+
+import { api } from "../../convex/_generated/api";
+import type { Id } from "../../convex/_generated/dataModel";
+
+import { formatContractValue, formatPeriod } from "@/lib/past-performance";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+// Past-performance records a section cites, with controls to cite or drop one
+export function SectionCitations({ sectionId }: { sectionId: Id<"sections"> }) {
+  const cited = useQuery(api.pastPerformance.forSection, { sectionId });
+  const records = useQuery(api.pastPerformance.list, {});
+  const link = useMutation(api.pastPerformance.link);
+  const unlink = useMutation(api.pastPerformance.unlink);
+
+  const available = records?.filter(record => !cited?.some(item => item._id === record._id));
+
+  return (
+    <div className="flex flex-col gap-2">
+      {cited?.length === 0 && (
+        <p className="text-muted-foreground">This section does not cite any past performance.</p>
+      )}
+      {cited?.map(record => (
+        <div
+          key={record._id}
+          className="flex items-start justify-between gap-2 rounded-lg border p-3"
+        >
+          <div className="flex flex-col gap-1">
+            <span className="font-medium">{record.contractName}</span>
+            <span className="text-muted-foreground text-xs">
+              {record.customer} · {formatPeriod(record.periodStart, record.periodEnd)} ·{" "}
+              {formatContractValue(record.value)}
+            </span>
+          </div>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="size-7"
+            onClick={() =>
+              toast.promise(unlink({ recordId: record._id, sectionId }), {
+                loading: `Removing ${record.contractName}`,
+                success: "Citation removed",
+                error: "Failed to remove citation",
+              })
+            }
+          >
+            <IconX />
+            <span className="sr-only">Remove citation</span>
+          </Button>
+        </div>
+      ))}
+      {available && available.length > 0 && (
+        <Select
+          value=""
+          onValueChange={recordId =>
+            toast.promise(link({ recordId: recordId as Id<"pastPerformances">, sectionId }), {
+              loading: "Citing record",
+              success: "Record cited",
+              error: "Failed to cite record",
+            })
+          }
+        >
+          <SelectTrigger className="w-full" size="sm">
+            <SelectValue placeholder="Cite a past performance record" />
+          </SelectTrigger>
+          <SelectContent>
+            {available.map(record => (
+              <SelectItem key={record._id} value={record._id}>
+                {record.contractName}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+    </div>
+  );
+}
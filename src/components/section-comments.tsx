@@ -0,0 +1,344 @@
+"use client";
+
+import * as React from "react";
+import { IconCheck, IconDotsVertical, IconRefresh } from "@tabler/icons-react";
+import { useMutation, useQuery } from "convex/react";
+import { ConvexError } from "convex/values";
+import type { FunctionReturnType } from "convex/server";
+import { toast } from "sonner";
+
+import { api } from "../../convex/_generated/api";
+import type { Id } from "../../convex/_generated/dataModel";
+
+import { insertMention, mentionQueryAt, splitMentions } from "@/lib/mentions";
+import { cn } from "@/lib/utils";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+
+type Thread = FunctionReturnType<typeof api.comments.forSection>[number];
+type Comment = Thread["replies"][number];
+
+// Most member suggestions shown while typing a mention
+const MAX_SUGGESTIONS = 5;
+
+function errorMessage(error: unknown, fallback: string) {
+  return error instanceof ConvexError ? String(error.data) : fallback;
+}
+
+// Textarea that suggests members after "@" and tracks who was mentioned
+function CommentComposer({
+  placeholder,
+  submitLabel,
+  initialBody = "",
+  initialMentions = [],
+  onSubmit,
+  onCancel,
+}: {
+  placeholder: string;
+  submitLabel: string;
+  initialBody?: string;
+  initialMentions?: string[];
+  onSubmit: (body: string, mentions: string[]) => Promise<unknown>;
+  onCancel?: () => void;
+}) {
+  const members = useQuery(api.users.listMembers)?.members;
+  const [body, setBody] = React.useState(initialBody);
+  const [mentions, setMentions] = React.useState(initialMentions);
+  const [mention, setMention] = React.useState<{ start: number; query: string } | null>(null);
+  const [isSending, setIsSending] = React.useState(false);
+  const textarea = React.useRef<HTMLTextAreaElement>(null);
+
+  const suggestions = mention
+    ? (members ?? [])
+        .filter(member => member.name.toLowerCase().includes(mention.query.toLowerCase()))
+        .slice(0, MAX_SUGGESTIONS)
+    : [];
+
+  const pick = (member: { userId: string; name: string }) => {
+    const caret = textarea.current?.selectionStart ?? body.length;
+    const next = insertMention(body, mention!.start, caret, member.name);
+    setBody(next.text);
+    setMentions(current =>
+      current.includes(member.userId) ? current : [...current, member.userId]
+    );
+    setMention(null);
+    requestAnimationFrame(() => {
+      textarea.current?.focus();
+      textarea.current?.setSelectionRange(next.caret, next.caret);
+    });
+  };
+
+  const submit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsSending(true);
+    try {
+      await onSubmit(body, mentions);
+      setBody("");
+      setMentions([]);
+    } catch (error) {
+      toast.error(errorMessage(error, "Failed to save comment"));
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <form className="relative flex flex-col gap-2" onSubmit={submit}>
+      <textarea
+        ref={textarea}
+        value={body}
+        rows={2}
+        placeholder={placeholder}
+        aria-label={placeholder}
+        onChange={event => {
+          setBody(event.target.value);
+          setMention(mentionQueryAt(event.target.value, event.target.selectionStart));
+        }}
+        onKeyDown={event => {
+          if (event.key === "Escape" && mention) {
+            event.preventDefault();
+            setMention(null);
+          } else if (event.key === "Enter" && mention && suggestions.length > 0) {
+            event.preventDefault();
+            pick(suggestions[0]);
+          } else if (event.key === "Enter" && (event.metaKey || event.ctrlKey)) {
+            event.currentTarget.form?.requestSubmit();
+          }
+        }}
+        className="border-input placeholder:text-muted-foreground focus-visible:border-ring focus-visible:ring-ring/50 dark:bg-input/30 min-h-16 w-full rounded-md border bg-transparent px-3 py-2 text-sm shadow-xs outline-none focus-visible:ring-[3px]"
+      />
+      {suggestions.length > 0 && (
+        <div className="bg-popover absolute top-full z-10 mt-1 flex w-60 flex-col rounded-md border p-1 shadow-md">
+          {suggestions.map(member => (
+            <button
+              key={member.userId}
+              type="button"
+              className="hover:bg-accent flex flex-col items-start rounded-sm px-2 py-1.5 text-left text-sm"
+              onMouseDown={event => event.preventDefault()}
+              onClick={() => pick(member)}
+            >
+              {member.name}
+              <span className="text-muted-foreground text-xs">{member.email}</span>
+            </button>
+          ))}
+        </div>
+      )}
+      <div className="flex justify-end gap-2">
+        {onCancel && (
+          <Button type="button" variant="ghost" size="sm" onClick={onCancel}>
+            Cancel
+          </Button>
+        )}
+        <Button type="submit" size="sm" disabled={isSending || !body.trim()}>
+          {submitLabel}
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+// One comment with its author, mentions highlighted, and edit/delete for its author
+function CommentItem({
+  comment,
+  mentionNames,
+}: {
+  comment: Comment;
+  mentionNames: Map<string, string>;
+}) {
+  const editComment = useMutation(api.comments.edit);
+  const removeComment = useMutation(api.comments.remove);
+  const [isEditing, setIsEditing] = React.useState(false);
+
+  const names = comment.mentions.map(userId => mentionNames.get(userId) ?? "");
+
+  return (
+    <div className="flex flex-col gap-1">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-xs">
+          <span className="font-medium">{comment.authorName}</span>{" "}
+          <span className="text-muted-foreground">
+            {new Date(comment.createdAt).toLocaleString()}
+            {comment.editedAt !== undefined && " (edited)"}
+          </span>
+        </span>
+        {comment.mine && !isEditing && (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="ghost" size="icon" className="text-muted-foreground size-6">
+                <IconDotsVertical />
+                <span className="sr-only">Comment actions</span>
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" className="w-32">
+              <DropdownMenuItem onClick={() => setIsEditing(true)}>Edit</DropdownMenuItem>
+              <DropdownMenuItem
+                variant="destructive"
+                onClick={() =>
+                  toast.promise(removeComment({ id: comment._id }), {
+                    loading: "Deleting comment",
+                    success: "Comment deleted",
+                    error: "Failed to delete comment",
+                  })
+                }
+              >
+                Delete
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        )}
+      </div>
+      {isEditing ? (
+        <CommentComposer
+          placeholder="Edit comment"
+          submitLabel="Save"
+          initialBody={comment.body}
+          initialMentions={comment.mentions}
+          onSubmit={async (body, mentions) => {
+            await editComment({ id: comment._id, body, mentions });
+            setIsEditing(false);
+          }}
+          onCancel={() => setIsEditing(false)}
+        />
+      ) : (
+        <p className="whitespace-pre-wrap">
+          {splitMentions(comment.body, names).map((segment, index) =>
+            segment.mention ? (
+              <span key={index} className="text-primary font-medium">
+                {segment.text}
+              </span>
+            ) : (
+              segment.text
+            )
+          )}
+        </p>
+      )}
+    </div>
+  );
+}
+
+// A thread: its first comment, replies, and reply / resolve controls
+function CommentThread({
+  thread,
+  sectionId,
+  mentionNames,
+}: {
+  thread: Thread;
+  sectionId: Id<"sections">;
+  mentionNames: Map<string, string>;
+}) {
+  const addComment = useMutation(api.comments.add);
+  const setResolved = useMutation(api.comments.setResolved);
+  const [isReplying, setIsReplying] = React.useState(false);
+  const isResolved = thread.resolvedAt !== undefined;
+
+  return (
+    <div className={cn("flex flex-col gap-3 rounded-lg border p-3", isResolved && "opacity-70")}>
+      <CommentItem comment={thread} mentionNames={mentionNames} />
+      {thread.replies.length > 0 && (
+        <div className="flex flex-col gap-3 border-l pl-3">
+          {thread.replies.map(reply => (
+            <CommentItem key={reply._id} comment={reply} mentionNames={mentionNames} />
+          ))}
+        </div>
+      )}
+      {isReplying ? (
+        <CommentComposer
+          placeholder="Reply... (type @ to mention)"
+          submitLabel="Reply"
+          onSubmit={async (body, mentions) => {
+            await addComment({ sectionId, parentId: thread._id, body, mentions });
+            setIsReplying(false);
+          }}
+          onCancel={() => setIsReplying(false)}
+        />
+      ) : (
+        <div className="flex items-center gap-2">
+          <Button variant="ghost" size="sm" className="h-7" onClick={() => setIsReplying(true)}>
+            Reply
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7"
+            onClick={() =>
+              setResolved({ id: thread._id, resolved: !isResolved }).catch(error =>
+                toast.error(errorMessage(error, "Failed to update thread"))
+              )
+            }
+          >
+            {isResolved ? <IconRefresh /> : <IconCheck />}
+            {isResolved ? "Reopen" : "Resolve"}
+          </Button>
+          {isResolved && (
+            <Badge variant="outline" className="text-muted-foreground ml-auto px-1.5">
+              Resolved
+            </Badge>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Live comment threads on a section with a composer for new threads. Resolved
+// threads are folded away until asked for.
+export function SectionComments({ sectionId }: { sectionId: Id<"sections"> }) {
+  const threads = useQuery(api.comments.forSection, { sectionId });
+  const members = useQuery(api.users.listMembers)?.members;
+  const addComment = useMutation(api.comments.add);
+  const [showResolved, setShowResolved] = React.useState(false);
+
+  const mentionNames = React.useMemo(
+    () => new Map((members ?? []).map(member => [member.userId, member.name])),
+    [members]
+  );
+  const open = threads?.filter(thread => thread.resolvedAt === undefined) ?? [];
+  const resolved = threads?.filter(thread => thread.resolvedAt !== undefined) ?? [];
+
+  return (
+    <div className="flex flex-col gap-3">
+      {threads?.length === 0 && (
+        <p className="text-muted-foreground">No comments yet. Start the discussion below.</p>
+      )}
+      {open.map(thread => (
+        <CommentThread
+          key={thread._id}
+          thread={thread}
+          sectionId={sectionId}
+          mentionNames={mentionNames}
+        />
+      ))}
+      {resolved.length > 0 && (
+        <Button
+          variant="link"
+          size="sm"
+          className="h-auto w-fit px-0"
+          onClick={() => setShowResolved(current => !current)}
+        >
+          {showResolved ? "Hide" : "Show"} {resolved.length} resolved thread
+          {resolved.length === 1 ? "" : "s"}
+        </Button>
+      )}
+      {showResolved &&
+        resolved.map(thread => (
+          <CommentThread
+            key={thread._id}
+            thread={thread}
+            sectionId={sectionId}
+            mentionNames={mentionNames}
+          />
+        ))}
+      <CommentComposer
+        placeholder="Add a comment... (type @ to mention)"
+        submitLabel="Comment"
+        onSubmit={(body, mentions) => addComment({ sectionId, body, mentions })}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+"use client";
+
+import { IconFileText, IconX } from "@tabler/icons-react";
+import { useMutation, useQuery } from "convex/react";
+import { toast } from "sonner";
+
+import { api } from "../../convex/_generated/api";
+import type { Id } from "../../convex/_generated/dataModel";
+
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+// Focus documents linked to a section, with controls to link or unlink one
+export function SectionDocuments({ sectionId }: { sectionId: Id<"sections"> }) {
+  const linked = useQuery(api.documents.forSection, { sectionId });
+  const options = useQuery(api.documents.options);
+  const link = useMutation(api.documents.link);
+  const unlink = useMutation(api.documents.unlink);
+
+  const available = options?.documents.filter(
+    document => !linked?.some(item => item._id === document._id)
+  );
+
+  return (
+    <div className="flex flex-col gap-2">
+      {linked?.length === 0 && (
+        <p className="text-muted-foreground">No documents are linked to this section.</p>
+      )}
+      {linked?.map(document => (
+        <div key={document._id} className="flex items-center justify-between gap-2">
+          {document.current?.url ? (
+            <Button variant="link" className="h-auto min-w-0 px-0" asChild>
+              <a href={document.current.url} target="_blank" rel="noreferrer">
+                <IconFileText />
+                <span className="truncate">{document.title}</span>
+              </a>
+            </Button>
+          ) : (
+            <span className="truncate">{document.title}</span>
+          )}
+          <Button
+            variant="ghost"
+            size="icon"
+            className="size-7"
+            onClick={() =>
+              toast.promise(unlink({ documentId: document._id, sectionId }), {
+                loading: `Unlinking ${document.title}`,
+                success: "Document unlinked",
+                error: "Failed to unlink document",
+              })
+            }
+          >
+            <IconX />
+            <span className="sr-only">Unlink document</span>
+          </Button>
+        </div>
+      ))}
+      {available && available.length > 0 && (
+        <Select
+          value=""
+          onValueChange={documentId =>
+            toast.promise(link({ documentId: documentId as Id<"documents">, sectionId }), {
+              loading: "Linking document",
+              success: "Document linked",
+              error: "Failed to link document",
+            })
+          }
+        >
+          <SelectTrigger className="w-full" size="sm">
+            <SelectValue placeholder="Link a focus document" />
+          </SelectTrigger>
+          <SelectContent>
+            {available.map(document => (
+              <SelectItem key={document._id} value={document._id}>
+                {document.title}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,218 @@
+"use client";
+
+import * as React from "react";
+import {
+  IconArrowLeft,
+  IconBold,
+  IconH2,
+  IconH3,
+  IconItalic,
+  IconList,
+  IconListNumbers,
+  IconQuote,
+} from "@tabler/icons-react";
+import { EditorContent, useEditor, type Editor } from "@tiptap/react";
+import StarterKit from "@tiptap/starter-kit";
+import { useMutation, useQuery } from "convex/react";
+import { ConvexError } from "convex/values";
+import Link from "next/link";
+import { toast } from "sonner";
+
+import { api } from "../../convex/_generated/api";
+import type { Id } from "../../convex/_generated/dataModel";
+import { countWords } from "../../convex/lib/budget";
+
+import { SectionBudget } from "@/components/section-budget";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Toggle } from "@/components/ui/toggle";
+
+// Delay between the last keystroke and saving the body to Convex
+const AUTOSAVE_DELAY = 1000;
+
+export function EditorToolbar({ editor }: { editor: Editor }) {
+  const items = [
+    {
+      label: "Bold",
+      icon: IconBold,
+      active: editor.isActive("bold"),
+      run: () => editor.chain().focus().toggleBold().run(),
+    },
+    {
+      label: "Italic",
+      icon: IconItalic,
+      active: editor.isActive("italic"),
+      run: () => editor.chain().focus().toggleItalic().run(),
+    },
+    {
+      label: "Heading",
+      icon: IconH2,
+      active: editor.isActive("heading", { level: 2 }),
+      run: () => editor.chain().focus().toggleHeading({ level: 2 }).run(),
+    },
+    {
+      label: "Subheading",
+      icon: IconH3,
+      active: editor.isActive("heading", { level: 3 }),
+      run: () => editor.chain().focus().toggleHeading({ level: 3 }).run(),
+    },
+    {
+      label: "Bulleted list",
+      icon: IconList,
+      active: editor.isActive("bulletList"),
+      run: () => editor.chain().focus().toggleBulletList().run(),
+    },
+    {
+      label: "Numbered list",
+      icon: IconListNumbers,
+      active: editor.isActive("orderedList"),
+      run: () => editor.chain().focus().toggleOrderedList().run(),
+    },
+    {
+      label: "Quote",
+      icon: IconQuote,
+      active: editor.isActive("blockquote"),
+      run: () => editor.chain().focus().toggleBlockquote().run(),
+    },
+  ];
+
+  return (
+    <div className="flex flex-wrap items-center gap-1 border-b p-1">
+      {items.map(item => (
+        <Toggle
+          key={item.label}
+          size="sm"
+          pressed={item.active}
+          onPressedChange={item.run}
+          aria-label={item.label}
+        >
+          <item.icon />
+        </Toggle>
+      ))}
+    </div>
+  );
+}
+
+// Full-page rich-text editor for a section's body with live budget tracking
+export function SectionEditor({ sectionId }: { sectionId: Id<"sections"> }) {
+  const section = useQuery(api.sections.get, { id: sectionId });
+  const content = useQuery(api.content.get, { sectionId });
+  const saveContent = useMutation(api.content.save);
+
+  const [wordCount, setWordCount] = React.useState(0);
+  const [saveState, setSaveState] = React.useState<"saved" | "pending" | "saving" | "failed">(
+    "saved"
+  );
+  const loaded = React.useRef(false);
+  const saveTimer = React.useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Content version the next save builds on, and the save in flight
+  const version = React.useRef(0);
+  const lastSave = React.useRef<Promise<void>>(Promise.resolve());
+
+  // Saves run one after another so each sends the version the previous one wrote;
+  // a save over someone else's newer text is rejected and left unsaved
+  const save = React.useCallback(
+    (html: string) => {
+      lastSave.current = lastSave.current.then(async () => {
+        setSaveState("saving");
+        try {
+          version.current = await saveContent({ sectionId, html, version: version.current });
+          setSaveState("saved");
+        } catch (error) {
+          setSaveState("failed");
+          toast.error(
+            error instanceof ConvexError ? String(error.data) : "Failed to save section content",
+            { id: `${sectionId}-save` }
+          );
+        }
+      });
+    },
+    [saveContent, sectionId]
+  );
+
+  const editor = useEditor({
+    extensions: [StarterKit],
+    immediatelyRender: false,
+    shouldRerenderOnTransaction: true,
+    editorProps: {
+      attributes: {
+        class:
+          "min-h-[60vh] p-4 text-sm focus:outline-none [&_h2]:text-xl [&_h2]:font-semibold [&_h3]:text-lg [&_h3]:font-semibold [&_ol]:list-decimal [&_ol]:pl-6 [&_ul]:list-disc [&_ul]:pl-6 [&_blockquote]:border-l-2 [&_blockquote]:pl-4",
+      },
+    },
+    onUpdate: ({ editor }) => {
+      const html = editor.getHTML();
+      setWordCount(countWords(html));
+      setSaveState("pending");
+      if (saveTimer.current) {
+        clearTimeout(saveTimer.current);
+      }
+      saveTimer.current = setTimeout(() => save(html), AUTOSAVE_DELAY);
+    },
+  });
+
+  // Load the stored body once; later server updates must not clobber local typing
+  React.useEffect(() => {
+    if (!editor || content === undefined || loaded.current) {
+      return;
+    }
+    loaded.current = true;
+    version.current = content?.version ?? 0;
+    const html = content?.html ?? "";
+    editor.commands.setContent(html, { emitUpdate: false });
+    setWordCount(countWords(html));
+  }, [editor, content]);
+
+  // Flush a pending save when leaving the page
+  React.useEffect(() => {
+    return () => {
+      if (saveTimer.current && editor) {
+        clearTimeout(saveTimer.current);
+        save(editor.getHTML());
+      }
+    };
+  }, [editor, save]);
+
+  if (section === undefined) {
+    return <div className="text-muted-foreground px-4 lg:px-6">Loading...</div>;
+  }
+
+  if (section === null) {
+    return <div className="text-muted-foreground px-4 lg:px-6">Section not found.</div>;
+  }
+
+  return (
+    <div className="flex flex-col gap-4 px-4 lg:px-6">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Button variant="ghost" size="icon" className="size-8" asChild>
+            <Link
+              href={
+                section.proposalId ? `/dashboard/proposals/${section.proposalId}` : "/dashboard"
+              }
+            >
+              <IconArrowLeft />
+              <span className="sr-only">Back to outline</span>
+            </Link>
+          </Button>
+          <h2 className="text-lg font-semibold">{section.header}</h2>
+          <Badge variant="outline" className="text-muted-foreground px-1.5">
+            {section.type}
+          </Badge>
+        </div>
+        <span className="text-muted-foreground text-sm">
+          {saveState === "saved"
+            ? "All changes saved"
+            : saveState === "failed"
+              ? "Changes not saved"
+              : "Saving..."}
+        </span>
+      </div>
+      <SectionBudget wordCount={wordCount} target={section.target} limit={section.limit} />
+      <div className="overflow-hidden rounded-lg border">
+        {editor && <EditorToolbar editor={editor} />}
+        <EditorContent editor={editor} />
+      </div>
+    </div>
+  );
+}
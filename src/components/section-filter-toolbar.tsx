@@ -0,0 +1,277 @@
+"use client";
+
+import * as React from "react";
+import { IconCirclePlus, IconSearch, IconStar, IconStarFilled, IconX } from "@tabler/icons-react";
+import { useQuery } from "convex/react";
+
+import { api } from "../../convex/_generated/api";
+import type { SectionFilters } from "../../convex/lib/listing";
+import { SECTION_STATUSES } from "../../convex/lib/workflow";
+
+import { SECTION_TYPES } from "@/lib/sections";
+import { useProposalId } from "@/components/proposal-provider";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Input } from "@/components/ui/input";
+import { Separator } from "@/components/ui/separator";
+
+type FacetKey = "types" | "statuses" | "reviewerIds";
+
+interface FacetOption {
+  value: string;
+  label: string;
+  count: number;
+}
+
+// How long typing pauses before the search is applied
+const SEARCH_DELAY_MS = 300;
+
+// `capped` marks the counts as lower bounds, see `sections.facets`
+function FacetFilter({
+  title,
+  options,
+  capped,
+  selected,
+  onChange,
+}: {
+  title: string;
+  options: FacetOption[];
+  capped: boolean;
+  selected: string[];
+  onChange: (values: string[]) => void;
+}) {
+  const labels = options.filter(option => selected.includes(option.value));
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" className="border-dashed">
+          <IconCirclePlus />
+          {title}
+          {selected.length > 0 && (
+            <>
+              <Separator orientation="vertical" className="mx-1 data-[orientation=vertical]:h-4" />
+              {selected.length > 2 ? (
+                <Badge variant="secondary" className="rounded-sm px-1 font-normal">
+                  {selected.length} selected
+                </Badge>
+              ) : (
+                labels.map(option => (
+                  <Badge
+                    key={option.value}
+                    variant="secondary"
+                    className="rounded-sm px-1 font-normal"
+                  >
+                    {option.label}
+                  </Badge>
+                ))
+              )}
+            </>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start" className="w-56">
+        {options.map(option => (
+          <DropdownMenuCheckboxItem
+            key={option.value}
+            checked={selected.includes(option.value)}
+            onSelect={event => event.preventDefault()}
+            onCheckedChange={checked =>
+              onChange(
+                checked
+                  ? [...selected, option.value]
+                  : selected.filter(value => value !== option.value)
+              )
+            }
+          >
+            <span className="truncate">{option.label}</span>
+            <span className="text-muted-foreground ml-auto font-mono text-xs tabular-nums">
+              {option.count}
+              {capped && "+"}
+            </span>
+          </DropdownMenuCheckboxItem>
+        ))}
+        {selected.length > 0 && (
+          <>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem className="justify-center" onClick={() => onChange([])}>
+              Clear filter
+            </DropdownMenuItem>
+          </>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
+
+// Global search, faceted Section Type / Status / Reviewer filters with live counts,
+// a favorites toggle, and a chip row of the active filters
+export function SectionFilterToolbar({
+  filters,
+  onChange,
+}: {
+  filters: SectionFilters;
+  onChange: (filters: SectionFilters) => void;
+}) {
+  const proposalId = useProposalId();
+  const facets = useQuery(api.sections.facets, { proposalId, filters });
+  const members = useQuery(api.users.listMembers)?.members;
+  const [search, setSearch] = React.useState(filters.search ?? "");
+
+  // Follow the URL when it changes from elsewhere (back button, shared link)
+  React.useEffect(() => {
+    setSearch(current =>
+      current.trim() === (filters.search ?? "") ? current : (filters.search ?? "")
+    );
+  }, [filters.search]);
+
+  React.useEffect(() => {
+    if (search.trim() === (filters.search ?? "")) {
+      return;
+    }
+    const timeout = setTimeout(
+      () => onChange({ ...filters, search: search.trim() || undefined }),
+      SEARCH_DELAY_MS
+    );
+    return () => clearTimeout(timeout);
+  }, [filters, onChange, search]);
+
+  const countOf = (counts: { value: string; count: number }[] | undefined, value: string) =>
+    counts?.find(entry => entry.value === value)?.count ?? 0;
+
+  const facetOptions: Record<FacetKey, FacetOption[]> = {
+    types: SECTION_TYPES.map(type => ({
+      value: type,
+      label: type,
+      count: countOf(facets?.types, type),
+    })),
+    statuses: SECTION_STATUSES.map(status => ({
+      value: status,
+      label: status,
+      count: countOf(facets?.statuses, status),
+    })),
+    reviewerIds: (members ?? []).map(member => ({
+      value: member.userId,
+      label: member.name,
+      count: countOf(facets?.reviewers, member.userId),
+    })),
+  };
+
+  const setFacet = (key: FacetKey, values: string[]) =>
+    onChange({ ...filters, [key]: values.length ? values : undefined });
+
+  const chips = (Object.keys(facetOptions) as FacetKey[]).flatMap(key =>
+    (filters[key] ?? []).map(value => ({
+      key,
+      value,
+      label: facetOptions[key].find(option => option.value === value)?.label ?? value,
+    }))
+  );
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="relative w-full sm:w-64">
+          <IconSearch className="text-muted-foreground pointer-events-none absolute top-1/2 left-2.5 size-4 -translate-y-1/2" />
+          <Input
+            value={search}
+            onChange={event => setSearch(event.target.value)}
+            placeholder="Search sections..."
+            aria-label="Search sections"
+            className="h-8 pl-8"
+          />
+        </div>
+        <FacetFilter
+          title="Section Type"
+          capped={facets?.capped ?? false}
+          options={facetOptions.types}
+          selected={filters.types ?? []}
+          onChange={values => setFacet("types", values)}
+        />
+        <FacetFilter
+          title="Status"
+          capped={facets?.capped ?? false}
+          options={facetOptions.statuses}
+          selected={filters.statuses ?? []}
+          onChange={values => setFacet("statuses", values)}
+        />
+        <FacetFilter
+          title="Reviewer"
+          capped={facets?.capped ?? false}
+          options={facetOptions.reviewerIds}
+          selected={filters.reviewerIds ?? []}
+          onChange={values => setFacet("reviewerIds", values)}
+        />
+        <Button
+          variant={filters.favorites ? "secondary" : "outline"}
+          size="sm"
+          className="border-dashed"
+          aria-pressed={!!filters.favorites}
+          onClick={() => onChange({ ...filters, favorites: filters.favorites ? undefined : true })}
+        >
+          {filters.favorites ? <IconStarFilled /> : <IconStar />}
+          Favorites
+        </Button>
+      </div>
+      {(chips.length > 0 || filters.search || filters.favorites) && (
+        <div className="flex flex-wrap items-center gap-2">
+          {filters.search && (
+            <Badge variant="outline" className="gap-1 py-1 pr-1">
+              Search: {filters.search}
+              <button
+                type="button"
+                className="hover:bg-muted rounded-sm"
+                aria-label="Clear search"
+                onClick={() => onChange({ ...filters, search: undefined })}
+              >
+                <IconX />
+              </button>
+            </Badge>
+          )}
+          {filters.favorites && (
+            <Badge variant="outline" className="gap-1 py-1 pr-1">
+              My favorites
+              <button
+                type="button"
+                className="hover:bg-muted rounded-sm"
+                aria-label="Remove favorites filter"
+                onClick={() => onChange({ ...filters, favorites: undefined })}
+              >
+                <IconX />
+              </button>
+            </Badge>
+          )}
+          {chips.map(chip => (
+            <Badge key={`${chip.key}-${chip.value}`} variant="outline" className="gap-1 py-1 pr-1">
+              {chip.label}
+              <button
+                type="button"
+                className="hover:bg-muted rounded-sm"
+                aria-label={`Remove ${chip.label} filter`}
+                onClick={() =>
+                  setFacet(
+                    chip.key,
+                    (filters[chip.key] ?? []).filter(value => value !== chip.value)
+                  )
+                }
+              >
+                <IconX />
+              </button>
+            </Badge>
+          ))}
+          <Button variant="ghost" size="sm" className="h-7" onClick={() => onChange({})}>
+            Clear all
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
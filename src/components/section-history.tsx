@@ -0,0 +1,115 @@
+"use client";
+
+import { IconArrowBackUp, IconArrowRight } from "@tabler/icons-react";
+import { useMutation, useQuery } from "convex/react";
+import { ConvexError } from "convex/values";
+import { toast } from "sonner";
+
+import { api } from "../../convex/_generated/api";
+import type { Doc, Id } from "../../convex/_generated/dataModel";
+import type { RevisionField } from "../../convex/revisions";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+
+const fieldLabels: Record<RevisionField, string> = {
+  header: "Header",
+  type: "Type",
+  target: "Target",
+  limit: "Limit",
+  reviewerId: "Reviewer",
+};
+
+type Revision = Doc<"sectionRevisions">;
+
+// Revision list for a section with field-level diffs against the previous version
+export function SectionHistory({ sectionId }: { sectionId: Id<"sections"> }) {
+  const revisions = useQuery(api.revisions.list, { sectionId });
+  const members = useQuery(api.users.listMembers)?.members;
+  const restore = useMutation(api.revisions.restore);
+
+  const memberName = (userId?: string) =>
+    userId ? (members?.find(member => member.userId === userId)?.name ?? "Unknown user") : "—";
+
+  const formatValue = (field: RevisionField, snapshot: Revision["snapshot"] | undefined) => {
+    if (!snapshot) {
+      return "—";
+    }
+    return field === "reviewerId" ? memberName(snapshot.reviewerId) : String(snapshot[field]);
+  };
+
+  if (revisions === undefined) {
+    return <div className="text-muted-foreground">Loading history...</div>;
+  }
+
+  if (revisions.length === 0) {
+    return <div className="text-muted-foreground">No changes recorded yet.</div>;
+  }
+
+  return (
+    <ol className="flex flex-col gap-3">
+      {revisions.map((revision, index) => {
+        const previous = revisions[index + 1];
+        const isCurrent = index === 0;
+
+        return (
+          <li key={revision._id} className="flex flex-col gap-2 rounded-lg border p-3">
+            <div className="flex items-center justify-between gap-2">
+              <div className="flex items-center gap-2">
+                <Badge variant="outline">v{revision.version}</Badge>
+                <span className="font-medium">{memberName(revision.userId)}</span>
+                <span className="text-muted-foreground text-xs">
+                  {new Date(revision.createdAt).toLocaleString()}
+                </span>
+              </div>
+              {isCurrent ? (
+                <Badge variant="secondary">Current</Badge>
+              ) : (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() =>
+                    toast.promise(restore({ id: revision._id }), {
+                      loading: `Restoring version ${revision.version}`,
+                      success: `Restored version ${revision.version}`,
+                      error: error =>
+                        error instanceof ConvexError
+                          ? String(error.data)
+                          : "Failed to restore version",
+                    })
+                  }
+                >
+                  <IconArrowBackUp />
+                  Restore
+                </Button>
+              )}
+            </div>
+            {revision.restoredFrom !== undefined && (
+              <div className="text-muted-foreground text-xs">
+                Restored from version {revision.restoredFrom}
+              </div>
+            )}
+            <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-xs">
+              {(revision.changedFields as RevisionField[]).map(field => (
+                <div key={field} className="contents">
+                  <dt className="text-muted-foreground">{fieldLabels[field]}</dt>
+                  <dd className="flex min-w-0 items-center gap-1.5">
+                    {previous && (
+                      <>
+                        <span className="text-muted-foreground truncate line-through">
+                          {formatValue(field, previous.snapshot)}
+                        </span>
+                        <IconArrowRight className="text-muted-foreground size-3 shrink-0" />
+                      </>
+                    )}
+                    <span className="truncate">{formatValue(field, revision.snapshot)}</span>
+                  </dd>
+                </div>
+              ))}
+            </dl>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
@@ -0,0 +1,62 @@
+"use client";
+
+import * as React from "react";
+import { IconLink } from "@tabler/icons-react";
+import { useQuery } from "convex/react";
+
+import { api } from "../../convex/_generated/api";
+import type { Doc, Id } from "../../convex/_generated/dataModel";
+
+import { useProposalId } from "@/components/proposal-provider";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+// Search the open proposal's outline and pick a section, hiding those in `excludeIds`
+export function SectionPicker({
+  excludeIds,
+  placeholder,
+  onPick,
+}: {
+  excludeIds: Id<"sections">[];
+  placeholder: string;
+  onPick: (section: Doc<"sections">) => void;
+}) {
+  const proposalId = useProposalId();
+  const [search, setSearch] = React.useState("");
+  const query = search.trim();
+  const results = useQuery(
+    api.sections.page,
+    query
+      ? { proposalId, filters: { search: query }, paginationOpts: { cursor: null, numItems: 8 } }
+      : "skip"
+  );
+
+  return (
+    <div className="flex flex-col gap-2">
+      <Input
+        value={search}
+        onChange={event => setSearch(event.target.value)}
+        placeholder={placeholder}
+        aria-label="Find a section"
+      />
+      {results?.page
+        .filter(section => !excludeIds.includes(section._id))
+        .map(section => (
+          <Button
+            key={section._id}
+            type="button"
+            variant="ghost"
+            size="sm"
+            className="justify-start"
+            onClick={() => onPick(section)}
+          >
+            <IconLink />
+            <span className="truncate">{section.header}</span>
+          </Button>
+        ))}
+      {results?.page.length === 0 && (
+        <p className="text-muted-foreground text-xs">No sections match &quot;{query}&quot;.</p>
+      )}
+    </div>
+  );
+}
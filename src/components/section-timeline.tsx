@@ -0,0 +1,221 @@
+"use client";
+
+import * as React from "react";
+import { useQuery } from "convex/react";
+
+import { api } from "../../convex/_generated/api";
+import type { Doc, Id } from "../../convex/_generated/dataModel";
+import type { SectionFilters } from "../../convex/lib/listing";
+import {
+  MILESTONES,
+  daysBetween,
+  milestoneLabels,
+  overdueMilestone,
+  shiftDate,
+  todayIso,
+  type Milestone,
+  type Schedule,
+} from "../../convex/lib/schedule";
+
+import { useReschedule } from "@/hooks/use-reschedule";
+import { cn } from "@/lib/utils";
+import { useProposalId } from "@/components/proposal-provider";
+
+// Width of one day on the timeline, in pixels
+const DAY_WIDTH = 28;
+
+// Days of slack shown before the first and after the last due date
+const PADDING_DAYS = 3;
+
+// Shortest range shown, so a sparse schedule still reads as a timeline
+const MIN_DAYS = 28;
+
+const dayLabel = new Intl.DateTimeFormat("en-US", {
+  month: "short",
+  day: "numeric",
+  timeZone: "UTC",
+});
+
+// A bar or milestone being dragged; `milestone` is unset when moving the whole bar
+interface Drag {
+  id: Id<"sections">;
+  milestone?: Milestone;
+  startX: number;
+  offsetX: number;
+}
+
+function datesOf(section: Doc<"sections">) {
+  return MILESTONES.flatMap(milestone => section[milestone] ?? []);
+}
+
+// Gantt-style rows of the open proposal's sections matching the table's filters,
+// each a bar from its first to its last due date with a marker per milestone. Drag
+// a bar to shift the whole schedule, or a marker to move one due date.
+export function SectionTimeline({ filters }: { filters: SectionFilters }) {
+  const proposalId = useProposalId();
+  const result = useQuery(api.sections.schedule, { proposalId, filters });
+  const sections = result?.sections;
+  const reschedule = useReschedule();
+  const today = todayIso();
+  const [drag, setDrag] = React.useState<Drag | null>(null);
+
+  const scheduled = (sections ?? []).filter(section => datesOf(section).length > 0);
+  const unscheduled = (sections?.length ?? 0) - scheduled.length;
+  const allDates = [today, ...scheduled.flatMap(datesOf)].sort();
+  const start = shiftDate(allDates[0], -PADDING_DAYS);
+  const dayCount = Math.max(
+    MIN_DAYS,
+    daysBetween(start, allDates[allDates.length - 1]) + PADDING_DAYS + 1
+  );
+  const days = Array.from({ length: dayCount }, (_, index) => shiftDate(start, index));
+  const left = (date: string) => daysBetween(start, date) * DAY_WIDTH;
+
+  const startDrag = (event: React.PointerEvent, id: Id<"sections">, milestone?: Milestone) => {
+    event.stopPropagation();
+    event.currentTarget.setPointerCapture(event.pointerId);
+    setDrag({ id, milestone, startX: event.clientX, offsetX: 0 });
+  };
+
+  const moveDrag = (event: React.PointerEvent) => {
+    if (drag) {
+      setDrag({ ...drag, offsetX: event.clientX - drag.startX });
+    }
+  };
+
+  const endDrag = () => {
+    if (!drag) {
+      return;
+    }
+    setDrag(null);
+    const shift = Math.round(drag.offsetX / DAY_WIDTH);
+    const section = sections?.find(section => section._id === drag.id);
+    if (!section || shift === 0) {
+      return;
+    }
+
+    const changes: Schedule = {};
+    for (const milestone of drag.milestone ? [drag.milestone] : MILESTONES) {
+      const date = section[milestone];
+      if (date !== undefined) {
+        changes[milestone] = shiftDate(date, shift);
+      }
+    }
+    void reschedule(section, changes);
+  };
+
+  // Pixel offset of a bar or marker while it is being dragged, snapped to whole days
+  const dragOffset = (id: Id<"sections">, milestone?: Milestone) =>
+    drag?.id === id && (!drag.milestone || drag.milestone === milestone)
+      ? Math.round(drag.offsetX / DAY_WIDTH) * DAY_WIDTH
+      : 0;
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="overflow-x-auto rounded-lg border text-sm">
+        <div
+          className="grid grid-cols-[14rem_1fr]"
+          style={{ minWidth: `calc(14rem + ${dayCount * DAY_WIDTH}px)` }}
+        >
+          <div className="bg-muted sticky left-0 z-10 border-r border-b px-3 py-1.5 text-xs font-medium">
+            Section
+          </div>
+          <div className="bg-muted relative h-8 border-b">
+            {days.map(date =>
+              date === start || date.endsWith("-01") || new Date(date).getUTCDay() === 1 ? (
+                <span
+                  key={date}
+                  className="text-muted-foreground absolute top-1.5 pl-1 text-xs whitespace-nowrap"
+                  style={{ left: left(date) }}
+                >
+                  {dayLabel.format(new Date(date))}
+                </span>
+              ) : null
+            )}
+          </div>
+          {scheduled.map(section => {
+            const dates = datesOf(section);
+            const first = dates[0];
+            const last = dates[dates.length - 1];
+            const overdue = overdueMilestone(section, today);
+            return (
+              <React.Fragment key={section._id}>
+                <div
+                  className="bg-background sticky left-0 z-10 truncate border-r border-b px-3 py-2"
+                  title={section.header}
+                >
+                  {section.header}
+                </div>
+                <div className="relative h-10 border-b">
+                  <div
+                    className="bg-primary/60 absolute top-1/2 w-px -translate-y-1/2"
+                    style={{ left: left(today) + DAY_WIDTH / 2, height: "100%" }}
+                  />
+                  <div
+                    onPointerDown={event => startDrag(event, section._id)}
+                    onPointerMove={moveDrag}
+                    onPointerUp={endDrag}
+                    onPointerCancel={() => setDrag(null)}
+                    className={cn(
+                      "absolute top-2 h-6 cursor-grab touch-none rounded-md border",
+                      section.status === "Done"
+                        ? "bg-muted border-muted-foreground/30"
+                        : overdue
+                          ? "bg-destructive/15 border-destructive"
+                          : "bg-primary/15 border-primary/40"
+                    )}
+                    style={{
+                      left: left(first) + dragOffset(section._id),
+                      width: (daysBetween(first, last) + 1) * DAY_WIDTH,
+                    }}
+                  />
+                  {MILESTONES.map(milestone => {
+                    const date = section[milestone];
+                    if (date === undefined) {
+                      return null;
+                    }
+                    return (
+                      <div
+                        key={milestone}
+                        onPointerDown={event => startDrag(event, section._id, milestone)}
+                        onPointerMove={moveDrag}
+                        onPointerUp={endDrag}
+                        onPointerCancel={() => setDrag(null)}
+                        title={`${milestoneLabels[milestone]} due ${dayLabel.format(new Date(date))}`}
+                        className={cn(
+                          "absolute top-1/2 size-3 -translate-x-1/2 -translate-y-1/2 rotate-45 cursor-ew-resize touch-none border",
+                          overdue === milestone
+                            ? "bg-destructive border-destructive"
+                            : "bg-primary border-primary"
+                        )}
+                        style={{
+                          left: left(date) + DAY_WIDTH / 2 + dragOffset(section._id, milestone),
+                        }}
+                      />
+                    );
+                  })}
+                </div>
+              </React.Fragment>
+            );
+          })}
+          {sections !== undefined && scheduled.length === 0 && (
+            <div className="text-muted-foreground col-span-2 px-3 py-8 text-center">
+              No section has a due date yet. Set them from a section&apos;s details.
+            </div>
+          )}
+        </div>
+      </div>
+      {unscheduled > 0 && (
+        <p className="text-muted-foreground text-xs">
+          {unscheduled} section{unscheduled === 1 ? " has" : "s have"} no due dates and{" "}
+          {unscheduled === 1 ? "is" : "are"} not shown.
+        </p>
+      )}
+      {result?.truncated && (
+        <p className="text-muted-foreground text-xs">
+          Only the first {result.sections.length} matching sections are loaded. Narrow the filters
+          to see the rest.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+"use client";
+
+import { IconArrowBackUp, IconTrash } from "@tabler/icons-react";
+import { useMutation, useQuery } from "convex/react";
+import { toast } from "sonner";
+
+import { api } from "../../convex/_generated/api";
+import { TRASH_RETENTION_DAYS, purgeDate } from "../../convex/lib/trash";
+
+import { useProposalId } from "@/components/proposal-provider";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+
+// The open proposal's deleted sections waiting to be purged, with controls to restore them or
+// delete them for good right away
+export function SectionTrashDialog() {
+  const proposalId = useProposalId();
+  const trashed = useQuery(api.sections.trashed, { proposalId });
+  const members = useQuery(api.users.listMembers)?.members;
+  const restoreSection = useMutation(api.sections.restore);
+  const removeSection = useMutation(api.sections.remove);
+
+  const memberName = (userId?: string) =>
+    members?.find(member => member.userId === userId)?.name ?? "Unknown user";
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <IconTrash />
+          <span className="hidden lg:inline">Trash</span>
+          {trashed !== undefined && trashed.length > 0 && (
+            <Badge variant="secondary" className="px-1.5">
+              {trashed.length}
+            </Badge>
+          )}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Trash</DialogTitle>
+          <DialogDescription>
+            Deleted sections are kept for {TRASH_RETENTION_DAYS} days, then removed for good.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="flex max-h-96 flex-col gap-2 overflow-y-auto text-sm">
+          {trashed?.length === 0 && <p className="text-muted-foreground">The trash is empty.</p>}
+          {trashed?.map(section => (
+            <div
+              key={section._id}
+              className="flex items-center justify-between gap-2 rounded-lg border p-3"
+            >
+              <div className="flex min-w-0 flex-col gap-1">
+                <span className="truncate font-medium">{section.header}</span>
+                <span className="text-muted-foreground text-xs">
+                  Deleted by {memberName(section.trashedBy)} ·{" "}
+                  {new Date(section.trashedAt!).toLocaleString()} · purged{" "}
+                  {purgeDate(section.trashedAt!).toLocaleDateString()}
+                </span>
+              </div>
+              <div className="flex shrink-0 items-center gap-1">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() =>
+                    toast.promise(restoreSection({ id: section._id }), {
+                      loading: `Restoring ${section.header}`,
+                      success: "Section restored",
+                      error: "Failed to restore section",
+                    })
+                  }
+                >
+                  <IconArrowBackUp />
+                  Restore
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="text-destructive"
+                  onClick={() =>
+                    toast.promise(removeSection({ id: section._id }), {
+                      loading: `Deleting ${section.header}`,
+                      success: "Section deleted for good",
+                      error: "Failed to delete section",
+                    })
+                  }
+                >
+                  Delete forever
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
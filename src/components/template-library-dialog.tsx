@@ -0,0 +1,258 @@
+"use client";
+
+import * as React from "react";
+import { IconPlus, IconTemplate } from "@tabler/icons-react";
+import { EditorContent, useEditor } from "@tiptap/react";
+import StarterKit from "@tiptap/starter-kit";
+import { useMutation, useQuery } from "convex/react";
+import { ConvexError } from "convex/values";
+import { toast } from "sonner";
+
+import { api } from "../../convex/_generated/api";
+import type { Doc, Id } from "../../convex/_generated/dataModel";
+
+import { SECTION_TYPES } from "@/lib/sections";
+import { templateSchema } from "@/lib/templates";
+import { EditorToolbar } from "@/components/section-editor";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+// Rich-text editor for a template's starter content. Remount it (via `key`) to
+// load a different template.
+function StarterContentEditor({
+  html,
+  onChange,
+}: {
+  html: string;
+  onChange: (html: string) => void;
+}) {
+  const editor = useEditor({
+    extensions: [StarterKit],
+    content: html,
+    immediatelyRender: false,
+    shouldRerenderOnTransaction: true,
+    editorProps: {
+      attributes: {
+        class:
+          "min-h-40 p-3 text-sm focus:outline-none [&_h2]:text-base [&_h2]:font-semibold [&_h3]:font-semibold [&_ol]:list-decimal [&_ol]:pl-6 [&_ul]:list-disc [&_ul]:pl-6 [&_blockquote]:border-l-2 [&_blockquote]:pl-4",
+      },
+    },
+    onUpdate: ({ editor }) => onChange(editor.isEmpty ? "" : editor.getHTML()),
+  });
+
+  return (
+    <div className="overflow-hidden rounded-lg border">
+      {editor && <EditorToolbar editor={editor} />}
+      <EditorContent editor={editor} />
+    </div>
+  );
+}
+
+// Create or edit one template
+function TemplateForm({
+  template,
+  onSaved,
+  onDeleted,
+}: {
+  template: Doc<"sectionTemplates"> | null;
+  onSaved: (id: Id<"sectionTemplates">) => void;
+  onDeleted: () => void;
+}) {
+  const createTemplate = useMutation(api.templates.create);
+  const updateTemplate = useMutation(api.templates.update);
+  const removeTemplate = useMutation(api.templates.remove);
+  const [html, setHtml] = React.useState(template?.html ?? "");
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+    const parsed = templateSchema.safeParse({
+      name: formData.get("name"),
+      type: formData.get("type"),
+      target: formData.get("target"),
+      limit: formData.get("limit"),
+      checklist: formData.get("checklist"),
+    });
+    if (!parsed.success) {
+      toast.error(parsed.error.issues[0]?.message ?? "Invalid template");
+      return;
+    }
+
+    const save = async () => {
+      if (template) {
+        await updateTemplate({ id: template._id, ...parsed.data, html });
+        return template._id;
+      }
+      return await createTemplate({ ...parsed.data, html });
+    };
+    toast.promise(save(), {
+      loading: `Saving ${parsed.data.name}`,
+      success: id => {
+        onSaved(id);
+        return "Template saved";
+      },
+      error: error =>
+        error instanceof ConvexError ? String(error.data) : "Failed to save template",
+    });
+  };
+
+  return (
+    <form className="flex flex-col gap-4" onSubmit={handleSubmit}>
+      <div className="flex flex-col gap-3">
+        <Label htmlFor="template-name">Name</Label>
+        <Input id="template-name" name="name" defaultValue={template?.name} />
+      </div>
+      <div className="grid grid-cols-3 gap-4">
+        <div className="flex flex-col gap-3">
+          <Label htmlFor="template-type">Section Type</Label>
+          <Select name="type" defaultValue={template?.type ?? "Narrative"}>
+            <SelectTrigger id="template-type" className="w-full">
+              <SelectValue placeholder="Select a type" />
+            </SelectTrigger>
+            <SelectContent>
+              {SECTION_TYPES.map(type => (
+                <SelectItem key={type} value={type}>
+                  {type}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex flex-col gap-3">
+          <Label htmlFor="template-target">Target</Label>
+          <Input
+            id="template-target"
+            name="target"
+            type="number"
+            min={0}
+            defaultValue={template?.target ?? 0}
+          />
+        </div>
+        <div className="flex flex-col gap-3">
+          <Label htmlFor="template-limit">Limit</Label>
+          <Input
+            id="template-limit"
+            name="limit"
+            type="number"
+            min={0}
+            defaultValue={template?.limit ?? 0}
+          />
+        </div>
+      </div>
+      <div className="flex flex-col gap-3">
+        <Label>Starter content</Label>
+        <StarterContentEditor html={template?.html ?? ""} onChange={setHtml} />
+      </div>
+      <div className="flex flex-col gap-3">
+        <Label htmlFor="template-checklist">Checklist (one item per line)</Label>
+        <textarea
+          id="template-checklist"
+          name="checklist"
+          rows={4}
+          defaultValue={template?.checklist.join("\n")}
+          className="border-input placeholder:text-muted-foreground focus-visible:border-ring focus-visible:ring-ring/50 dark:bg-input/30 min-h-16 w-full rounded-md border bg-transparent px-3 py-2 text-sm shadow-xs outline-none focus-visible:ring-[3px]"
+        />
+      </div>
+      <div className="flex justify-between gap-2">
+        {template ? (
+          <Button
+            type="button"
+            variant="ghost"
+            className="text-destructive"
+            onClick={() =>
+              toast.promise(removeTemplate({ id: template._id }).then(onDeleted), {
+                loading: `Deleting ${template.name}`,
+                success: "Template deleted",
+                error: "Failed to delete template",
+              })
+            }
+          >
+            Delete
+          </Button>
+        ) : (
+          <span />
+        )}
+        <Button type="submit">Save template</Button>
+      </div>
+    </form>
+  );
+}
+
+// The org-wide section template library: pick a template on the left, edit it
+// on the right
+export function TemplateLibraryDialog({
+  open,
+  onOpenChange,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const templates = useQuery(api.templates.list);
+  const [selectedId, setSelectedId] = React.useState<Id<"sectionTemplates"> | "new" | null>(null);
+  const selected = templates?.find(template => template._id === selectedId) ?? null;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Section templates</DialogTitle>
+          <DialogDescription>
+            Templates set the type, page budget, starter content and checklist of new sections.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid max-h-[70vh] gap-4 overflow-y-auto md:grid-cols-[14rem_1fr]">
+          <div className="flex flex-col gap-1">
+            {templates?.map(template => (
+              <Button
+                key={template._id}
+                variant={template._id === selectedId ? "secondary" : "ghost"}
+                size="sm"
+                className="justify-start"
+                onClick={() => setSelectedId(template._id)}
+              >
+                <IconTemplate />
+                <span className="truncate">{template.name}</span>
+              </Button>
+            ))}
+            <Button
+              variant={selectedId === "new" ? "secondary" : "ghost"}
+              size="sm"
+              className="justify-start"
+              onClick={() => setSelectedId("new")}
+            >
+              <IconPlus />
+              New template
+            </Button>
+          </div>
+          {selectedId === null ? (
+            <p className="text-muted-foreground text-sm">
+              Choose a template to edit, or create a new one.
+            </p>
+          ) : (
+            <TemplateForm
+              key={selected ? `${selected._id}-${selected.updatedAt}` : "new"}
+              template={selected}
+              onSaved={setSelectedId}
+              onDeleted={() => setSelectedId(null)}
+            />
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
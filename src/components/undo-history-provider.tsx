@@ -0,0 +1,172 @@
+"use client";
+
+import * as React from "react";
+import { ConvexError } from "convex/values";
+import { toast } from "sonner";
+
+// One reversible outline edit. Both directions run Convex mutations, so
+// collaborators see an undo or redo like any other edit.
+export interface HistoryEntry {
+  label: string;
+  undo: () => Promise<unknown>;
+  redo: () => Promise<unknown>;
+}
+
+// Most edits kept for undo
+const MAX_ENTRIES = 50;
+
+interface UndoHistory {
+  canUndo: boolean;
+  canRedo: boolean;
+  undoLabel?: string;
+  redoLabel?: string;
+  record: (entry: HistoryEntry) => void;
+  undo: () => void;
+  redo: () => void;
+  // Undo a specific entry, e.g. from its toast, even if newer edits came after it
+  revert: (entry: HistoryEntry) => void;
+}
+
+interface Stacks {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+}
+
+const UndoHistoryContext = React.createContext<UndoHistory | null>(null);
+
+export function useUndoHistory() {
+  const history = React.useContext(UndoHistoryContext);
+  if (!history) {
+    throw new Error("useUndoHistory must be used within an UndoHistoryProvider.");
+  }
+
+  return history;
+}
+
+// Text fields keep the browser's own undo for typing
+function isTextInput(target: EventTarget | null) {
+  return (
+    target instanceof HTMLElement &&
+    (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName))
+  );
+}
+
+// Session-scoped undo/redo stacks for outline edits, bound to Ctrl/Cmd+Z and
+// Shift+Ctrl/Cmd+Z. Steps run one at a time; a failed step is dropped from history.
+export function UndoHistoryProvider({ children }: { children: React.ReactNode }) {
+  // Kept in a ref so callbacks held by toasts of unmounted rows see the current stacks
+  const stacks = React.useRef<Stacks>({ past: [], future: [] });
+  const [{ past, future }, setStacks] = React.useState<Stacks>(stacks.current);
+  const isRunning = React.useRef(false);
+
+  const update = React.useCallback((change: (current: Stacks) => Stacks) => {
+    stacks.current = change(stacks.current);
+    setStacks(stacks.current);
+  }, []);
+
+  const record = React.useCallback(
+    (entry: HistoryEntry) =>
+      update(({ past }) => ({ past: [...past, entry].slice(-MAX_ENTRIES), future: [] })),
+    [update]
+  );
+
+  const step = React.useCallback(
+    async (entry: HistoryEntry, direction: "undo" | "redo", onDone: (stacks: Stacks) => Stacks) => {
+      if (isRunning.current) {
+        return;
+      }
+      isRunning.current = true;
+      const verb = direction === "undo" ? "Undo" : "Redo";
+      const toastId = toast.loading(`${verb}: ${entry.label}`);
+      try {
+        await entry[direction]();
+        update(onDone);
+        toast.success(`${verb}: ${entry.label}`, { id: toastId });
+      } catch (error) {
+        update(({ past, future }) => ({
+          past: past.filter(item => item !== entry),
+          future: future.filter(item => item !== entry),
+        }));
+        toast.error(
+          error instanceof ConvexError ? String(error.data) : `Could not ${verb.toLowerCase()}`,
+          { id: toastId, description: entry.label }
+        );
+      } finally {
+        isRunning.current = false;
+      }
+    },
+    [update]
+  );
+
+  const undo = React.useCallback(() => {
+    const entry = stacks.current.past.at(-1);
+    if (entry) {
+      void step(entry, "undo", ({ past, future }) => ({
+        past: past.filter(item => item !== entry),
+        future: [...future, entry],
+      }));
+    }
+  }, [step]);
+
+  const redo = React.useCallback(() => {
+    const entry = stacks.current.future.at(-1);
+    if (entry) {
+      void step(entry, "redo", ({ past, future }) => ({
+        past: [...past, entry],
+        future: future.filter(item => item !== entry),
+      }));
+    }
+  }, [step]);
+
+  const revert = React.useCallback(
+    (entry: HistoryEntry) => {
+      const { past } = stacks.current;
+      if (past.at(-1) === entry) {
+        undo();
+      } else if (past.includes(entry)) {
+        void step(entry, "undo", current => ({
+          ...current,
+          past: current.past.filter(item => item !== entry),
+        }));
+      }
+    },
+    [step, undo]
+  );
+
+  React.useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (
+        event.key.toLowerCase() !== "z" ||
+        !(event.metaKey || event.ctrlKey) ||
+        event.altKey ||
+        isTextInput(event.target)
+      ) {
+        return;
+      }
+      event.preventDefault();
+      if (event.shiftKey) {
+        redo();
+      } else {
+        undo();
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [undo, redo]);
+
+  const value = React.useMemo<UndoHistory>(
+    () => ({
+      canUndo: past.length > 0,
+      canRedo: future.length > 0,
+      undoLabel: past.at(-1)?.label,
+      redoLabel: future.at(-1)?.label,
+      record,
+      undo,
+      redo,
+      revert,
+    }),
+    [past, future, record, undo, redo, revert]
+  );
+
+  return <UndoHistoryContext.Provider value={value}>{children}</UndoHistoryContext.Provider>;
+}
@@ -0,0 +1,53 @@
+import { useMutation } from "convex/react";
+import { ConvexError } from "convex/values";
+import { toast } from "sonner";
+
+import { api } from "../../convex/_generated/api";
+import type { Id } from "../../convex/_generated/dataModel";
+
+import { useUndoHistory, type HistoryEntry } from "@/components/undo-history-provider";
+
+type BulkResult = { operationId: Id<"bulkOperations">; updated: number; skipped: number };
+
+export type BulkAction = (ids: Id<"sections">[]) => Promise<BulkResult>;
+
+const plural = (count: number) => `${count} section${count === 1 ? "" : "s"}`;
+
+// Run a bulk mutation behind a loading toast and record it in the undo history.
+// The toast offers a one-click undo of the whole batch, leaving alone sections
+// changed since; redo re-runs the action.
+export function useBulkAction() {
+  const undo = useMutation(api.bulk.undo);
+  const history = useUndoHistory();
+
+  return async (label: string, ids: Id<"sections">[], action: BulkAction) => {
+    const toastId = toast.loading(`${label} ${plural(ids.length)}`);
+    try {
+      let result = await action(ids);
+      const { updated, skipped } = result;
+      const entry: HistoryEntry = {
+        label: `${label} ${plural(updated)}`,
+        undo: async () => {
+          const { skipped } = await undo({ operationId: result.operationId });
+          if (skipped > 0) {
+            toast.warning(`${plural(skipped)} changed since and kept the newer values`);
+          }
+        },
+        redo: async () => {
+          result = await action(ids);
+        },
+      };
+      history.record(entry);
+      toast.success(entry.label, {
+        id: toastId,
+        description:
+          skipped > 0 ? `${skipped} skipped because the status workflow blocks it` : undefined,
+        action: { label: "Undo", onClick: () => history.revert(entry) },
+      });
+    } catch (error) {
+      toast.error(error instanceof ConvexError ? String(error.data) : `${label} failed`, {
+        id: toastId,
+      });
+    }
+  };
+}
@@ -0,0 +1,234 @@
+import * as React from "react";
+
+export interface GridCell {
+  row: number;
+  col: number;
+}
+
+// Inclusive bounds of a rectangular block of cells
+export interface CellRange {
+  top: number;
+  left: number;
+  bottom: number;
+  right: number;
+}
+
+const ARROWS: Record<string, GridCell> = {
+  ArrowUp: { row: -1, col: 0 },
+  ArrowDown: { row: 1, col: 0 },
+  ArrowLeft: { row: 0, col: -1 },
+  ArrowRight: { row: 0, col: 1 },
+};
+
+function toRange(anchor: GridCell, active: GridCell): CellRange {
+  return {
+    top: Math.min(anchor.row, active.row),
+    left: Math.min(anchor.col, active.col),
+    bottom: Math.max(anchor.row, active.row),
+    right: Math.max(anchor.col, active.col),
+  };
+}
+
+// Position of a grid cell element, from its data-grid-row / data-grid-col attributes
+function positionOf(element: HTMLElement): GridCell {
+  return { row: Number(element.dataset.gridRow), col: Number(element.dataset.gridCol) };
+}
+
+// Spreadsheet-style navigation over a table body. Arrow keys move between cells
+// (Shift extends the selected range, Ctrl/Cmd jumps to the edge), Tab advances,
+// Enter edits the cell's control and commits it, and Escape cancels back to the
+// cell. Copy and paste go through `getCopyText` and `onPaste` while a cell, not
+// a control inside it, has focus. In a virtualized table, `scrollToRow` brings a
+// row into view and its cell is focused once it renders.
+export function useCellGrid({
+  rowCount,
+  colCount,
+  getCopyText,
+  onPaste,
+  scrollToRow,
+}: {
+  rowCount: number;
+  colCount: number;
+  getCopyText: (range: CellRange) => string;
+  onPaste: (range: CellRange, text: string) => void;
+  scrollToRow?: (row: number) => void;
+}) {
+  const containerRef = React.useRef<HTMLTableSectionElement>(null);
+  const [active, setActive] = React.useState<GridCell | null>(null);
+  const [anchor, setAnchor] = React.useState<GridCell | null>(null);
+  // Updated synchronously so focus events from our own moves are not mistaken for clicks
+  const activeRef = React.useRef<GridCell | null>(null);
+  // A cell to focus once its row is rendered
+  const pendingFocus = React.useRef<GridCell | null>(null);
+  const range = active && anchor ? toRange(anchor, active) : null;
+
+  const select = React.useCallback((cell: GridCell, extend = false) => {
+    activeRef.current = cell;
+    setActive(cell);
+    setAnchor(current => (extend && current ? current : cell));
+  }, []);
+
+  const focusCell = (cell: GridCell, extend = false) => {
+    const target = {
+      row: Math.min(Math.max(cell.row, 0), rowCount - 1),
+      col: Math.min(Math.max(cell.col, 0), colCount - 1),
+    };
+    select(target, extend);
+    scrollToRow?.(target.row);
+    pendingFocus.current = target;
+    focusPending();
+  };
+
+  const focusPending = () => {
+    const cell = pendingFocus.current;
+    const element =
+      cell &&
+      containerRef.current?.querySelector<HTMLElement>(
+        `[data-grid-row="${cell.row}"][data-grid-col="${cell.col}"]`
+      );
+    if (element) {
+      pendingFocus.current = null;
+      element.focus();
+    }
+  };
+
+  React.useEffect(() => focusPending());
+
+  // The next cell in reading order, or null past either end of the grid
+  const nextCell = ({ row, col }: GridCell, backwards: boolean): GridCell | null => {
+    const index = row * colCount + col + (backwards ? -1 : 1);
+    return index < 0 || index >= rowCount * colCount
+      ? null
+      : { row: Math.floor(index / colCount), col: index % colCount };
+  };
+
+  // Drop the selection when its rows disappear, e.g. after changing page
+  React.useEffect(() => {
+    if (activeRef.current && activeRef.current.row >= rowCount) {
+      activeRef.current = null;
+      setActive(null);
+      setAnchor(null);
+    }
+  }, [rowCount]);
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLElement>) => {
+    const target = event.target as HTMLElement;
+    // Ignore keys from portalled content such as open select menus
+    const cell = event.currentTarget.contains(target)
+      ? target.closest<HTMLElement>("[data-grid-row]")
+      : null;
+    if (!cell) {
+      return;
+    }
+    const position = positionOf(cell);
+
+    if (target !== cell) {
+      // Editing a control inside the cell
+      const commit = target instanceof HTMLInputElement ? target.form : null;
+      if (event.key === "Escape") {
+        focusCell(position);
+      } else if ((event.key === "Enter" && commit) || event.key === "Tab") {
+        event.preventDefault();
+        commit?.requestSubmit();
+        const next =
+          event.key === "Tab"
+            ? nextCell(position, event.shiftKey)
+            : { row: position.row + (event.shiftKey ? -1 : 1), col: position.col };
+        focusCell(next ?? position);
+      }
+      return;
+    }
+
+    const arrow = ARROWS[event.key];
+    if (arrow) {
+      event.preventDefault();
+      const jump = event.metaKey || event.ctrlKey ? Math.max(rowCount, colCount) : 1;
+      focusCell(
+        { row: position.row + arrow.row * jump, col: position.col + arrow.col * jump },
+        event.shiftKey
+      );
+    } else if (event.key === "Tab") {
+      const next = nextCell(position, event.shiftKey);
+      // Past the last cell, Tab leaves the table as usual
+      if (next) {
+        event.preventDefault();
+        focusCell(next);
+      }
+    } else if (event.key === "Enter" || event.key === "F2") {
+      const control = cell.querySelector<HTMLElement>("input, button, [tabindex]");
+      if (control) {
+        event.preventDefault();
+        control.focus();
+        if (control instanceof HTMLInputElement) {
+          control.select();
+        }
+      }
+    } else if (event.key === "Escape") {
+      select(position);
+    }
+  };
+
+  // Clipboard events land on the focused cell rather than on a text selection
+  React.useEffect(() => {
+    const focusedCell = () => {
+      const element = document.activeElement;
+      return element instanceof HTMLElement &&
+        element.dataset.gridRow !== undefined &&
+        containerRef.current?.contains(element)
+        ? element
+        : null;
+    };
+    const handleCopy = (event: ClipboardEvent) => {
+      if (focusedCell() && range) {
+        event.preventDefault();
+        event.clipboardData?.setData("text/plain", getCopyText(range));
+      }
+    };
+    const handlePaste = (event: ClipboardEvent) => {
+      const text = event.clipboardData?.getData("text/plain");
+      if (focusedCell() && range && text) {
+        event.preventDefault();
+        onPaste(range, text);
+      }
+    };
+    document.addEventListener("copy", handleCopy);
+    document.addEventListener("paste", handlePaste);
+    return () => {
+      document.removeEventListener("copy", handleCopy);
+      document.removeEventListener("paste", handlePaste);
+    };
+  }, [range, getCopyText, onPaste]);
+
+  // Props for the cell at `row`, `col`; only one cell is in the tab order at a time
+  const cellProps = (row: number, col: number) => {
+    const isActive = active?.row === row && active.col === col;
+    const isSelected =
+      range !== null &&
+      row >= range.top &&
+      row <= range.bottom &&
+      col >= range.left &&
+      col <= range.right;
+    return {
+      tabIndex: isActive || (active === null && row === 0 && col === 0) ? 0 : -1,
+      "data-grid-row": row,
+      "data-grid-col": col,
+      "data-selected": isSelected || undefined,
+      "data-active": isActive || undefined,
+      onMouseDown: (event: React.MouseEvent) => {
+        if (event.shiftKey && activeRef.current) {
+          event.preventDefault();
+          focusCell({ row, col }, true);
+        }
+      },
+      onFocus: () => {
+        pendingFocus.current = null;
+        const current = activeRef.current;
+        if (current?.row !== row || current.col !== col) {
+          select({ row, col });
+        }
+      },
+    };
+  };
+
+  return { containerRef, range, cellProps, handleKeyDown };
+}
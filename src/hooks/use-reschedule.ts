@@ -0,0 +1,65 @@
+import { useMutation } from "convex/react";
+import { ConvexError } from "convex/values";
+import { toast } from "sonner";
+
+import { api } from "../../convex/_generated/api";
+import type { Doc } from "../../convex/_generated/dataModel";
+import { scheduleError, type Schedule } from "../../convex/lib/schedule";
+
+import { useUndoHistory, type HistoryEntry } from "@/components/undo-history-provider";
+
+// Move some of a section's due dates, keeping the rest. The calendar and timeline
+// views update at once and roll back if Convex rejects the new schedule; the move
+// is recorded in the undo history. Each write carries the dates it moves from, so
+// neither the move nor its undo and redo overwrite someone else's reschedule.
+export function useReschedule() {
+  const history = useUndoHistory();
+  const setSchedule = useMutation(api.sections.setSchedule).withOptimisticUpdate(
+    (localStore, { id, draftDue, reviewDue, finalDue }) => {
+      for (const { args, value } of localStore.getAllQueries(api.sections.schedule)) {
+        if (value !== undefined) {
+          localStore.setQuery(api.sections.schedule, args, {
+            ...value,
+            sections: value.sections.map(section =>
+              section._id === id ? { ...section, draftDue, reviewDue, finalDue } : section
+            ),
+          });
+        }
+      }
+    }
+  );
+
+  return async (section: Doc<"sections">, changes: Schedule) => {
+    const before: Schedule = {
+      draftDue: section.draftDue,
+      reviewDue: section.reviewDue,
+      finalDue: section.finalDue,
+    };
+    const after = { ...before, ...changes };
+    const error = scheduleError(after);
+    if (error) {
+      toast.error(error);
+      return;
+    }
+
+    const toastId = toast.loading(`Rescheduling ${section.header}`);
+    try {
+      await setSchedule({ id: section._id, ...after, expected: before });
+      const entry: HistoryEntry = {
+        label: `Reschedule ${section.header}`,
+        undo: () => setSchedule({ id: section._id, ...before, expected: after }),
+        redo: () => setSchedule({ id: section._id, ...after, expected: before }),
+      };
+      history.record(entry);
+      toast.success(`Rescheduled ${section.header}`, {
+        id: toastId,
+        action: { label: "Undo", onClick: () => history.revert(entry) },
+      });
+    } catch (error) {
+      toast.error(
+        error instanceof ConvexError ? String(error.data) : "Failed to reschedule section",
+        { id: toastId }
+      );
+    }
+  };
+}
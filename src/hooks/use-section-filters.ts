@@ -0,0 +1,63 @@
+import * as React from "react";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+
+import type { SectionFilters } from "../../convex/lib/listing";
+import { SECTION_STATUSES, type SectionStatus } from "../../convex/lib/workflow";
+
+// Query string parameter for each filter. Multi-value filters repeat the
+// parameter, e.g. `?status=Done&status=In+Review`; favorites is `?favorites=1`.
+const FILTER_PARAMS = {
+  search: "q",
+  types: "type",
+  statuses: "status",
+  reviewerIds: "reviewer",
+  favorites: "favorites",
+} as const;
+
+function parseFilters(params: URLSearchParams): SectionFilters {
+  const list = <T extends string>(values: T[]) => (values.length ? values : undefined);
+  return {
+    search: params.get(FILTER_PARAMS.search) || undefined,
+    types: list(params.getAll(FILTER_PARAMS.types)),
+    statuses: list(
+      params
+        .getAll(FILTER_PARAMS.statuses)
+        .filter((status): status is SectionStatus =>
+          SECTION_STATUSES.includes(status as SectionStatus)
+        )
+    ),
+    reviewerIds: list(params.getAll(FILTER_PARAMS.reviewerIds)),
+    favorites: params.get(FILTER_PARAMS.favorites) === "1" || undefined,
+  };
+}
+
+// Outline filters kept in the URL so a filtered view can be shared as a link
+export function useSectionFilters() {
+  const searchParams = useSearchParams();
+  const router = useRouter();
+  const pathname = usePathname();
+
+  const filters = React.useMemo(() => parseFilters(searchParams), [searchParams]);
+
+  const setFilters = React.useCallback(
+    (next: SectionFilters) => {
+      const params = new URLSearchParams(searchParams);
+      for (const [key, name] of Object.entries(FILTER_PARAMS)) {
+        params.delete(name);
+        const value = next[key as keyof SectionFilters];
+        if (value === true) {
+          params.append(name, "1");
+          continue;
+        }
+        for (const item of Array.isArray(value) ? value : value ? [value] : []) {
+          params.append(name, item);
+        }
+      }
+      const query = params.toString();
+      router.replace(query ? `${pathname}?${query}` : pathname, { scroll: false });
+    },
+    [pathname, router, searchParams]
+  );
+
+  return { filters, setFilters };
+}
@@ -0,0 +1,145 @@
+import * as React from "react";
+import { usePaginatedQuery, useQuery } from "convex/react";
+
+import { api } from "../../convex/_generated/api";
+import type { Doc } from "../../convex/_generated/dataModel";
+import type { SectionFilters, SectionSort } from "../../convex/lib/listing";
+
+import { useProposalId } from "@/components/proposal-provider";
+
+// Convex pages are addressed by cursor, not by number, so we remember the cursor
+// that starts each page as the user walks through them. "First" and "next" walk
+// forward from the start of the outline; "last" starts a second chain that walks
+// backwards from the end by querying in the opposite direction.
+interface CursorChain {
+  key: string;
+  anchor: "start" | "end";
+  // Size of the first page of the chain: the remainder page when walking from the end
+  firstSize: number;
+  // cursors[n] starts the n-th page counted from the anchor
+  cursors: (string | null)[];
+}
+
+// Page size that loads every row into one scrolling list, a batch at a time
+export const SHOW_ALL = 0;
+
+// Rows fetched per batch in the show-all list
+const LOAD_BATCH = 200;
+
+export function useSectionPages({
+  pageIndex,
+  pageSize,
+  sort,
+  filters,
+}: {
+  pageIndex: number;
+  pageSize: number;
+  sort: SectionSort;
+  filters: SectionFilters;
+}) {
+  const proposalId = useProposalId();
+  const showAll = pageSize === SHOW_ALL;
+  const key = JSON.stringify([proposalId, pageSize, sort, filters]);
+  const counted = useQuery(api.sections.count, { proposalId, filters });
+  const total = counted?.count;
+  // A capped count is only a lower bound, so the page count stays open until the
+  // last page has been reached
+  const capped = counted?.capped ?? false;
+  const [lastPageIndex, setLastPageIndex] = React.useState<{ key: string; index: number }>();
+  const pageCount =
+    total === undefined
+      ? undefined
+      : showAll
+        ? 1
+        : !capped
+          ? Math.max(1, Math.ceil(total / pageSize))
+          : lastPageIndex?.key === key
+            ? lastPageIndex.index + 1
+            : undefined;
+  // Search results are ranked by relevance and cannot be read backwards, and the
+  // end of a capped count is unknown
+  const canWalkFromEnd = !filters.search?.trim() && !capped;
+
+  const [stored, setStored] = React.useState<CursorChain | null>(null);
+  const { chain, step } = React.useMemo((): { chain: CursorChain; step: number } => {
+    const chain: CursorChain =
+      stored?.key === key ? stored : { key, anchor: "start", firstSize: pageSize, cursors: [null] };
+    const step = chain.anchor === "start" ? pageIndex : (pageCount ?? 0) - 1 - pageIndex;
+    if (chain.cursors[step] !== undefined) {
+      return { chain, step };
+    }
+    if (pageIndex === 0) {
+      return { chain: { key, anchor: "start", firstSize: pageSize, cursors: [null] }, step: 0 };
+    }
+    if (canWalkFromEnd && total !== undefined && pageIndex === (pageCount ?? 0) - 1) {
+      return {
+        chain: { key, anchor: "end", firstSize: total - pageIndex * pageSize, cursors: [null] },
+        step: 0,
+      };
+    }
+    return { chain, step };
+  }, [stored, key, pageIndex, pageSize, pageCount, total, canWalkFromEnd]);
+
+  const cursor = chain.cursors[step];
+  const result = useQuery(
+    api.sections.page,
+    showAll || cursor === undefined
+      ? "skip"
+      : {
+          proposalId,
+          filters,
+          sort: chain.anchor === "start" ? sort : { ...sort, desc: !sort.desc },
+          paginationOpts: { cursor, numItems: step === 0 ? chain.firstSize : pageSize },
+        }
+  );
+  const all = usePaginatedQuery(
+    api.sections.page,
+    showAll ? { proposalId, filters, sort } : "skip",
+    { initialNumItems: LOAD_BATCH }
+  );
+
+  // Remember where the following page starts once this one has loaded, or that
+  // there is none
+  const nextCursor = result?.isDone ? undefined : result?.continueCursor;
+  const isLastPage = chain.anchor === "start" && result?.isDone === true;
+  React.useEffect(() => {
+    if (nextCursor !== undefined && chain.cursors[step + 1] !== nextCursor) {
+      const cursors = chain.cursors.slice(0, step + 1);
+      cursors[step + 1] = nextCursor;
+      setStored({ ...chain, cursors });
+    }
+  }, [chain, step, nextCursor]);
+  React.useEffect(() => {
+    if (isLastPage) {
+      setLastPageIndex({ key, index: pageIndex });
+    }
+  }, [isLastPage, key, pageIndex]);
+
+  // Keep showing the previous page while the next one loads
+  const lastRows = React.useRef<Doc<"sections">[] | undefined>(undefined);
+  if (result) {
+    lastRows.current = chain.anchor === "start" ? result.page : result.page.slice().reverse();
+  }
+
+  if (showAll) {
+    return {
+      rows: all.status === "LoadingFirstPage" ? undefined : all.results,
+      total,
+      capped,
+      pageCount,
+      isLoading: all.status === "LoadingFirstPage" || all.status === "LoadingMore",
+      canWalkFromEnd,
+      loadMore: all.status === "CanLoadMore" ? () => all.loadMore(LOAD_BATCH) : undefined,
+    };
+  }
+
+  return {
+    rows: lastRows.current,
+    total,
+    capped,
+    pageCount,
+    isLoading: result === undefined,
+    canWalkFromEnd,
+    loadMore: undefined,
+  };
+}
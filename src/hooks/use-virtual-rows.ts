@@ -0,0 +1,208 @@
+import * as React from "react";
+
+// Row height used until a rendered row has been measured, in pixels
+const ESTIMATED_ROW_HEIGHT = 49;
+
+// Top offset of every row, followed by the total height. Rows that have not been
+// measured yet count as `estimate`.
+export function rowOffsets(
+  keys: readonly string[],
+  heights: ReadonlyMap<string, number>,
+  estimate: number
+) {
+  const offsets = new Array<number>(keys.length + 1);
+  offsets[0] = 0;
+  for (let i = 0; i < keys.length; i++) {
+    offsets[i + 1] = offsets[i] + (heights.get(keys[i]) ?? estimate);
+  }
+  return offsets;
+}
+
+// Index of the row that covers position `y`
+function rowAt(offsets: readonly number[], y: number) {
+  let low = 0;
+  let high = offsets.length - 2;
+  while (low < high) {
+    const mid = (low + high + 1) >> 1;
+    if (offsets[mid] <= y) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return low;
+}
+
+// Rows [start, end) to render for the viewport, with `overscan` extra rows on
+// either side, widened to keep `pinnedIndex` in range
+export function rowWindow(
+  offsets: readonly number[],
+  viewport: { top: number; height: number },
+  overscan: number,
+  pinnedIndex?: number
+) {
+  const count = offsets.length - 1;
+  if (count <= 0) {
+    return { start: 0, end: 0 };
+  }
+
+  let start = Math.max(0, rowAt(offsets, viewport.top) - overscan);
+  let end = Math.min(count, rowAt(offsets, viewport.top + viewport.height) + 1 + overscan);
+  if (pinnedIndex !== undefined && pinnedIndex >= 0 && pinnedIndex < count) {
+    start = Math.min(start, pinnedIndex);
+    end = Math.max(end, pinnedIndex + 1);
+  }
+  return { start, end };
+}
+
+// Window a long table body inside the scroll container behind `scrollRef`. Only
+// the rows in view, plus `overscan` on either side, are rendered; `paddingTop`
+// and `paddingBottom` are the heights of the spacer rows standing in for the
+// rest. Every rendered row is measured with a ResizeObserver, keyed by its entry
+// in `rowKeys`, so rows made taller by wrapped text keep their place.
+// `pinnedIndex` stays rendered while scrolled away, e.g. a row being dragged.
+export function useVirtualRows({
+  rowKeys,
+  enabled,
+  overscan = 10,
+  pinnedIndex,
+}: {
+  rowKeys: readonly string[];
+  enabled: boolean;
+  overscan?: number;
+  pinnedIndex?: number;
+}) {
+  const scrollRef = React.useRef<HTMLDivElement>(null);
+  const [viewport, setViewport] = React.useState({ top: 0, height: 0 });
+  const [heights, setHeights] = React.useState<ReadonlyMap<string, number>>(() => new Map());
+  const rowObserver = React.useRef<ResizeObserver | null>(null);
+  const observedRows = React.useRef(new Set<HTMLElement>());
+
+  React.useEffect(() => {
+    const element = scrollRef.current;
+    if (!enabled || !element) {
+      return;
+    }
+
+    let frame = 0;
+    const update = () => {
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(() =>
+        setViewport({ top: element.scrollTop, height: element.clientHeight })
+      );
+    };
+    update();
+    element.addEventListener("scroll", update, { passive: true });
+    const observer = new ResizeObserver(update);
+    observer.observe(element);
+    return () => {
+      cancelAnimationFrame(frame);
+      element.removeEventListener("scroll", update);
+      observer.disconnect();
+    };
+  }, [enabled]);
+
+  // One observer for the rendered rows, reporting each row's height when it
+  // mounts and whenever it changes
+  React.useLayoutEffect(() => {
+    if (!enabled) {
+      return;
+    }
+
+    const observer = new ResizeObserver(entries => {
+      setHeights(current => {
+        let next: Map<string, number> | undefined;
+        for (const entry of entries) {
+          const row = entry.target as HTMLElement;
+          const key = row.dataset.virtualKey;
+          const height = row.getBoundingClientRect().height;
+          if (key === undefined || height === 0) {
+            continue;
+          }
+          if (Math.abs((current.get(key) ?? 0) - height) > 0.5) {
+            next ??= new Map(current);
+            next.set(key, height);
+          }
+        }
+        return next ?? current;
+      });
+    });
+    rowObserver.current = observer;
+    return () => {
+      observer.disconnect();
+      rowObserver.current = null;
+      observedRows.current = new Set();
+    };
+  }, [enabled]);
+
+  const offsets = React.useMemo(() => {
+    const measured = [...heights.values()];
+    const estimate = measured.length
+      ? measured.reduce((sum, height) => sum + height, 0) / measured.length
+      : ESTIMATED_ROW_HEIGHT;
+    return rowOffsets(rowKeys, heights, estimate);
+  }, [rowKeys, heights]);
+
+  const count = rowKeys.length;
+  const { start, end } = enabled
+    ? rowWindow(offsets, viewport, overscan, pinnedIndex)
+    : { start: 0, end: count };
+
+  // Tag the rendered rows with their key and watch the new ones; rows that left
+  // the window are no longer observed
+  React.useLayoutEffect(() => {
+    const observer = rowObserver.current;
+    const rows = scrollRef.current?.querySelectorAll<HTMLElement>("tbody > tr:not([aria-hidden])");
+    if (!observer || !rows) {
+      return;
+    }
+
+    const observed = observedRows.current;
+    const current = new Set<HTMLElement>();
+    rows.forEach((row, i) => {
+      const key = rowKeys[start + i];
+      if (key === undefined) {
+        return;
+      }
+      row.dataset.virtualKey = key;
+      current.add(row);
+      if (!observed.has(row)) {
+        observer.observe(row);
+      }
+    });
+    for (const row of observed) {
+      if (!current.has(row)) {
+        observer.unobserve(row);
+      }
+    }
+    observedRows.current = current;
+  }, [rowKeys, start, end]);
+
+  // Scroll just far enough for a row to show below the sticky header
+  const scrollToRow = React.useCallback(
+    (index: number) => {
+      const element = scrollRef.current;
+      if (!enabled || !element || index < 0 || index >= offsets.length - 1) {
+        return;
+      }
+      const header = element.querySelector("thead")?.getBoundingClientRect().height ?? 0;
+      const top = offsets[index];
+      const bottom = offsets[index + 1];
+      if (top < element.scrollTop) {
+        element.scrollTop = top;
+      } else if (header + bottom > element.scrollTop + element.clientHeight) {
+        element.scrollTop = header + bottom - element.clientHeight;
+      }
+    },
+    [enabled, offsets]
+  );
+
+  return {
+    scrollRef,
+    start,
+    end,
+    paddingTop: enabled ? offsets[start] : 0,
+    paddingBottom: enabled ? offsets[count] - offsets[end] : 0,
+    scrollToRow,
+  };
+}
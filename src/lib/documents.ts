@@ -0,0 +1,21 @@
+import { z } from "zod";
+
+import { DOCUMENT_KINDS } from "../../convex/lib/documents";
+
+// Editable document fields, validated before they are sent to Convex.
+// Tags are entered as a comma-separated list.
+export const documentSchema = z.object({
+  title: z.string().trim().min(1, "Title is required"),
+  kind: z.enum(DOCUMENT_KINDS),
+  tags: z.string().transform(value =>
+    value
+      .split(",")
+      .map(tag => tag.trim().toLowerCase())
+      .filter(Boolean)
+  ),
+});
+
+// Default title for a new document: its file name without the extension
+export function titleFromFileName(fileName: string) {
+  return fileName.replace(/\.[^.]+$/, "");
+}
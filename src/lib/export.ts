@@ -0,0 +1,137 @@
+import type { Doc } from "../../convex/_generated/dataModel";
+
+type Section = Doc<"sections">;
+
+type ReviewerName = (userId?: string) => string;
+
+// Exportable columns keyed by their DataTable column id
+export const EXPORT_COLUMNS = {
+  header: { label: "Header", value: (section: Section) => section.header },
+  type: { label: "Section Type", value: (section: Section) => section.type },
+  status: { label: "Status", value: (section: Section) => section.status },
+  target: { label: "Target", value: (section: Section) => section.target },
+  limit: { label: "Limit", value: (section: Section) => section.limit },
+  reviewer: {
+    label: "Reviewer",
+    value: (section: Section, reviewerName: ReviewerName) => reviewerName(section.reviewerId),
+  },
+} as const;
+
+export type ExportColumn = keyof typeof EXPORT_COLUMNS;
+
+const ALL_COLUMNS = Object.keys(EXPORT_COLUMNS) as ExportColumn[];
+
+// Flat, human-readable rows for exporting sections
+export function toExportRows(
+  sections: Section[],
+  reviewerName: ReviewerName,
+  columns: ExportColumn[] = ALL_COLUMNS
+) {
+  return sections.map(section =>
+    Object.fromEntries(
+      columns.map(column => [
+        EXPORT_COLUMNS[column].label,
+        EXPORT_COLUMNS[column].value(section, reviewerName),
+      ])
+    )
+  );
+}
+
+// Leading characters that make a spreadsheet read a cell as a formula
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+// Quote a CSV cell when needed. Text that a spreadsheet would run as a formula is
+// prefixed with an apostrophe so it opens as plain text.
+export function escapeCsv(value: unknown) {
+  const text =
+    typeof value === "string" && FORMULA_START.test(value) ? `'${value}` : String(value ?? "");
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(rows: Record<string, unknown>[]) {
+  if (rows.length === 0) {
+    return "";
+  }
+  const headers = Object.keys(rows[0]);
+  return [
+    headers.map(escapeCsv).join(","),
+    ...rows.map(row => headers.map(header => escapeCsv(row[header])).join(",")),
+  ].join("\n");
+}
+
+// Tab-separated cells, the format spreadsheets put on and read from the clipboard
+export function toTsv(rows: unknown[][]) {
+  const escape = (value: unknown) => {
+    const text = String(value ?? "");
+    return /["\t\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  return rows.map(row => row.map(escape).join("\t")).join("\n");
+}
+
+export function toJson(rows: Record<string, unknown>[]) {
+  return JSON.stringify(rows, null, 2);
+}
+
+// Backslash-escape the characters that would turn cell text into Markdown
+// formatting, links, HTML or table cells, and fold line breaks into spaces
+export function escapeMarkdown(text: string) {
+  return text
+    .replace(/\s*[\r\n]+\s*/g, " ")
+    .replace(/[\\`*_[\]<>|~]/g, "\\$&")
+    .replace(/^([#+-])/, "\\$1");
+}
+
+// Split an export row into its heading and the remaining metadata
+function splitHeading(row: Record<string, unknown>, index: number) {
+  const { [EXPORT_COLUMNS.header.label]: header, ...metadata } = row;
+  return {
+    heading: `${index + 1}. ${String(header ?? "") || "Untitled section"}`,
+    metadata: Object.entries(metadata).map(([label, value]) => [label, String(value ?? "")]),
+  };
+}
+
+// Markdown outline: one heading per section followed by its metadata as a list
+export function toMarkdown(title: string, rows: Record<string, unknown>[]) {
+  const blocks = rows.map((row, index) => {
+    const { heading, metadata } = splitHeading(row, index);
+    const lines = metadata.map(
+      ([label, value]) => `- **${escapeMarkdown(label)}:** ${escapeMarkdown(value) || "—"}`
+    );
+    return [`## ${escapeMarkdown(heading)}`, ...(lines.length ? ["", ...lines] : [])].join("\n");
+  });
+  return [`# ${escapeMarkdown(title)}`, ...blocks].join("\n\n") + "\n";
+}
+
+// Word document with each section as a heading followed by its metadata
+export async function toDocx(title: string, rows: Record<string, unknown>[]) {
+  const { Document, HeadingLevel, Packer, Paragraph, TextRun } = await import("docx");
+  const children = [
+    new Paragraph({ text: title, heading: HeadingLevel.TITLE }),
+    ...rows.flatMap((row, index) => {
+      const { heading, metadata } = splitHeading(row, index);
+      return [
+        new Paragraph({ text: heading, heading: HeadingLevel.HEADING_1 }),
+        ...metadata.map(
+          ([label, value]) =>
+            new Paragraph({
+              children: [
+                new TextRun({ text: `${label}: `, bold: true }),
+                new TextRun(value || "—"),
+              ],
+            })
+        ),
+      ];
+    }),
+  ];
+  return Packer.toBlob(new Document({ title, sections: [{ children }] }));
+}
+
+// Trigger a browser download for generated content
+export function downloadFile(filename: string, content: BlobPart, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,172 @@
+import type { Member } from "../../convex/users";
+import { SECTION_STATUSES, initialStatusError } from "../../convex/lib/workflow";
+import { sectionFieldLabels, sectionSchema, type SectionField } from "@/lib/sections";
+
+export type SheetRows = string[][];
+
+// Column index mapped onto each section field, or null when the field is not imported
+export type ColumnMapping = Record<SectionField, number | null>;
+
+export type ImportRow = {
+  rowNumber: number;
+  values?: {
+    header: string;
+    type: string;
+    status: (typeof SECTION_STATUSES)[number];
+    target: number;
+    limit: number;
+    reviewerId?: string;
+  };
+  errors: string[];
+};
+
+// Header names we recognise for each field, compared case- and punctuation-insensitively
+const FIELD_ALIASES: Record<SectionField, string[]> = {
+  header: ["header", "section", "title", "name", "heading"],
+  type: ["type", "sectiontype", "category"],
+  status: ["status", "state"],
+  target: ["target", "targetpages", "pages"],
+  limit: ["limit", "pagelimit", "maxpages", "max"],
+  reviewerId: ["reviewer", "assignee", "owner", "revieweremail"],
+};
+
+const normalize = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+// Parse RFC 4180 delimited text, including quoted fields with delimiters, quotes
+// and newlines. Only a quote at the start of a field opens a quoted field; one
+// further in is kept as text. Blank rows are kept so pasted blocks stay aligned.
+export function parseDelimited(text: string, delimiter: string): SheetRows {
+  const rows: SheetRows = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+export function parseCsv(text: string): SheetRows {
+  return parseDelimited(text, ",").filter(cells => cells.some(cell => cell.trim() !== ""));
+}
+
+// Read a CSV or XLSX file into rows of strings
+export async function readSpreadsheet(file: File): Promise<SheetRows> {
+  if (/\.xlsx$/i.test(file.name)) {
+    const { readSheet } = await import("read-excel-file/browser");
+    const data = await readSheet(file);
+    return data
+      .map(row =>
+        row.map(cell =>
+          cell === null ? "" : cell instanceof Date ? cell.toISOString() : String(cell)
+        )
+      )
+      .filter(cells => cells.some(cell => cell.trim() !== ""));
+  }
+
+  return parseCsv(await file.text());
+}
+
+// Guess which column feeds each field from the header row
+export function guessMapping(headers: string[]): ColumnMapping {
+  const normalized = headers.map(normalize);
+  const mapping = {} as ColumnMapping;
+  for (const [field, aliases] of Object.entries(FIELD_ALIASES) as [SectionField, string[]][]) {
+    const index = normalized.findIndex(header => aliases.includes(header));
+    mapping[field] = index === -1 ? null : index;
+  }
+  return mapping;
+}
+
+// Validate every data row against the section schema. Reviewers are matched to
+// workspace members by name or email.
+export function validateRows(
+  rows: SheetRows,
+  mapping: ColumnMapping,
+  members: Member[]
+): ImportRow[] {
+  const cell = (row: string[], field: SectionField) => {
+    const index = mapping[field];
+    return index === null ? "" : (row[index] ?? "").trim();
+  };
+
+  return rows.map((row, index) => {
+    const rowNumber = index + 2; // 1-based, after the header row
+    const errors: string[] = [];
+
+    const status =
+      SECTION_STATUSES.find(
+        status => normalize(status) === normalize(cell(row, "status") || "Not Started")
+      ) ?? cell(row, "status");
+
+    let reviewerId: string | undefined;
+    const reviewer = cell(row, "reviewerId").toLowerCase();
+    if (reviewer) {
+      const member = members.find(
+        member => member.name.toLowerCase() === reviewer || member.email.toLowerCase() === reviewer
+      );
+      if (member) {
+        reviewerId = member.userId;
+      } else {
+        errors.push(`Reviewer "${cell(row, "reviewerId")}" is not a workspace member`);
+      }
+    }
+
+    const parsed = sectionSchema.safeParse({
+      header: cell(row, "header"),
+      type: cell(row, "type") || "Narrative",
+      status,
+      target: cell(row, "target") || 0,
+      limit: cell(row, "limit") || 0,
+      reviewerId,
+    });
+    if (!parsed.success) {
+      for (const issue of parsed.error.issues) {
+        const field = issue.path[0] as SectionField | undefined;
+        errors.push(`${field ? sectionFieldLabels[field] : "Row"}: ${issue.message}`);
+      }
+    } else {
+      const statusError = initialStatusError(parsed.data.status, parsed.data.reviewerId);
+      if (statusError) {
+        errors.push(statusError);
+      }
+    }
+
+    return {
+      rowNumber,
+      values: parsed.success && errors.length === 0 ? parsed.data : undefined,
+      errors,
+    };
+  });
+}
@@ -0,0 +1,35 @@
+// The "@name" being typed just before the caret, if any: where the "@" sits and
+// what has been typed after it
+export function mentionQueryAt(text: string, caret: number) {
+  const match = /(^|\s)@([^\s@]*)$/.exec(text.slice(0, caret));
+  if (!match) {
+    return null;
+  }
+  return { start: caret - match[2].length - 1, query: match[2] };
+}
+
+// Replace the "@query" between `start` and `caret` with "@Name " and return the
+// new text and caret position
+export function insertMention(text: string, start: number, caret: number, name: string) {
+  const mention = `@${name} `;
+  return {
+    text: text.slice(0, start) + mention + text.slice(caret),
+    caret: start + mention.length,
+  };
+}
+
+// Split a comment into plain text and "@Name" mention segments for display
+export function splitMentions(body: string, names: string[]) {
+  const tokens = names.filter(Boolean).map(name => `@${name}`);
+  if (tokens.length === 0) {
+    return [{ text: body, mention: false }];
+  }
+
+  const escaped = tokens
+    .sort((a, b) => b.length - a.length)
+    .map(token => token.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"));
+  return body
+    .split(new RegExp(`(${escaped.join("|")})`, "g"))
+    .filter(Boolean)
+    .map(text => ({ text, mention: tokens.includes(text) }));
+}
@@ -0,0 +1,61 @@
+import { z } from "zod";
+
+// Empty form inputs become undefined so optional fields are left out
+const optionalText = z
+  .string()
+  .trim()
+  .transform(value => value || undefined)
+  .optional();
+
+export const contactSchema = z.object({
+  name: z.string().trim().min(1, "Every point of contact needs a name"),
+  title: optionalText,
+  email: z
+    .union([z.literal(""), z.email("Enter a valid contact email")])
+    .transform(value => value || undefined)
+    .optional(),
+  phone: optionalText,
+});
+
+export type Contact = z.input<typeof contactSchema>;
+
+// Editable past-performance fields, validated before they are sent to Convex
+export const pastPerformanceSchema = z
+  .object({
+    contractName: z.string().trim().min(1, "Contract name is required"),
+    customer: z.string().trim().min(1, "Customer is required"),
+    contractNumber: optionalText,
+    periodStart: z.iso.date("Start date is required"),
+    periodEnd: z
+      .union([z.literal(""), z.iso.date()])
+      .transform(value => value || undefined)
+      .optional(),
+    value: z.coerce.number().nonnegative("Contract value must be zero or more"),
+    relevance: z.string().trim(),
+    contacts: z.array(contactSchema),
+  })
+  .refine(record => !record.periodEnd || record.periodEnd >= record.periodStart, {
+    message: "Period end must not be before its start",
+    path: ["periodEnd"],
+  });
+
+const currency = new Intl.NumberFormat("en-US", {
+  style: "currency",
+  currency: "USD",
+  maximumFractionDigits: 0,
+});
+
+export function formatContractValue(value: number) {
+  return currency.format(value);
+}
+
+// Dates are stored as YYYY-MM-DD, so format them in UTC to avoid an off-by-one day
+const monthYear = new Intl.DateTimeFormat("en-US", {
+  month: "short",
+  year: "numeric",
+  timeZone: "UTC",
+});
+
+export function formatPeriod(start: string, end?: string) {
+  return `${monthYear.format(new Date(start))} – ${end ? monthYear.format(new Date(end)) : "Present"}`;
+}
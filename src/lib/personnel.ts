@@ -0,0 +1,25 @@
+import { z } from "zod";
+
+import { CLEARANCE_LEVELS } from "../../convex/lib/staffing";
+
+// Editable personnel fields, validated before they are sent to Convex.
+// Certifications are entered as a comma-separated list.
+export const personnelSchema = z.object({
+  name: z.string().trim().min(1, "Name is required"),
+  email: z
+    .union([z.literal(""), z.email("Enter a valid email")])
+    .transform(value => value || undefined)
+    .optional(),
+  role: z.string().trim().min(1, "Proposed role is required"),
+  laborCategory: z.string().trim(),
+  clearance: z.enum(CLEARANCE_LEVELS),
+  certifications: z.string().transform(value =>
+    value
+      .split(",")
+      .map(item => item.trim())
+      .filter(Boolean)
+  ),
+});
+
+// File types accepted for resume uploads
+export const RESUME_ACCEPT = ".pdf,.doc,.docx";
@@ -0,0 +1,40 @@
+import { z } from "zod";
+
+import { daysBetween, todayIso } from "../../convex/lib/schedule";
+
+// Editable proposal fields, validated before they are sent to Convex
+export const proposalSchema = z.object({
+  name: z.string().trim().min(1, "Proposal name is required"),
+  agency: z.string().trim().min(1, "Agency is required"),
+  solicitationNumber: z
+    .string()
+    .trim()
+    .transform(value => value || undefined)
+    .optional(),
+  dueDate: z.iso.date("Due date is required"),
+});
+
+// Whole days from today until a YYYY-MM-DD due date; negative once it has passed
+export function daysUntil(dueDate: string) {
+  return daysBetween(todayIso(), dueDate);
+}
+
+// Dates are stored as YYYY-MM-DD, so format them in UTC to avoid an off-by-one day
+const dayMonthYear = new Intl.DateTimeFormat("en-US", {
+  month: "short",
+  day: "numeric",
+  year: "numeric",
+  timeZone: "UTC",
+});
+
+export function formatDueDate(dueDate: string) {
+  return dayMonthYear.format(new Date(dueDate));
+}
+
+// "Due in 3 days", "Due today", "Overdue by 2 days"
+export function dueLabel(dueDate: string) {
+  const days = daysUntil(dueDate);
+  const plural = (count: number) => `${count} day${count === 1 ? "" : "s"}`;
+  if (days === 0) return "Due today";
+  return days > 0 ? `Due in ${plural(days)}` : `Overdue by ${plural(-days)}`;
+}
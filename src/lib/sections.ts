@@ -0,0 +1,50 @@
+import { z } from "zod";
+
+import { METRIC_MAX } from "../../convex/lib/budget";
+import { SECTION_STATUSES } from "../../convex/lib/workflow";
+
+// Section types offered when creating or editing outline sections
+export const SECTION_TYPES = [
+  "Table of Contents",
+  "Executive Summary",
+  "Technical Approach",
+  "Design",
+  "Capabilities",
+  "Focus Documents",
+  "Narrative",
+  "Cover Page",
+] as const;
+
+// Editable section fields, validated before they are sent to Convex
+export const sectionSchema = z.object({
+  header: z.string().trim().min(1, "Header is required"),
+  type: z.string(),
+  status: z.enum(SECTION_STATUSES),
+  target: z.coerce.number().int().nonnegative().max(METRIC_MAX),
+  limit: z.coerce.number().int().nonnegative().max(METRIC_MAX),
+  reviewerId: z.string().optional(),
+});
+
+export type SectionField = keyof typeof sectionSchema.shape;
+
+export const sectionFieldLabels: Record<SectionField, string> = {
+  header: "Header",
+  type: "Section Type",
+  status: "Status",
+  target: "Target",
+  limit: "Limit",
+  reviewerId: "Reviewer",
+};
+
+// Empty date inputs clear the due date
+const optionalDate = z
+  .union([z.literal(""), z.iso.date("Enter a valid due date")])
+  .transform(value => value || undefined)
+  .optional();
+
+// A section's due dates; their order is checked with `scheduleError`
+export const scheduleSchema = z.object({
+  draftDue: optionalDate,
+  reviewDue: optionalDate,
+  finalDue: optionalDate,
+});
@@ -0,0 +1,16 @@
+import { z } from "zod";
+
+// Editable template fields, validated before they are sent to Convex.
+// The checklist is entered one item per line.
+export const templateSchema = z.object({
+  name: z.string().trim().min(1, "Template name is required"),
+  type: z.string().min(1, "Section type is required"),
+  target: z.coerce.number().int().nonnegative(),
+  limit: z.coerce.number().int().nonnegative(),
+  checklist: z.string().transform(value =>
+    value
+      .split("\n")
+      .map(item => item.trim())
+      .filter(Boolean)
+  ),
+});
@@ -0,0 +1,25 @@
+import type { Id } from "../../convex/_generated/dataModel";
+
+// Send a file to a Convex storage upload URL and return its storage id
+export async function uploadToStorage(uploadUrl: string, file: File) {
+  const response = await fetch(uploadUrl, {
+    method: "POST",
+    headers: { "Content-Type": file.type },
+    body: file,
+  });
+  if (!response.ok) {
+    throw new Error(`Upload of ${file.name} failed`);
+  }
+  const { storageId } = (await response.json()) as { storageId: Id<"_storage"> };
+  return storageId;
+}
+
+export function formatFileSize(bytes: number) {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(0)} KB`;
+  }
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
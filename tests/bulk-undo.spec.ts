@@ -0,0 +1,36 @@
+import { test, expect } from "@playwright/test";
+
+import { holdsValues } from "../convex/lib/bulk";
+
+/**
+ * Conflict check behind bulk undo: a section is only reverted while it still
+ * holds what the bulk change wrote
+ */
+
+const section = {
+  status: "In Progress",
+  reviewerId: "u2",
+  type: "Narrative",
+  target: 2,
+  limit: 3,
+} as const;
+
+test.describe("Bulk undo conflict check", () => {
+  test("holds values that are unchanged since the bulk change", () => {
+    expect(holdsValues(section, { status: "In Progress" })).toBe(true);
+    expect(holdsValues(section, { target: 2, limit: 3 })).toBe(true);
+    expect(holdsValues(section, {})).toBe(true);
+  });
+
+  test("detects a section changed again since", () => {
+    expect(holdsValues(section, { status: "In Review" })).toBe(false);
+    expect(holdsValues(section, { type: "Technical" })).toBe(false);
+    expect(holdsValues(section, { target: 2, limit: 4 })).toBe(false);
+  });
+
+  test("treats a null reviewer as cleared", () => {
+    expect(holdsValues(section, { reviewerId: "u2" })).toBe(true);
+    expect(holdsValues(section, { reviewerId: null })).toBe(false);
+    expect(holdsValues({ ...section, reviewerId: undefined }, { reviewerId: null })).toBe(true);
+  });
+});
@@ -0,0 +1,53 @@
+import { test, expect } from "@playwright/test";
+
+import { escapeCsv, escapeMarkdown, toCsv, toMarkdown } from "../src/lib/export";
+
+/**
+ * Outline exports: CSV quoting and formula neutralising, Markdown escaping
+ */
+
+test.describe("CSV export", () => {
+  test("quotes cells with commas, quotes and line breaks", () => {
+    expect(escapeCsv("plain")).toBe("plain");
+    expect(escapeCsv("a,b")).toBe('"a,b"');
+    expect(escapeCsv('say "hi"')).toBe('"say ""hi"""');
+    expect(escapeCsv("two\nlines")).toBe('"two\nlines"');
+    expect(escapeCsv(undefined)).toBe("");
+  });
+
+  test("prefixes text a spreadsheet would run as a formula", () => {
+    expect(escapeCsv('=HYPERLINK("x")')).toBe('"\'=HYPERLINK(""x"")"');
+    expect(escapeCsv("+1")).toBe("'+1");
+    expect(escapeCsv("-2")).toBe("'-2");
+    expect(escapeCsv("@SUM(A1)")).toBe("'@SUM(A1)");
+    expect(escapeCsv(-2)).toBe("-2");
+  });
+
+  test("writes a header row followed by one row per section", () => {
+    expect(
+      toCsv([
+        { Header: "Overview", Target: 2 },
+        { Header: "Plan, phase 1", Target: 0 },
+      ])
+    ).toBe('Header,Target\nOverview,2\n"Plan, phase 1",0');
+    expect(toCsv([])).toBe("");
+  });
+});
+
+test.describe("Markdown export", () => {
+  test("escapes formatting, links, HTML and table pipes", () => {
+    expect(escapeMarkdown("*bold* _it_ [x](y) <b> a|b `c`")).toBe(
+      "\\*bold\\* \\_it\\_ \\[x\\](y) \\<b\\> a\\|b \\`c\\`"
+    );
+    expect(escapeMarkdown("# not a heading")).toBe("\\# not a heading");
+    expect(escapeMarkdown("two\n\nlines")).toBe("two lines");
+  });
+
+  test("writes a heading per section with its metadata", () => {
+    expect(
+      toMarkdown("Proposal *draft*", [{ Header: "Overview | scope", Status: "Done", Reviewer: "" }])
+    ).toBe(
+      "# Proposal \\*draft\\*\n\n## 1. Overview \\| scope\n\n- **Status:** Done\n- **Reviewer:** —\n"
+    );
+  });
+});
@@ -0,0 +1,84 @@
+import { test, expect } from "@playwright/test";
+
+import { guessMapping, parseCsv, parseDelimited, validateRows } from "../src/lib/import";
+
+/**
+ * Outline import: delimited text parsing, column guessing and row validation
+ */
+
+const members = [{ userId: "u1", name: "Ada Lovelace", email: "ada@example.com", image: null }];
+
+test.describe("Delimited text parsing", () => {
+  test("reads quoted fields with delimiters, escaped quotes and newlines", () => {
+    expect(parseDelimited('a,"b,c","say ""hi""","two\nlines"\r\nd', ",")).toEqual([
+      ["a", "b,c", 'say "hi"', "two\nlines"],
+      ["d"],
+    ]);
+  });
+
+  test("keeps a quote in the middle of a field as text", () => {
+    expect(parseDelimited('5" binder,12"x18" map\nnext', ",")).toEqual([
+      ['5" binder', '12"x18" map'],
+      ["next"],
+    ]);
+  });
+
+  test("drops blank rows from CSV files", () => {
+    expect(parseCsv("a,b\n\n , \nc,d\n")).toEqual([
+      ["a", "b"],
+      ["c", "d"],
+    ]);
+  });
+});
+
+test.describe("Row validation", () => {
+  const mapping = guessMapping(["Section", "Type", "Status", "Pages", "Max", "Reviewer"]);
+
+  test("guesses columns from common header names", () => {
+    expect(mapping).toEqual({
+      header: 0,
+      type: 1,
+      status: 2,
+      target: 3,
+      limit: 4,
+      reviewerId: 5,
+    });
+  });
+
+  test("accepts a complete row and matches reviewers by email", () => {
+    const [row] = validateRows(
+      [["Overview", "Narrative", "in review", "2", "3", "ADA@example.com"]],
+      mapping,
+      members
+    );
+    expect(row.errors).toEqual([]);
+    expect(row.values).toEqual({
+      header: "Overview",
+      type: "Narrative",
+      status: "In Review",
+      target: 2,
+      limit: 3,
+      reviewerId: "u1",
+    });
+  });
+
+  test("reports unknown reviewers and missing headers by row", () => {
+    const [row] = validateRows([["", "", "", "", "", "Grace"]], mapping, members);
+    expect(row.rowNumber).toBe(2);
+    expect(row.values).toBeUndefined();
+    expect(row.errors).toContain('Reviewer "Grace" is not a workspace member');
+    expect(row.errors).toContain("Header: Header is required");
+  });
+
+  test("rejects page budgets the server would refuse", () => {
+    const [row] = validateRows([["Overview", "", "", "10001", "", ""]], mapping, members);
+    expect(row.values).toBeUndefined();
+    expect(row.errors).toEqual(["Target: Too big: expected number to be <=10000"]);
+  });
+
+  test("rejects sections imported as done without a reviewer", () => {
+    const [row] = validateRows([["Overview", "", "Done", "", "", ""]], mapping, members);
+    expect(row.values).toBeUndefined();
+    expect(row.errors).toEqual(["A section that is Done needs a reviewer"]);
+  });
+});
@@ -0,0 +1,44 @@
+import { test, expect } from "@playwright/test";
+
+import {
+  ORDER_STEP,
+  REBALANCE_GAP,
+  needsRebalance,
+  orderBetween,
+  spreadKeys,
+} from "../convex/lib/ordering";
+
+/**
+ * Fractional order keys behind drag-and-drop reordering
+ */
+
+test.describe("Order keys", () => {
+  test("bisects the gap between neighbours", () => {
+    expect(orderBetween(1024, 2048)).toBe(1536);
+    expect(orderBetween(undefined, 1024)).toBe(1024 - ORDER_STEP);
+    expect(orderBetween(1024, undefined)).toBe(1024 + ORDER_STEP);
+    expect(orderBetween(undefined, undefined)).toBe(ORDER_STEP);
+  });
+
+  test("asks for a rebalance once the gap is too narrow", () => {
+    expect(needsRebalance(1, 1 + 1e-7)).toBe(true);
+    expect(needsRebalance(1, 2)).toBe(false);
+    expect(needsRebalance(undefined, 1)).toBe(false);
+  });
+});
+
+test.describe("Rebalancing a window", () => {
+  test("spaces keys evenly inside the rows around the window", () => {
+    expect(spreadKeys(0, 100, 3)).toEqual([25, 50, 75]);
+  });
+
+  test("gives up on a gap that is too narrow, so the window is widened", () => {
+    expect(spreadKeys(0, 3 * REBALANCE_GAP, 3)).toBeNull();
+  });
+
+  test("steps away from the one closed side at the ends of the outline", () => {
+    expect(spreadKeys(10, undefined, 2)).toEqual([10 + ORDER_STEP, 10 + 2 * ORDER_STEP]);
+    expect(spreadKeys(undefined, 10, 2)).toEqual([10 - 2 * ORDER_STEP, 10 - ORDER_STEP]);
+    expect(spreadKeys(undefined, undefined, 2)).toEqual([ORDER_STEP, 2 * ORDER_STEP]);
+  });
+});
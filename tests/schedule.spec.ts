@@ -0,0 +1,46 @@
+import { test, expect } from "@playwright/test";
+
+import {
+  daysBetween,
+  overdueMilestone,
+  scheduleError,
+  shiftDate,
+  todayIso,
+} from "../convex/lib/schedule";
+
+/**
+ * Section due dates behind the calendar and timeline views
+ */
+
+test.describe("Schedule validation", () => {
+  test("accepts dates in order, with gaps", () => {
+    expect(scheduleError({ draftDue: "2025-03-01", finalDue: "2025-03-10" })).toBeNull();
+    expect(scheduleError({})).toBeNull();
+  });
+
+  test("rejects invalid and out-of-order dates", () => {
+    expect(scheduleError({ draftDue: "2025-02-30x" })).toBe("Draft due date must be a valid date");
+    expect(scheduleError({ draftDue: "2025-03-05", reviewDue: "2025-03-01" })).toBe(
+      "Review due date must not be before the draft due date"
+    );
+  });
+});
+
+test.describe("Due dates", () => {
+  test("takes today from the local calendar day", () => {
+    expect(todayIso(new Date(2025, 0, 1, 0, 5))).toBe("2025-01-01");
+    expect(todayIso(new Date(2025, 0, 1, 23, 55))).toBe("2025-01-01");
+  });
+
+  test("shifts and counts whole days across month ends", () => {
+    expect(shiftDate("2025-01-30", 3)).toBe("2025-02-02");
+    expect(daysBetween("2025-01-30", "2025-02-02")).toBe(3);
+  });
+
+  test("only counts milestones the section still has to meet as overdue", () => {
+    const schedule = { draftDue: "2025-03-01", reviewDue: "2025-03-05" };
+    expect(overdueMilestone({ ...schedule, status: "In Progress" }, "2025-03-02")).toBe("draftDue");
+    expect(overdueMilestone({ ...schedule, status: "In Review" }, "2025-03-02")).toBeUndefined();
+    expect(overdueMilestone({ ...schedule, status: "Done" }, "2025-04-01")).toBeUndefined();
+  });
+});
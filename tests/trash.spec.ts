@@ -0,0 +1,15 @@
+import { test, expect } from "@playwright/test";
+
+import { TRASH_RETENTION_DAYS, purgeDate } from "../convex/lib/trash";
+
+/**
+ * Section trash retention
+ */
+
+test.describe("Trash retention", () => {
+  test("purges a section the retention period after it was trashed", () => {
+    const trashedAt = Date.UTC(2025, 0, 31, 12);
+    expect(purgeDate(trashedAt).toISOString()).toBe("2025-03-02T12:00:00.000Z");
+    expect(TRASH_RETENTION_DAYS).toBe(30);
+  });
+});
@@ -0,0 +1,47 @@
+import { test, expect } from "@playwright/test";
+
+import { rowOffsets, rowWindow } from "../src/hooks/use-virtual-rows";
+
+/**
+ * Window math behind the virtualized outline table
+ */
+
+const keys = Array.from({ length: 100 }, (_, index) => `row-${index}`);
+
+test.describe("Row offsets", () => {
+  test("uses the estimate for rows that have not been measured", () => {
+    const offsets = rowOffsets(keys.slice(0, 3), new Map(), 40);
+    expect(offsets).toEqual([0, 40, 80, 120]);
+  });
+
+  test("uses measured heights where known", () => {
+    const offsets = rowOffsets(keys.slice(0, 3), new Map([["row-1", 100]]), 40);
+    expect(offsets).toEqual([0, 40, 140, 180]);
+  });
+});
+
+test.describe("Row window", () => {
+  const offsets = rowOffsets(keys, new Map(), 50);
+
+  test("renders the rows in view plus the overscan", () => {
+    expect(rowWindow(offsets, { top: 1000, height: 200 }, 2)).toEqual({ start: 18, end: 27 });
+  });
+
+  test("clamps to the first and last rows", () => {
+    expect(rowWindow(offsets, { top: 0, height: 200 }, 10)).toEqual({ start: 0, end: 15 });
+    expect(rowWindow(offsets, { top: 4900, height: 500 }, 10)).toEqual({ start: 88, end: 100 });
+  });
+
+  test("keeps a pinned row rendered while scrolled away", () => {
+    expect(rowWindow(offsets, { top: 2500, height: 100 }, 0, 3)).toEqual({ start: 3, end: 53 });
+  });
+
+  test("is empty without rows", () => {
+    expect(rowWindow([0], { top: 0, height: 500 }, 10)).toEqual({ start: 0, end: 0 });
+  });
+
+  test("follows taller measured rows", () => {
+    const tall = rowOffsets(keys, new Map([["row-0", 500]]), 50);
+    expect(rowWindow(tall, { top: 600, height: 100 }, 0)).toEqual({ start: 3, end: 6 });
+  });
+});
@@ -0,0 +1,72 @@
+import { test, expect } from "@playwright/test";
+
+import { initialStatusError, reviewerChangeError, transitionError } from "../convex/lib/workflow";
+
+/**
+ * Section status workflow rules shared by the table, the board and Convex
+ */
+
+test.describe("Status transitions", () => {
+  test("allows the next step and the paths back", () => {
+    expect(transitionError({ status: "Not Started" }, "In Progress", "u1")).toBeNull();
+    expect(transitionError({ status: "In Progress" }, "Not Started", "u1")).toBeNull();
+    expect(transitionError({ status: "Done" }, "In Progress", "u1")).toBeNull();
+  });
+
+  test("rejects skipping a step", () => {
+    expect(transitionError({ status: "Not Started" }, "Done", "u1")).toBe(
+      "Cannot move a section from Not Started to Done"
+    );
+  });
+
+  test("needs a reviewer before review", () => {
+    expect(transitionError({ status: "In Progress" }, "In Review", "u1")).toBe(
+      "Assign a reviewer before sending a section for review"
+    );
+    expect(
+      transitionError({ status: "In Progress", reviewerId: "u2" }, "In Review", "u1")
+    ).toBeNull();
+  });
+
+  test("only the assigned reviewer can approve or return a section", () => {
+    const section = { status: "In Review", reviewerId: "u2" } as const;
+    expect(transitionError(section, "Done", "u1")).toBe(
+      "Only the assigned reviewer can approve or return a section in review"
+    );
+    expect(transitionError(section, "Done", "u2")).toBeNull();
+    expect(transitionError(section, "In Progress", "u2")).toBeNull();
+  });
+});
+
+test.describe("Initial status", () => {
+  test("lets new sections start without a reviewer until review", () => {
+    expect(initialStatusError("Not Started")).toBeNull();
+    expect(initialStatusError("In Progress")).toBeNull();
+  });
+
+  test("needs a reviewer for sections imported in review or done", () => {
+    expect(initialStatusError("In Review")).toBe("A section that is In Review needs a reviewer");
+    expect(initialStatusError("Done")).toBe("A section that is Done needs a reviewer");
+    expect(initialStatusError("Done", "u2")).toBeNull();
+  });
+});
+
+test.describe("Reviewer changes", () => {
+  test("are allowed outside review", () => {
+    expect(reviewerChangeError({ status: "In Progress", reviewerId: "u2" }, "u1")).toBeNull();
+    expect(reviewerChangeError({ status: "Done", reviewerId: "u2" }, undefined)).toBeNull();
+  });
+
+  test("keep the reviewer of a section in review", () => {
+    const section = { status: "In Review", reviewerId: "u2" } as const;
+    expect(reviewerChangeError(section, "u2")).toBeNull();
+    // Taking over the review would let anyone approve the section
+    expect(reviewerChangeError(section, "u1")).toBe(
+      "Return the section to In Progress before changing its reviewer"
+    );
+    // Clearing it would leave nobody able to move the section on
+    expect(reviewerChangeError(section, undefined)).toBe(
+      "Return the section to In Progress before changing its reviewer"
+    );
+  });
+});